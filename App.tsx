@@ -5,9 +5,9 @@
 
 
 import React, { useState, useCallback, useRef, useEffect } from 'react';
-import ReactCrop, { type Crop, type PixelCrop } from 'react-image-crop';
+import ReactCrop, { type PercentCrop } from 'react-image-crop';
 import JSZip from 'jszip';
-import { generateEditedImage, generateFilteredImage, generateAdjustedImage, generateAutoEnhancedImage, generateExpandedImage, generateUpscaledImage, generateComposedImage } from './services/geminiService';
+import { generateEditedImage, generateFilteredImage, generateAdjustedImage, generateAutoEnhancedImage, generateExpandedImage, generateUpscaledImage, generateComposedImage, generateSubjectMask, getActiveModel } from './services/geminiService';
 import Header from './components/Header';
 import Spinner from './components/Spinner';
 import FilterPanel from './components/FilterPanel';
@@ -16,42 +16,59 @@ import CropPanel from './components/CropPanel';
 import ResizePanel from './components/ResizePanel';
 import AdvancedPanel from './components/AdvancedPanel';
 import ComposePanel from './components/ComposePanel';
+import LayerPreview from './components/LayerPreview';
+import LayerHandles from './components/LayerHandles';
+import BackgroundPanel from './components/BackgroundPanel';
 import ComparisonSlider from './components/ComparisonSlider';
-import { UndoIcon, RedoIcon, EyeIcon, DownloadIcon, MagicWandIcon, CollectionIcon } from './components/icons';
+import { UndoIcon, RedoIcon, EyeIcon, DownloadIcon, MagicWandIcon, CollectionIcon, LayersIcon } from './components/icons';
 import StartScreen from './components/StartScreen';
 import Filmstrip from './components/Filmstrip';
+import BatchPanel from './components/BatchPanel';
+import RecipePanel from './components/RecipePanel';
 import ViewportToolbar from './components/ViewportToolbar';
+import MaskCanvas, { type MaskCanvasHandle } from './components/MaskCanvas';
+import ToolOptions from './components/ToolOptions';
+import AdjustmentPreview from './components/AdjustmentPreview';
+import HistoryPanel from './components/HistoryPanel';
+import MetadataPanel from './components/MetadataPanel';
+import ImportReport from './components/ImportReport';
+import TransformPanel from './components/TransformPanel';
+import StraightenOverlay from './components/StraightenOverlay';
+import CropGuides from './components/CropGuides';
+import CompareModal from './components/CompareModal';
+import DownloadModal from './components/DownloadModal';
+import VariantPicker from './components/VariantPicker';
+import HistogramPanel from './components/HistogramPanel';
+import ClippingOverlay from './components/ClippingOverlay';
+import { analyzeImage, type Histogram, type ImageStats } from './services/histogram';
+import { exportProject, importProject, PROJECT_EXTENSION } from './services/projectArchive';
+import { saveSession, listSessions, loadSession, deleteSession, getStorageEstimate, type SessionSummary } from './services/sessionStore';
+import { createImageState, addHistoryEntry, getCurrentEntry, getEntry, jumpToEntry, undoEntry, redoEntry } from './services/history';
+import { generateVariations, MAX_VARIATIONS } from './services/variations';
+import { runRecipe, recipeUsesModel } from './services/recipes';
+import { renderExport, buildFilename, DEFAULT_EXPORT_OPTIONS, type ExportOptions } from './services/exportImage';
+import { importImage, importImages, type ImportFailure } from './services/imageImport';
+import { getCenteredCrop, percentToRect, rectToPercent, type CropGuide, type CropRect } from './services/crop';
+import { downloadBlob } from './services/download';
+import { applyPixelAdjustment, applyTransform, cropImage, dataURLtoFile } from './services/imageUtils';
+import { resampleImage } from './services/resample';
+import type { ExpandOffset } from './services/expand';
+import { flattenLayers, harmonizeLayer, describeLayers } from './services/layers';
+import { refineSubjectMatte, createCutout, replaceBackground, describeBackgroundChoice, DEFAULT_EDGE_RADIUS, type BackgroundChoice } from './services/background';
+import { createJobQueue, type JobQueue, type JobQueueOptions, type JobQueueState, type JobProgress } from './services/jobQueue';
+import type { Tab, ImageState, ImageMetadata, ComposeLayer, LayerTransform, ImageTransform, ResampleMethod, ExpandAnchor, HistoryOperation, MaskTool, MaskMode, PixelAdjustment, VariationSet, Recipe } from './types';
 
-// Helper to convert a data URL string to a File object
-const dataURLtoFile = (dataurl: string, filename: string): File => {
-    const arr = dataurl.split(',');
-    if (arr.length < 2) throw new Error("Invalid data URL");
-    const mimeMatch = arr[0].match(/:(.*?);/);
-    if (!mimeMatch || !mimeMatch[1]) throw new Error("Could not parse MIME type from data URL");
-
-    const mime = mimeMatch[1];
-    const bstr = atob(arr[1]);
-    let n = bstr.length;
-    const u8arr = new Uint8Array(n);
-    while(n--){
-        u8arr[n] = bstr.charCodeAt(n);
-    }
-    return new File([u8arr], filename, {type:mime});
-}
-
-type Tab = 'retouch' | 'compose' | 'crop' | 'resize' | 'adjust' | 'filters' | 'advanced';
 type InteractionMode = 'pan' | 'select';
 
-// Represents the state of a single image, including its edit history
-type ImageState = {
-  id: string;
-  history: File[];
-  historyIndex: number;
-  isProcessing: boolean;
-  error: string | null;
-  name: string;
+// What a batch runs for one image; kept per image so failed items can be retried
+type BatchJobSpec = {
+    serviceFn: (file: File) => Promise<string>;
+    operation: HistoryOperation;
 };
 
+// How long the editor must be idle before the session is written to IndexedDB
+const SESSION_SAVE_DELAY = 1000;
+
 const App: React.FC = () => {
   // --- STATE MANAGEMENT ---
   const [imageList, setImageList] = useState<ImageState[]>([]);
@@ -61,17 +78,18 @@ const App: React.FC = () => {
   const [prompt, setPrompt] = useState<string>('');
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [globalLoadingMessage, setGlobalLoadingMessage] = useState<string | null>(null);
+  const [importStatus, setImportStatus] = useState<string | null>(null);
+  const [importFailures, setImportFailures] = useState<ImportFailure[]>([]);
   const [error, setError] = useState<string | null>(null);
 
   // UI State
-  const [editHotspot, setEditHotspot] = useState<{ x: number, y: number } | null>(null);
-  const [displayHotspot, setDisplayHotspot] = useState<{ x: number, y: number } | null>(null);
   const [activeTab, setActiveTab] = useState<Tab>('retouch');
   const [interactionMode, setInteractionMode] = useState<InteractionMode>('select');
   
-  const [crop, setCrop] = useState<Crop>();
-  const [completedCrop, setCompletedCrop] = useState<PixelCrop>();
+  // Kept in percent of the image so it maps to source pixels regardless of display size
+  const [crop, setCrop] = useState<PercentCrop>();
   const [aspect, setAspect] = useState<number | undefined>();
+  const [cropGuide, setCropGuide] = useState<CropGuide>('thirds');
   
   const [isComparing, setIsComparing] = useState<boolean>(false);
   const [sliderPosition, setSliderPosition] = useState<number>(50);
@@ -81,9 +99,57 @@ const App: React.FC = () => {
   const [translate, setTranslate] = useState<{ x: number, y: number }>({ x: 0, y: 0 });
   const [isGrabbing, setIsGrabbing] = useState(false);
   const [imageDimensions, setImageDimensions] = useState<{width: number, height: number} | null>(null);
+  const [straightenAngle, setStraightenAngle] = useState(0);
+  const [originalDimensions, setOriginalDimensions] = useState<{width: number, height: number} | null>(null);
   const [isAnimatingEdit, setIsAnimatingEdit] = useState(false);
   const [isFilmstripVisible, setIsFilmstripVisible] = useState(true);
 
+  // Retouch mask state
+  const [maskTool, setMaskTool] = useState<MaskTool>('brush');
+  const [maskMode, setMaskMode] = useState<MaskMode>('add');
+  const [brushSize, setBrushSize] = useState<number>(40);
+  const [maskFeather, setMaskFeather] = useState<number>(8);
+  const [hasMask, setHasMask] = useState<boolean>(false);
+
+  // Live preview of a client-side adjustment that has not been applied yet
+  const [previewAdjustment, setPreviewAdjustment] = useState<PixelAdjustment | null>(null);
+
+  // Tonal analysis of the current image and clipping warnings on the viewport
+  const [imageAnalysis, setImageAnalysis] = useState<{ histogram: Histogram, stats: ImageStats } | null>(null);
+  const [showHighlightClipping, setShowHighlightClipping] = useState<boolean>(false);
+  const [showShadowClipping, setShowShadowClipping] = useState<boolean>(false);
+
+  // The subject found in one history version, kept so its edges can be refined and backgrounds tried without asking the model again
+  const [subject, setSubject] = useState<{ entryId: string, mask: string, matte: string, cutout: string, radius: number } | null>(null);
+
+  // Layers stacked over the current image in the Compose tab, bottom first, until they are flattened
+  const [composeLayers, setComposeLayers] = useState<ComposeLayer[]>([]);
+  const [selectedLayerId, setSelectedLayerId] = useState<string | null>(null);
+
+  // Two history versions shown side by side
+  const [comparedEntryIds, setComparedEntryIds] = useState<[string, string] | null>(null);
+
+  // Which images the export dialog is open for
+  const [downloadScope, setDownloadScope] = useState<'current' | 'all' | null>(null);
+
+  // AI variations: how many candidates each AI edit requests, and the set awaiting a pick
+  const [variationCount, setVariationCount] = useState<number>(1);
+  const [pendingVariations, setPendingVariations] = useState<VariationSet | null>(null);
+
+  // Batch queue
+  const [batchSettings, setBatchSettings] = useState<JobQueueOptions>({ concurrency: 2, ratePerMinute: 20 });
+  const [batchState, setBatchState] = useState<JobQueueState | null>(null);
+  const [batchJobs, setBatchJobs] = useState<Record<string, JobProgress>>({});
+  const [isBatchRunning, setIsBatchRunning] = useState(false);
+  const batchQueueRef = useRef<JobQueue | null>(null);
+  const batchJobSpecs = useRef(new Map<string, BatchJobSpec>());
+
+  // Session persistence
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [storedSessions, setStoredSessions] = useState<SessionSummary[]>([]);
+  const [storageEstimate, setStorageEstimate] = useState<{ usage: number, quota: number } | null>(null);
+  const sessionCreatedAt = useRef<number>(Date.now());
+
   // Refs
   const imgRef = useRef<HTMLImageElement>(null);
   const viewportRef = useRef<HTMLDivElement>(null);
@@ -91,11 +157,17 @@ const App: React.FC = () => {
   const isPanning = useRef(false);
   const panStart = useRef({ x: 0, y: 0 });
   const urlToRevokeRef = useRef<string | null>(null);
+  const maskCanvasRef = useRef<MaskCanvasHandle>(null);
+  // Lets long-running batch jobs read the latest image list rather than the one they were queued with
+  const imageListRef = useRef(imageList);
+  imageListRef.current = imageList;
 
   // --- DERIVED STATE ---
   const currentImageState = imageList[currentImageIndex] ?? null;
-  const currentImage = currentImageState?.history[currentImageState.historyIndex] ?? null;
-  const originalImage = currentImageState?.history[0] ?? null;
+  const currentEntry = currentImageState ? getCurrentEntry(currentImageState) : null;
+  const currentImage = currentEntry?.file ?? null;
+  const originalImage = currentImageState?.history[0]?.file ?? null;
+  const currentSubject = subject && subject.entryId === currentEntry?.id ? subject : null;
 
   // URL State Management
   const [visibleImageUrl, setVisibleImageUrl] = useState<string | null>(null);
@@ -103,14 +175,57 @@ const App: React.FC = () => {
 
   // Effect to reset UI state ONLY when switching to a different image
   useEffect(() => {
-    setEditHotspot(null);
-    setDisplayHotspot(null);
     setIsComparing(false);
+    setComposeLayers([]);
+    setSelectedLayerId(null);
     setCrop(undefined);
-    setCompletedCrop(undefined);
+    setComparedEntryIds(null);
     resetView();
   }, [currentImageState?.id]); // A stable ID is a great dependency for this
 
+  // Re-analyse whenever the displayed file changes, i.e. on every history step and image switch
+  useEffect(() => {
+    if (!currentImage) {
+        setImageAnalysis(null);
+        return;
+    }
+    let isCancelled = false;
+    setImageAnalysis(null);
+    analyzeImage(currentImage)
+        .then(result => { if (!isCancelled) setImageAnalysis(result); })
+        .catch(err => console.error('Failed to analyse image.', err));
+    return () => { isCancelled = true; };
+  }, [currentImage]);
+
+  // Autosave the session shortly after every change
+  useEffect(() => {
+    if (!sessionId || imageList.length === 0) return;
+    const timer = setTimeout(() => {
+        saveSession({
+            id: sessionId,
+            images: imageList.map(({ id, name, history, currentEntryId, headEntryId, metadata }) => ({ id, name, history, currentEntryId, headEntryId, metadata })),
+            currentImageIndex,
+            activeTab,
+        }, sessionCreatedAt.current).catch(err => console.error('Failed to save session.', err));
+    }, SESSION_SAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [sessionId, imageList, currentImageIndex, activeTab]);
+
+  const refreshStoredSessions = useCallback(async () => {
+    try {
+        const [sessions, estimate] = await Promise.all([listSessions(), getStorageEstimate()]);
+        setStoredSessions(sessions);
+        setStorageEstimate(estimate);
+    } catch (err) {
+        console.error('Failed to list saved sessions.', err);
+    }
+  }, []);
+
+  // The start screen offers stored sessions, so refresh the list whenever it is shown
+  useEffect(() => {
+    if (imageList.length === 0) refreshStoredSessions();
+  }, [imageList.length, refreshStoredSessions]);
+
   // Effect to preload the current image and update its visible URL to prevent flickering
   useEffect(() => {
     let newUrl: string | null = null;
@@ -208,8 +323,8 @@ const App: React.FC = () => {
       return () => window.removeEventListener('keydown', handleKeyDown);
   }, [imageList.length]);
 
-  const canUndo = currentImageState && currentImageState.historyIndex > 0;
-  const canRedo = currentImageState && currentImageState.historyIndex < currentImageState.history.length - 1;
+  const canUndo = !!currentEntry?.parentId;
+  const canRedo = !!currentImageState && currentImageState.currentEntryId !== currentImageState.headEntryId;
 
   // --- CORE FUNCTIONS ---
   
@@ -231,86 +346,200 @@ const App: React.FC = () => {
       setCurrentImageIndex(0);
       setError(null);
       setPrompt('');
-      setEditHotspot(null);
-      setDisplayHotspot(null);
+      setComposeLayers([]);
+      setSelectedLayerId(null);
       setImageDimensions(null);
       setIsComparing(false);
       setGlobalLoadingMessage(null);
+      setPendingVariations(null);
+      setStraightenAngle(0);
+      setSubject(null);
+      batchQueueRef.current?.cancel();
+      setBatchState(null);
+      batchJobSpecs.current.clear();
+      setSessionId(null);
       resetView();
   }, [resetView]);
 
-  const addImageToHistory = useCallback((newImageFile: File, index: number) => {
+  const startNewSession = useCallback(() => {
+    sessionCreatedAt.current = Date.now();
+    setSessionId(`session-${sessionCreatedAt.current}`);
+  }, []);
+
+  const addImageToHistory = useCallback((newImageFile: File, index: number, operation: HistoryOperation) => {
     setImageList(prevList => {
         const newList = [...prevList];
         const targetImage = newList[index];
         if (targetImage) {
-            const newHistory = targetImage.history.slice(0, targetImage.historyIndex + 1);
-            newHistory.push(newImageFile);
-            newList[index] = {
-                ...targetImage,
-                history: newHistory,
-                historyIndex: newHistory.length - 1,
-            };
+            newList[index] = addHistoryEntry(targetImage, newImageFile, operation);
         }
         return newList;
     });
     setCrop(undefined);
-    setCompletedCrop(undefined);
     onEditComplete();
   }, [onEditComplete]);
 
-  const handleSingleImageUpload = useCallback((file: File) => {
-    resetAllState();
-    const newImage: ImageState = {
-      id: `${file.name}-${file.lastModified}`,
-      name: file.name,
-      history: [file],
-      historyIndex: 0,
-      isProcessing: false,
-      error: null,
-    };
-    setImageList([newImage]);
-  }, [resetAllState]);
-
-  const handleMultipleImageUpload = useCallback((files: FileList) => {
-    resetAllState();
-    const newImages: ImageState[] = Array.from(files).map(file => ({
-      id: `${file.name}-${file.lastModified}-${Math.random()}`,
-      name: file.name,
-      history: [file],
-      historyIndex: 0,
-      isProcessing: false,
-      error: null,
-    }));
-    setImageList(newImages);
-  }, [resetAllState]);
+  // Runs an AI edit on the current image. A single result goes straight into history; with more
+  // variations requested, the calls run in parallel and the results wait in the variant picker.
+  const runAiEdit = useCallback(async (serviceFn: (file: File) => Promise<string>, operation: HistoryOperation, filePrefix: string) => {
+    if (!currentImageState || !currentEntry) return;
+    const startedAt = performance.now();
+
+    if (variationCount <= 1) {
+        const resultUrl = await serviceFn(currentEntry.file);
+        const newImageFile = await dataURLtoFile(resultUrl, `${filePrefix}-${Date.now()}.png`);
+        addImageToHistory(newImageFile, currentImageIndex, { ...operation, durationMs: performance.now() - startedAt });
+        return;
+    }
+
+    const { results, failures } = await generateVariations(variationCount, () => serviceFn(currentEntry.file));
+    failures.forEach(err => console.error('A variation failed to generate.', err));
+    setPendingVariations({
+        imageId: currentImageState.id,
+        sourceEntryId: currentEntry.id,
+        operation: { ...operation, durationMs: performance.now() - startedAt },
+        files: await Promise.all(results.map((url, i) => dataURLtoFile(url, `${filePrefix}-${Date.now()}-${i + 1}.png`))),
+        failedCount: failures.length,
+    });
+  }, [currentImageState, currentEntry, variationCount, addImageToHistory, currentImageIndex]);
+
+  // Adds the picked variations as children of their source version; the last one becomes current
+  const handleKeepVariations = useCallback((indices: number[]) => {
+    if (!pendingVariations || indices.length === 0) return;
+    const { imageId, sourceEntryId, operation, files } = pendingVariations;
+    setImageList(prev => prev.map(img => img.id !== imageId ? img : indices.reduce(
+        (state, i) => addHistoryEntry(state, files[i], { ...operation, params: { ...operation.params, variant: i + 1, variantCount: files.length } }, sourceEntryId),
+        img,
+    )));
+    setPendingVariations(null);
+    setCrop(undefined);
+    onEditComplete();
+  }, [pendingVariations, onEditComplete]);
+
+  const handleSingleImageUpload = useCallback(async (file: File) => {
+    setImportStatus(`Importing ${file.name}...`);
+    try {
+        const imported = await importImage(file);
+        resetAllState();
+        setImageList([{ ...createImageState(`${file.name}-${file.lastModified}`, imported.file), metadata: imported.metadata }]);
+        startNewSession();
+    } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+        setError(`Failed to import the image. ${errorMessage}`);
+        console.error(err);
+    } finally {
+        setImportStatus(null);
+    }
+  }, [resetAllState, startNewSession]);
+
+  const handleMultipleImageUpload = useCallback(async (files: FileList) => {
+    const fileArray = Array.from(files);
+    try {
+        const { images, failures } = await importImages(fileArray, (index, fileName) =>
+            setImportStatus(`Importing ${index + 1} of ${fileArray.length}: ${fileName}`)
+        );
+        if (images.length === 0) {
+            setError(`None of the files could be imported. ${failures.map(f => f.message).join(' ')}`);
+            return;
+        }
+        resetAllState();
+        setImageList(images.map(({ file, metadata }) => ({
+            ...createImageState(`${file.name}-${file.lastModified}-${Math.random()}`, file),
+            metadata,
+        })));
+        setImportFailures(failures);
+        startNewSession();
+    } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+        setError(`Failed to import the images. ${errorMessage}`);
+        console.error(err);
+    } finally {
+        setImportStatus(null);
+    }
+  }, [resetAllState, startNewSession]);
+
+  const handleResumeSession = useCallback(async (id: string) => {
+    try {
+        const session = await loadSession(id);
+        if (!session || session.images.length === 0) {
+            setError('This session could not be found. It may have been deleted.');
+            refreshStoredSessions();
+            return;
+        }
+        resetAllState();
+        setImageList(session.images.map(image => ({ ...image, metadata: image.metadata ?? null, isProcessing: false, error: null })));
+        setCurrentImageIndex(session.currentImageIndex);
+        setActiveTab(session.activeTab);
+        sessionCreatedAt.current = storedSessions.find(s => s.id === id)?.createdAt ?? Date.now();
+        setSessionId(session.id);
+    } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+        setError(`Failed to resume the session. ${errorMessage}`);
+        console.error(err);
+    }
+  }, [resetAllState, refreshStoredSessions, storedSessions]);
+
+  const handleOpenProject = useCallback(async (file: File) => {
+    setIsLoading(true);
+    setGlobalLoadingMessage('Opening project...');
+    try {
+        const project = await importProject(file);
+        resetAllState();
+        setImageList(project.images.map(image => ({ ...image, isProcessing: false, error: null })));
+        setCurrentImageIndex(project.currentImageIndex);
+        setActiveTab(project.activeTab);
+        startNewSession();
+    } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+        setError(`Failed to open the project. ${errorMessage}`);
+        console.error(err);
+    } finally {
+        setIsLoading(false);
+        setGlobalLoadingMessage(null);
+    }
+  }, [resetAllState, startNewSession]);
+
+  const handleDeleteSession = useCallback(async (id: string) => {
+    try {
+        await deleteSession(id);
+    } catch (err) {
+        console.error('Failed to delete session.', err);
+    }
+    refreshStoredSessions();
+  }, [refreshStoredSessions]);
   
-  const processImage = async (
+  const processImage = useCallback(async (
       imageState: ImageState,
       imageIndex: number,
-      prompt: string,
-      serviceFn: (file: File, prompt: string) => Promise<string>,
-      operationName: string
+      serviceFn: (file: File) => Promise<string>,
+      operation: HistoryOperation,
+      onProgress?: (fraction: number) => void
   ) => {
       setImageList(prev => prev.map((img, idx) => 
           idx === imageIndex ? { ...img, isProcessing: true, error: null } : img
       ));
 
+      // Services don't report progress, so creep towards 90% while waiting and jump to done at the end
+      let progress = 0.05;
+      onProgress?.(progress);
+      const progressTimer = onProgress && setInterval(() => {
+          progress += (0.9 - progress) * 0.1;
+          onProgress(progress);
+      }, 500);
+
       try {
-          const currentFile = imageState.history[imageState.historyIndex];
-          const resultUrl = await serviceFn(currentFile, prompt);
-          const newImageFile = dataURLtoFile(resultUrl, `${operationName}-${Date.now()}.png`);
+          const sourceEntry = getCurrentEntry(imageState);
+          const startedAt = performance.now();
+          const resultUrl = await serviceFn(sourceEntry.file);
+          const durationMs = performance.now() - startedAt;
+          const newImageFile = await dataURLtoFile(resultUrl, `${operation.type}-${Date.now()}.png`);
           
           setImageList(prevList => {
               const newList = [...prevList];
               const targetImage = newList[imageIndex];
               if (targetImage) {
-                  const newHistory = targetImage.history.slice(0, targetImage.historyIndex + 1);
-                  newHistory.push(newImageFile);
                   newList[imageIndex] = {
-                      ...targetImage,
-                      history: newHistory,
-                      historyIndex: newHistory.length - 1,
+                      ...addHistoryEntry(targetImage, newImageFile, { ...operation, durationMs }, sourceEntry.id),
                       isProcessing: false,
                   };
               }
@@ -328,43 +557,105 @@ const App: React.FC = () => {
           setImageList(prev => prev.map((img, idx) => 
               idx === imageIndex ? { ...img, error: errorMessage, isProcessing: false } : img
           ));
+          throw err;
+      } finally {
+          if (progressTimer) clearInterval(progressTimer);
+          onProgress?.(1);
       }
-  };
-
+  }, [currentImageIndex, onEditComplete]);
 
-  const handleApplyToAll = useCallback(async (prompt: string, type: 'filter' | 'adjustment') => {
+  // Runs one job per image through a queue that honours the batch settings. Jobs read the
+  // image's current version when they start, so later edits to queued images are picked up.
+  const runBatch = useCallback(async (imageIds: string[], makeJob: (image: ImageState) => BatchJobSpec, overrides?: Partial<JobQueueOptions>) => {
+    if (batchQueueRef.current || imageIds.length === 0) return;
     setIsLoading(true);
     setError(null);
-    const serviceFn = type === 'filter' ? generateFilteredImage : generateAdjustedImage;
-    
-    for (let i = 0; i < imageList.length; i++) {
-        setGlobalLoadingMessage(`Processing ${i + 1} of ${imageList.length}...`);
-        const imageToProcess = imageList[i];
-        await processImage(imageToProcess, i, prompt, serviceFn, type);
+    setBatchJobs(Object.fromEntries(imageIds.map(id => [id, { status: 'queued', progress: 0 }])));
 
-        if (i < imageList.length - 1) {
-            await new Promise(resolve => setTimeout(resolve, 500)); 
-        }
+    const queue = createJobQueue({ ...batchSettings, ...overrides }, (id, status, state) => {
+        setBatchState(state);
+        setBatchJobs(prev => ({ ...prev, [id]: { status, progress: prev[id]?.progress ?? 0 } }));
+        setGlobalLoadingMessage(`Processing ${state.done + state.failed + state.cancelled + 1} of ${state.total}...`);
+    });
+    batchQueueRef.current = queue;
+    setIsBatchRunning(true);
+
+    for (const id of imageIds) {
+        queue.add(id, async () => {
+            const index = imageListRef.current.findIndex(img => img.id === id);
+            const image = imageListRef.current[index];
+            if (!image) return;
+            const spec = makeJob(image);
+            batchJobSpecs.current.set(id, spec);
+            await processImage(image, index, spec.serviceFn, spec.operation, progress => {
+                setBatchJobs(prev => prev[id] ? { ...prev, [id]: { ...prev[id], progress } } : prev);
+            });
+        });
     }
-    
+
+    await queue.whenIdle();
+    batchQueueRef.current = null;
+    setIsBatchRunning(false);
+    setBatchState(queue.getState());
+    setBatchJobs({});
     setIsLoading(false);
     setGlobalLoadingMessage(null);
-  }, [imageList]);
+  }, [batchSettings, processImage]);
+
+  const handlePauseBatch = useCallback(() => {
+    batchQueueRef.current?.pause();
+    if (batchQueueRef.current) setBatchState(batchQueueRef.current.getState());
+  }, []);
+
+  const handleResumeBatch = useCallback(() => {
+    batchQueueRef.current?.resume();
+    if (batchQueueRef.current) setBatchState(batchQueueRef.current.getState());
+  }, []);
+
+  const handleCancelBatch = useCallback(() => {
+    batchQueueRef.current?.cancel();
+  }, []);
+
+  const handleBatchSettingsChange = useCallback((settings: JobQueueOptions) => {
+    setBatchSettings(settings);
+    batchQueueRef.current?.updateOptions(settings);
+  }, []);
+
+  // Reruns the last batch job of every image that failed, and nothing else
+  const handleRetryFailed = useCallback(() => {
+    const failedIds = imageList.filter(img => img.error && batchJobSpecs.current.has(img.id)).map(img => img.id);
+    runBatch(failedIds, image => batchJobSpecs.current.get(image.id)!);
+  }, [imageList, runBatch]);
+
+
+  const handleApplyToAll = useCallback(async (prompt: string, type: 'filter' | 'adjustment') => {
+    const serviceFn = type === 'filter' ? generateFilteredImage : generateAdjustedImage;
+    await runBatch(imageList.map(img => img.id), () => ({
+        serviceFn: file => serviceFn(file, prompt),
+        operation: { type, prompt, model: getActiveModel() },
+    }));
+  }, [imageList, runBatch]);
+
+  // Client-side adjustments are deterministic and fast, so batches run back to back without throttling.
+  const handleApplyPixelAdjustmentToAll = useCallback(async (adjustment: PixelAdjustment) => {
+    setPreviewAdjustment(null);
+    await runBatch(imageList.map(img => img.id), () => ({
+        serviceFn: file => applyPixelAdjustment(file, adjustment),
+        operation: { type: 'pixel-adjustment', params: adjustment },
+    }), { concurrency: 1, ratePerMinute: 0 });
+  }, [imageList, runBatch]);
 
   const handleGenerate = useCallback(async () => {
     if (!currentImage) return;
     if (!prompt.trim()) { setError('Please enter a description for your edit.'); return; }
-    if (!editHotspot) { setError('Please click on the image to select an area to edit.'); return; }
+    const mask = await maskCanvasRef.current?.exportMask();
+    if (!mask) { setError('Please paint over the area of the image you want to edit.'); return; }
 
     setIsLoading(true);
     setError(null);
     
     try {
-        const editedImageUrl = await generateEditedImage(currentImage, prompt, editHotspot);
-        const newImageFile = dataURLtoFile(editedImageUrl, `edited-${Date.now()}.png`);
-        addImageToHistory(newImageFile, currentImageIndex);
-        setEditHotspot(null);
-        setDisplayHotspot(null);
+        await runAiEdit(file => generateEditedImage(file, prompt, mask, maskFeather), { type: 'retouch', prompt, params: { feather: maskFeather }, model: getActiveModel() }, 'edited');
         setPrompt('');
     } catch (err) {
         const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
@@ -373,7 +664,7 @@ const App: React.FC = () => {
     } finally {
         setIsLoading(false);
     }
-  }, [currentImage, prompt, editHotspot, addImageToHistory, currentImageIndex]);
+  }, [currentImage, prompt, maskFeather, runAiEdit]);
   
   const handleRetouchAll = useCallback(async () => {
     if (!prompt.trim()) {
@@ -381,22 +672,12 @@ const App: React.FC = () => {
       return;
     }
     
-    setIsLoading(true);
-    setError(null);
-    
-    for (let i = 0; i < imageList.length; i++) {
-        setGlobalLoadingMessage(`Retouching ${i + 1} of ${imageList.length}...`);
-        await processImage(imageList[i], i, prompt, generateAdjustedImage, 'retouch-all');
-
-        if (i < imageList.length - 1) {
-            await new Promise(resolve => setTimeout(resolve, 500));
-        }
-    }
-    
-    setIsLoading(false);
-    setGlobalLoadingMessage(null);
+    await runBatch(imageList.map(img => img.id), () => ({
+        serviceFn: file => generateAdjustedImage(file, prompt),
+        operation: { type: 'retouch', prompt, model: getActiveModel() },
+    }));
     setPrompt('');
-  }, [imageList, prompt]);
+  }, [imageList, prompt, runBatch]);
 
   const handleApplyFilter = useCallback(async (filterPrompt: string) => {
     if (!currentImage) return;
@@ -405,9 +686,7 @@ const App: React.FC = () => {
     setError(null);
     
     try {
-        const filteredImageUrl = await generateFilteredImage(currentImage, filterPrompt);
-        const newImageFile = dataURLtoFile(filteredImageUrl, `filtered-${Date.now()}.png`);
-        addImageToHistory(newImageFile, currentImageIndex);
+        await runAiEdit(file => generateFilteredImage(file, filterPrompt), { type: 'filter', prompt: filterPrompt, model: getActiveModel() }, 'filtered');
     } catch (err) {
         const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
         setError(`Failed to apply the filter. ${errorMessage}`);
@@ -415,7 +694,7 @@ const App: React.FC = () => {
     } finally {
         setIsLoading(false);
     }
-  }, [currentImage, addImageToHistory, currentImageIndex]);
+  }, [currentImage, runAiEdit]);
   
   const handleApplyAdjustment = useCallback(async (adjustmentPrompt: string) => {
     if (!currentImage) return;
@@ -424,9 +703,28 @@ const App: React.FC = () => {
     setError(null);
     
     try {
-        const adjustedImageUrl = await generateAdjustedImage(currentImage, adjustmentPrompt);
-        const newImageFile = dataURLtoFile(adjustedImageUrl, `adjusted-${Date.now()}.png`);
-        addImageToHistory(newImageFile, currentImageIndex);
+        await runAiEdit(file => generateAdjustedImage(file, adjustmentPrompt), { type: 'adjustment', prompt: adjustmentPrompt, model: getActiveModel() }, 'adjusted');
+    } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+        setError(`Failed to apply the adjustment. ${errorMessage}`);
+        console.error(err);
+    } finally {
+        setIsLoading(false);
+    }
+  }, [currentImage, runAiEdit]);
+
+  const handleApplyPixelAdjustment = useCallback(async (adjustment: PixelAdjustment) => {
+    if (!currentImage) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+        const startedAt = performance.now();
+        const adjustedImageUrl = await applyPixelAdjustment(currentImage, adjustment);
+        const newImageFile = await dataURLtoFile(adjustedImageUrl, `${adjustment.type}-${Date.now()}.png`);
+        addImageToHistory(newImageFile, currentImageIndex, { type: 'pixel-adjustment', params: adjustment, durationMs: performance.now() - startedAt });
+        setPreviewAdjustment(null);
     } catch (err) {
         const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
         setError(`Failed to apply the adjustment. ${errorMessage}`);
@@ -443,9 +741,7 @@ const App: React.FC = () => {
     setError(null);
     
     try {
-        const enhancedImageUrl = await generateAutoEnhancedImage(currentImage);
-        const newImageFile = dataURLtoFile(enhancedImageUrl, `enhanced-${Date.now()}.png`);
-        addImageToHistory(newImageFile, currentImageIndex);
+        await runAiEdit(generateAutoEnhancedImage, { type: 'auto-enhance', model: getActiveModel() }, 'enhanced');
     } catch (err) {
         const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
         setError(`Failed to auto-enhance the image. ${errorMessage}`);
@@ -453,113 +749,156 @@ const App: React.FC = () => {
     } finally {
         setIsLoading(false);
     }
-  }, [currentImage, addImageToHistory, currentImageIndex]);
+  }, [currentImage, runAiEdit]);
+
+  const handleTransformLayer = useCallback((id: string, transform: Partial<LayerTransform>) => {
+    setComposeLayers(prev => prev.map(layer => layer.id === id ? { ...layer, ...transform } : layer));
+  }, []);
 
-  const handleApplyCompose = useCallback(async (complementImage: File, userPrompt: string) => {
+  const handleHarmonizeLayer = useCallback(async (id: string) => {
     if (!currentImage) return;
     setIsLoading(true);
     setError(null);
+    setGlobalLoadingMessage('Harmonizing lighting...');
     try {
-        const composedImageUrl = await generateComposedImage(currentImage, complementImage, userPrompt, editHotspot);
-        const newImageFile = dataURLtoFile(composedImageUrl, `composed-${Date.now()}.png`);
-        addImageToHistory(newImageFile, currentImageIndex);
-        setEditHotspot(null);
-        setDisplayHotspot(null);
+      const image = await harmonizeLayer(currentImage, composeLayers, id);
+      setComposeLayers(prev => prev.map(layer => layer.id === id && layer.type === 'image' ? { ...layer, image } : layer));
     } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-        setError(`Failed to compose the images. ${errorMessage}`);
-        console.error(err);
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError(`Failed to harmonize the layer. ${errorMessage}`);
+      console.error(err);
     } finally {
-        setIsLoading(false);
+      setIsLoading(false);
+      setGlobalLoadingMessage(null);
     }
-  }, [currentImage, addImageToHistory, currentImageIndex, editHotspot]);
+  }, [currentImage, composeLayers]);
 
-  const handleApplyCrop = useCallback(() => {
-    if (!completedCrop || !imgRef.current) {
-        setError('Please select an area to crop.');
-        return;
+  const handleMergeLayerWithAi = useCallback(async (id: string, userPrompt: string) => {
+    const layer = composeLayers.find(l => l.id === id);
+    if (!currentImage || layer?.type !== 'image') return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const hotspot = { x: Math.round(layer.x), y: Math.round(layer.y) };
+      const complementImage = layer.image instanceof File ? layer.image : new File([layer.image], `${layer.name}.png`, { type: layer.image.type });
+      await runAiEdit(file => generateComposedImage(file, complementImage, userPrompt, hotspot), { type: 'compose', prompt: userPrompt, params: { hotspot, complementImage: layer.name }, model: getActiveModel() }, 'composed');
+      setComposeLayers(prev => prev.filter(l => l.id !== id));
+      setSelectedLayerId(null);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError(`Failed to compose the images. ${errorMessage}`);
+      console.error(err);
+    } finally {
+      setIsLoading(false);
     }
+  }, [currentImage, composeLayers, runAiEdit]);
 
-    const image = imgRef.current;
-    const canvas = document.createElement('canvas');
-    const scaleX = image.naturalWidth / image.width;
-    const scaleY = image.naturalHeight / image.height;
-    
-    canvas.width = completedCrop.width;
-    canvas.height = completedCrop.height;
-    const ctx = canvas.getContext('2d');
+  const handleFlattenLayers = useCallback(async () => {
+    if (!currentImage) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const startedAt = performance.now();
+      const flattenedUrl = await flattenLayers(currentImage, composeLayers);
+      const newImageFile = await dataURLtoFile(flattenedUrl, `composed-${Date.now()}.png`);
+      addImageToHistory(newImageFile, currentImageIndex, { type: 'compose', params: { layers: describeLayers(composeLayers) }, durationMs: performance.now() - startedAt });
+      setComposeLayers([]);
+      setSelectedLayerId(null);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError(`Failed to flatten the layers. ${errorMessage}`);
+      console.error(err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentImage, composeLayers, addImageToHistory, currentImageIndex]);
+
+  const cropRect: CropRect | null = crop && imageDimensions && crop.width > 0 && crop.height > 0
+    ? percentToRect(crop, imageDimensions.width, imageDimensions.height)
+    : null;
+
+  const handleSetCropAspect = useCallback((value: number | undefined) => {
+    setAspect(value);
+    // Start from the largest centered selection of the new ratio instead of leaving the old one
+    if (value && imageDimensions) {
+        const { width, height } = imageDimensions;
+        setCrop(rectToPercent(getCenteredCrop(value, width, height), width, height));
+    }
+  }, [imageDimensions]);
+
+  const handleCropRectChange = useCallback((rect: CropRect | null) => {
+    if (!imageDimensions) return;
+    setCrop(rect ? rectToPercent(rect, imageDimensions.width, imageDimensions.height) : undefined);
+  }, [imageDimensions]);
 
-    if (!ctx) {
-        setError('Could not process the crop.');
+  const handleApplyCrop = useCallback(async () => {
+    if (!currentImage || !cropRect) {
+        setError('Please select an area to crop.');
         return;
     }
 
-    const pixelRatio = window.devicePixelRatio || 1;
-    canvas.width = completedCrop.width * pixelRatio;
-    canvas.height = completedCrop.height * pixelRatio;
-    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
-    ctx.imageSmoothingQuality = 'high';
-
-    ctx.drawImage(
-      image,
-      completedCrop.x * scaleX,
-      completedCrop.y * scaleY,
-      completedCrop.width * scaleX,
-      completedCrop.height * scaleY,
-      0,
-      0,
-      completedCrop.width,
-      completedCrop.height,
-    );
-    
-    const croppedImageUrl = canvas.toDataURL('image/png');
-    const newImageFile = dataURLtoFile(croppedImageUrl, `cropped-${Date.now()}.png`);
-    addImageToHistory(newImageFile, currentImageIndex);
-
-  }, [completedCrop, addImageToHistory, currentImageIndex]);
+    setIsLoading(true);
+    setError(null);
+    try {
+      const startedAt = performance.now();
+      const croppedImageUrl = await cropImage(currentImage, cropRect);
+      const newImageFile = await dataURLtoFile(croppedImageUrl, `cropped-${Date.now()}.png`);
+      addImageToHistory(newImageFile, currentImageIndex, { type: 'crop', params: { ...cropRect }, durationMs: performance.now() - startedAt });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError(`Failed to crop the image. ${errorMessage}`);
+      console.error(err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentImage, cropRect, addImageToHistory, currentImageIndex]);
 
-  const handleApplyResize = useCallback(async (newWidth: number, newHeight: number) => {
+  const handleApplyTransform = useCallback(async (transform: ImageTransform) => {
     if (!currentImage) return;
     setIsLoading(true);
     setError(null);
     try {
-      const imageUrl = URL.createObjectURL(currentImage);
-      const image = new Image();
-      image.src = imageUrl;
-      await new Promise((resolve, reject) => {
-        image.onload = resolve;
-        image.onerror = reject;
-      });
+      const startedAt = performance.now();
+      const transformedUrl = await applyTransform(currentImage, transform);
+      const newImageFile = await dataURLtoFile(transformedUrl, `${transform.type}-${Date.now()}.png`);
+      addImageToHistory(newImageFile, currentImageIndex, { type: 'transform', params: transform, durationMs: performance.now() - startedAt });
+      setStraightenAngle(0);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError(`Failed to transform the image. ${errorMessage}`);
+      console.error(err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentImage, addImageToHistory, currentImageIndex]);
 
-      const canvas = document.createElement('canvas');
-      canvas.width = newWidth;
-      canvas.height = newHeight;
-      const ctx = canvas.getContext('2d');
-      if (!ctx) throw new Error('Could not get canvas context');
-      
-      ctx.drawImage(image, 0, 0, newWidth, newHeight);
-      URL.revokeObjectURL(imageUrl);
-      
-      const resizedDataUrl = canvas.toDataURL('image/png');
-      const newImageFile = dataURLtoFile(resizedDataUrl, `resized-${Date.now()}.png`);
-      addImageToHistory(newImageFile, currentImageIndex);
+  const handleApplyResize = useCallback(async (newWidth: number, newHeight: number, method: ResampleMethod) => {
+    if (!currentImage) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const startedAt = performance.now();
+      const resizedDataUrl = await resampleImage(currentImage, newWidth, newHeight, method,
+          fraction => setGlobalLoadingMessage(`Resampling... ${Math.round(fraction * 100)}%`));
+      const newImageFile = await dataURLtoFile(resizedDataUrl, `resized-${Date.now()}.png`);
+      addImageToHistory(newImageFile, currentImageIndex, { type: 'resize', params: { width: newWidth, height: newHeight, method }, durationMs: performance.now() - startedAt });
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
       setError(`Failed to resize image. ${errorMessage}`);
       console.error(err);
     } finally {
       setIsLoading(false);
+      setGlobalLoadingMessage(null);
     }
   }, [currentImage, addImageToHistory, currentImageIndex]);
 
-  const handleApplyExpand = useCallback(async (newWidth: number, newHeight: number, prompt: string) => {
+  const handleApplyExpand = useCallback(async (newWidth: number, newHeight: number, prompt: string, offset: ExpandOffset, anchor?: ExpandAnchor) => {
     if (!currentImage) return;
     setIsLoading(true);
     setError(null);
     try {
-      const expandedImageUrl = await generateExpandedImage(currentImage, newWidth, newHeight, prompt);
-      const newImageFile = dataURLtoFile(expandedImageUrl, `expanded-${Date.now()}.png`);
-      addImageToHistory(newImageFile, currentImageIndex);
+      const params = { width: newWidth, height: newHeight, x: offset.x, y: offset.y, ...(anchor && { anchor }) };
+      await runAiEdit(file => generateExpandedImage(file, newWidth, newHeight, prompt, offset), { type: 'expand', prompt, params, model: getActiveModel() }, 'expanded');
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
       setError(`Failed to expand the image. ${errorMessage}`);
@@ -567,29 +906,142 @@ const App: React.FC = () => {
     } finally {
       setIsLoading(false);
     }
-  }, [currentImage, addImageToHistory, currentImageIndex]);
+  }, [currentImage, runAiEdit]);
 
   const handleApplyUpscale = useCallback(async (scaleFactor: number) => {
     if (!currentImage) return;
     setIsLoading(true);
     setError(null);
     try {
-      const upscaledImageUrl = await generateUpscaledImage(currentImage, scaleFactor);
-      const newImageFile = dataURLtoFile(upscaledImageUrl, `upscaled-${Date.now()}.png`);
-      addImageToHistory(newImageFile, currentImageIndex);
+      await runAiEdit(file => generateUpscaledImage(file, scaleFactor, (tile, total) => {
+          if (total > 1) setGlobalLoadingMessage(`Upscaling tile ${tile} of ${total}...`);
+      }), { type: 'upscale', params: { scaleFactor }, model: getActiveModel() }, 'upscaled');
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
       setError(`Failed to upscale the image. ${errorMessage}`);
       console.error(err);
     } finally {
       setIsLoading(false);
+      setGlobalLoadingMessage(null);
+    }
+  }, [currentImage, runAiEdit]);
+
+  const handleDetectSubject = useCallback(async () => {
+    if (!currentEntry) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      setGlobalLoadingMessage('Finding the subject...');
+      const mask = await generateSubjectMask(currentEntry.file);
+      setGlobalLoadingMessage('Refining edges...');
+      const radius = currentSubject?.radius ?? DEFAULT_EDGE_RADIUS;
+      const matte = await refineSubjectMatte(currentEntry.file, mask, radius);
+      setSubject({ entryId: currentEntry.id, mask, matte, cutout: await createCutout(currentEntry.file, matte), radius });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError(`Failed to detect the subject. ${errorMessage}`);
+      console.error(err);
+    } finally {
+      setIsLoading(false);
+      setGlobalLoadingMessage(null);
+    }
+  }, [currentEntry, currentSubject]);
+
+  const handleRefineEdges = useCallback(async (radius: number) => {
+    if (!currentEntry || !currentSubject) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const matte = await refineSubjectMatte(currentEntry.file, currentSubject.mask, radius);
+      setSubject({ ...currentSubject, matte, cutout: await createCutout(currentEntry.file, matte), radius });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError(`Failed to refine the edges. ${errorMessage}`);
+      console.error(err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentEntry, currentSubject]);
+
+  const handleApplyBackground = useCallback(async (choice: BackgroundChoice) => {
+    if (!currentImage || !currentSubject) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const { matte, radius } = currentSubject;
+      const params = { ...describeBackgroundChoice(choice), edgeRadius: radius };
+      if (choice.type === 'scene') {
+        // Generated scenes differ every time, so they go through variations like other AI edits
+        await runAiEdit(file => replaceBackground(file, matte, choice), { type: 'background', prompt: choice.prompt, params, model: getActiveModel() }, 'background');
+      } else {
+        const startedAt = performance.now();
+        const resultUrl = await replaceBackground(currentImage, matte, choice);
+        const newImageFile = await dataURLtoFile(resultUrl, `background-${Date.now()}.png`);
+        addImageToHistory(newImageFile, currentImageIndex, { type: 'background', params, durationMs: performance.now() - startedAt });
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError(`Failed to replace the background. ${errorMessage}`);
+      console.error(err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentImage, currentSubject, runAiEdit, addImageToHistory, currentImageIndex]);
+
+  // Downloads the cutout as it is previewed, without adding it to history
+  const handleExportCutout = useCallback(async (format: 'png' | 'webp') => {
+    if (!currentImageState || !currentSubject) return;
+    setError(null);
+    try {
+      // Always full size with its own name; the download dialog's size limit and file name are for edited images
+      const options: ExportOptions = { ...DEFAULT_EXPORT_OPTIONS, format, maxDimension: null, filenameTemplate: '{name}-cutout' };
+      const cutout = await dataURLtoFile(currentSubject.cutout, 'cutout.png');
+      const { blob, width, height } = await renderExport(cutout, options);
+      downloadBlob(blob, buildFilename(options.filenameTemplate, { name: currentImageState.name, index: currentImageIndex + 1, width, height }, format));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError(`Failed to export the cutout. ${errorMessage}`);
+      console.error(err);
+    }
+  }, [currentImageState, currentSubject, currentImageIndex]);
+
+  const handleRunRecipe = useCallback(async (recipe: Recipe) => {
+    if (!currentImage) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const startedAt = performance.now();
+      const resultUrl = await runRecipe(currentImage, recipe.steps, index => {
+          setGlobalLoadingMessage(`${recipe.name}: step ${index + 1} of ${recipe.steps.length}...`);
+      });
+      const newImageFile = await dataURLtoFile(resultUrl, `recipe-${Date.now()}.png`);
+      addImageToHistory(newImageFile, currentImageIndex, {
+          type: 'recipe',
+          params: { name: recipe.name, steps: recipe.steps },
+          model: recipeUsesModel(recipe.steps) ? getActiveModel() : undefined,
+          durationMs: performance.now() - startedAt,
+      });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError(`Failed to run the recipe. ${errorMessage}`);
+      console.error(err);
+    } finally {
+      setIsLoading(false);
+      setGlobalLoadingMessage(null);
     }
   }, [currentImage, addImageToHistory, currentImageIndex]);
 
+  const handleRunRecipeOnAll = useCallback(async (recipe: Recipe) => {
+    await runBatch(imageList.map(img => img.id), () => ({
+        serviceFn: file => runRecipe(file, recipe.steps),
+        operation: { type: 'recipe', params: { name: recipe.name, steps: recipe.steps }, model: recipeUsesModel(recipe.steps) ? getActiveModel() : undefined },
+    }), recipeUsesModel(recipe.steps) ? undefined : { ratePerMinute: 0 });
+  }, [imageList, runBatch]);
+
   const handleUndo = useCallback(() => {
     if (canUndo) {
         setImageList(prev => prev.map((img, idx) => 
-            idx === currentImageIndex ? { ...img, historyIndex: img.historyIndex - 1 } : img
+            idx === currentImageIndex ? undoEntry(img) : img
         ));
         onEditComplete();
     }
@@ -598,46 +1050,97 @@ const App: React.FC = () => {
   const handleRedo = useCallback(() => {
     if (canRedo) {
         setImageList(prev => prev.map((img, idx) => 
-            idx === currentImageIndex ? { ...img, historyIndex: img.historyIndex + 1 } : img
+            idx === currentImageIndex ? redoEntry(img) : img
         ));
         onEditComplete();
     }
   }, [canRedo, currentImageIndex, onEditComplete]);
 
+  const handleJumpToHistory = useCallback((entryId: string) => {
+    setImageList(prev => prev.map((img, idx) =>
+        idx === currentImageIndex ? jumpToEntry(img, entryId) : img
+    ));
+    onEditComplete();
+  }, [currentImageIndex, onEditComplete]);
+
+  const handleUpdateMetadata = useCallback((metadata: ImageMetadata | null) => {
+    setImageList(prev => prev.map((img, idx) => idx === currentImageIndex ? { ...img, metadata } : img));
+  }, [currentImageIndex]);
+
+  const handleApplyRightsToAll = useCallback((rights: Pick<ImageMetadata, 'author' | 'copyright'>) => {
+    setImageList(prev => prev.map(img => {
+      const metadata: ImageMetadata = { ...img.metadata };
+      if (rights.author) metadata.author = rights.author;
+      if (rights.copyright) metadata.copyright = rights.copyright;
+      return { ...img, metadata };
+    }));
+  }, []);
+
+  const handleLabelHistoryEntry = useCallback((entryId: string, label: string) => {
+    setImageList(prev => prev.map((img, idx) => {
+        if (idx !== currentImageIndex) return img;
+        const history = img.history.map(entry => entry.id === entryId ? { ...entry, label: label || undefined } : entry);
+        return { ...img, history };
+    }));
+  }, [currentImageIndex]);
+
   const handleReset = useCallback(() => {
     if (currentImageState && currentImageState.history.length > 0) {
         setImageList(prev => prev.map((img, idx) => 
-            idx === currentImageIndex ? { ...img, historyIndex: 0 } : img
+            idx === currentImageIndex ? jumpToEntry(img, img.history[0].id) : img
         ));
         setError(null);
         onEditComplete();
     }
   }, [currentImageState, currentImageIndex, onEditComplete]);
 
-  const handleDownload = useCallback(async () => {
-    if (!currentImage) return;
+  const handleDownload = useCallback(async (options: ExportOptions) => {
+    if (!currentImage || !currentImageState) return;
+    setDownloadScope(null);
 
     try {
-      const link = document.createElement('a');
-      link.href = URL.createObjectURL(currentImage);
-      
-      const originalName = currentImage.name.replace(/\.[^/.]+$/, "") || 'download';
-      link.download = `${originalName}-pixshop-edited.png`;
-      
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(link.href);
-        
+      const { blob, width, height } = await renderExport(currentImage, options, currentImageState.metadata);
+      downloadBlob(blob, buildFilename(options.filenameTemplate, { name: currentImageState.name, index: currentImageIndex + 1, width, height }, options.format));
     } catch (err) {
         const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
         setError(`Failed to process image for download. ${errorMessage}`);
         console.error(err);
     }
-  }, [currentImage]);
+  }, [currentImage, currentImageState, currentImageIndex]);
+
+  const handleSaveProject = useCallback(async () => {
+    if (imageList.length === 0) return;
+
+    setIsLoading(true);
+    setGlobalLoadingMessage('Packing project...');
+    setError(null);
+
+    try {
+      const content = await exportProject(
+        {
+          images: imageList.map(({ id, name, history, currentEntryId, headEntryId, metadata }) => ({ id, name, history, currentEntryId, headEntryId, metadata })),
+          currentImageIndex,
+          activeTab,
+        },
+        fraction => setGlobalLoadingMessage(`Packing project... ${Math.round(fraction * 100)}%`)
+      );
 
-  const handleDownloadAll = useCallback(async () => {
+      const baseName = imageList.length === 1 ? imageList[0].name.replace(/\.[^/.]+$/, "") || 'pixshop-project' : 'pixshop-project';
+      downloadBlob(content, `${baseName}${PROJECT_EXTENSION}`);
+
+    } catch(err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError(`Failed to save the project. ${errorMessage}`);
+      console.error(err);
+    } finally {
+      setIsLoading(false);
+      setGlobalLoadingMessage(null);
+    }
+  }, [imageList, currentImageIndex, activeTab]);
+
+  const handleDownloadAll = useCallback(async (options: ExportOptions) => {
     if (imageList.length <= 1) return;
+    setDownloadScope(null);
 
     setIsLoading(true);
     setGlobalLoadingMessage("Preparing zip file...");
@@ -645,24 +1148,21 @@ const App: React.FC = () => {
 
     try {
       const zip = new JSZip();
+      const usedNames = new Set<string>();
       for (let i = 0; i < imageList.length; i++) {
         const imageState = imageList[i];
-        const currentVersion = imageState.history[imageState.historyIndex];
-        const originalName = currentVersion.name.replace(/\.[^/.]+$/, "") || `image-${i}`;
-        const fileName = `${originalName}-pixshop-edited.png`;
-        setGlobalLoadingMessage(`Zipping ${i+1} of ${imageList.length}: ${fileName}`);
-        zip.file(fileName, currentVersion);
+        setGlobalLoadingMessage(`Encoding ${i + 1} of ${imageList.length}: ${imageState.name}`);
+        const { blob, width, height } = await renderExport(getCurrentEntry(imageState).file, options, imageState.metadata);
+        let fileName = buildFilename(options.filenameTemplate, { name: imageState.name, index: i + 1, width, height }, options.format);
+        // Templates without {index} can produce the same name twice; keep every file
+        if (usedNames.has(fileName)) fileName = fileName.replace(/(\.[^.]+)$/, `-${i + 1}$1`);
+        usedNames.add(fileName);
+        zip.file(fileName, blob);
       }
       
+      setGlobalLoadingMessage("Preparing zip file...");
       const content = await zip.generateAsync({ type: "blob" });
-      
-      const link = document.createElement('a');
-      link.href = URL.createObjectURL(content);
-      link.download = "pixshop-edited-images.zip";
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(link.href);
+      downloadBlob(content, "pixshop-edited-images.zip");
 
     } catch(err) {
       const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
@@ -680,9 +1180,10 @@ const App: React.FC = () => {
   };
 
   const handleSetActiveTab = (tab: Tab) => {
-    if (tab === 'crop' || tab === 'resize') {
+    if (tab === 'crop' || tab === 'resize' || tab === 'transform') {
         resetView();
     }
+    setStraightenAngle(0);
     setActiveTab(tab);
   };
   
@@ -784,75 +1285,8 @@ const App: React.FC = () => {
         return;
     }
     
-    if (interactionMode === 'select' && (activeTab === 'retouch' || activeTab === 'compose')) {
-        const img = imgRef.current;
-        const imageContainer = imageContainerRef.current;
-        if (!img || !imageContainer) return;
-
-        // --- Calculate AI Hotspot (relative to original image file) ---
-
-        // 1. Get the real on-screen position and size of the <img> element.
-        //    getBoundingClientRect() correctly accounts for all CSS transforms (scale, translate).
-        const imgRect = img.getBoundingClientRect();
-        const { width: renderedWidth, height: renderedHeight } = imgRect;
-        if (renderedWidth === 0 || renderedHeight === 0) return;
-
-        // 2. Get click position relative to the on-screen <img> element.
-        const clickXInImgTag = e.clientX - imgRect.left;
-        const clickYInImgTag = e.clientY - imgRect.top;
-
-        // 3. Account for letterboxing within the <img> element due to 'object-contain'.
-        const { naturalWidth, naturalHeight } = img;
-        const naturalAspectRatio = naturalWidth / naturalHeight;
-        const renderedAspectRatio = renderedWidth / renderedHeight;
-
-        let visibleImageWidth, visibleImageHeight, offsetX, offsetY;
-        if (naturalAspectRatio > renderedAspectRatio) { // Wider than container -> letterbox top/bottom
-            visibleImageWidth = renderedWidth;
-            visibleImageHeight = renderedWidth / naturalAspectRatio;
-            offsetX = 0;
-            offsetY = (renderedHeight - visibleImageHeight) / 2;
-        } else { // Taller than container -> letterbox left/right
-            visibleImageHeight = renderedHeight;
-            visibleImageWidth = renderedHeight * naturalAspectRatio;
-            offsetX = (renderedWidth - visibleImageWidth) / 2;
-            offsetY = 0;
-        }
-
-        // 4. Find click position relative to the actual visible image content.
-        const clickXOnVisible = clickXInImgTag - offsetX;
-        const clickYOnVisible = clickYInImgTag - offsetY;
-
-        // 5. Check if the click was outside the visible image (in the letterbox area).
-        if (clickXOnVisible < 0 || clickXOnVisible > visibleImageWidth || clickYOnVisible < 0 || clickYOnVisible > visibleImageHeight) {
-            return; 
-        }
-
-        // 6. Convert the click on the visible (and scaled) image back to the original image's coordinates.
-        const scaleFactorFromNaturalToVisible = visibleImageWidth / naturalWidth;
-        const originalX = Math.round(clickXOnVisible / scaleFactorFromNaturalToVisible);
-        const originalY = Math.round(clickYOnVisible / scaleFactorFromNaturalToVisible);
-        
-        setEditHotspot({ x: originalX, y: originalY });
-
-        // --- Calculate Display Hotspot (for the blue dot UI) ---
-
-        // 1. Get the on-screen position of the container that holds the image and the hotspot dot.
-        const containerRect = imageContainer.getBoundingClientRect();
-
-        // 2. Get click position relative to this container.
-        const clickXInContainer = e.clientX - containerRect.left;
-        const clickYInContainer = e.clientY - containerRect.top;
-        
-        // 3. The container is scaled by the 'scale' state. To position the dot inside the
-        //    unscaled container, we reverse the scaling effect on the click coordinates.
-        const displayX = clickXInContainer / scale;
-        const displayY = clickYInContainer / scale;
-
-        setDisplayHotspot({ x: displayX, y: displayY });
-
-        return; // This was a hotspot click, not a pan.
-    }
+    // In select mode the mask canvas and the layer handles take their own pointer input.
+    if (interactionMode === 'select' && (activeTab === 'retouch' || activeTab === 'compose')) return;
 
     if (activeTab !== 'crop' && activeTab !== 'resize') {
         isPanning.current = true;
@@ -894,11 +1328,25 @@ const App: React.FC = () => {
   const getCursor = () => {
       if (activeTab === 'crop' || activeTab === 'resize') return 'default';
       if (isComparing) return 'ew-resize';
-      if (interactionMode === 'select' && (activeTab === 'retouch' || activeTab === 'compose')) return 'crosshair';
+      if (interactionMode === 'select' && activeTab === 'retouch') return 'crosshair';
+      if (interactionMode === 'select' && activeTab === 'compose') return 'default';
       if (isGrabbing) return 'grabbing';
       return 'grab';
   };
 
+  // Position of the current image's visible content inside the container, which is sized by the original image.
+  const getContentBoxStyle = (): React.CSSProperties => {
+    if (!imageDimensions || !originalDimensions) return { left: 0, top: 0, width: '100%', height: '100%' };
+    const containerAspect = originalDimensions.width / originalDimensions.height;
+    const contentAspect = imageDimensions.width / imageDimensions.height;
+    if (contentAspect > containerAspect) {
+        const heightPercent = (containerAspect / contentAspect) * 100;
+        return { left: 0, width: '100%', top: `${(100 - heightPercent) / 2}%`, height: `${heightPercent}%` };
+    }
+    const widthPercent = (contentAspect / containerAspect) * 100;
+    return { top: 0, height: '100%', left: `${(100 - widthPercent) / 2}%`, width: `${widthPercent}%` };
+  };
+
   const renderEditor = () => {
     // This handler now safely revokes the old blob URL after the new one is loaded.
     const onImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
@@ -921,41 +1369,70 @@ const App: React.FC = () => {
               <Header />
               
               <nav aria-label="Editing Tools">
-                <div role="tablist" className="w-full bg-gray-800/80 border border-gray-700/80 rounded-lg p-2 grid grid-cols-2 gap-2 backdrop-blur-sm">
-                    {(['retouch', 'compose', 'crop', 'resize', 'adjust', 'filters', 'advanced'] as Tab[]).map(tab => (
+                <div role="tablist" className="w-full bg-gray-800/80 border border-gray-700/80 rounded-lg p-2 grid grid-cols-3 gap-2 backdrop-blur-sm">
+                    {(['retouch', 'compose', 'crop', 'transform', 'resize', 'background', 'adjust', 'filters', 'advanced', 'recipes', 'history', 'metadata'] as Tab[]).map(tab => (
                          <button
                             key={tab}
                             onClick={() => handleSetActiveTab(tab)}
                             role="tab"
                             aria-selected={activeTab === tab}
                             aria-controls="panel-content"
-                            className={`w-full capitalize font-semibold py-4 px-5 rounded-md transition-all duration-200 text-base ${
+                            className={`w-full capitalize font-semibold py-3 px-3 rounded-md transition-all duration-200 text-base ${
                                 activeTab === tab 
                                 ? 'bg-gradient-to-br from-blue-500 to-cyan-400 text-white shadow-lg shadow-cyan-500/40' 
                                 : 'text-gray-300 hover:text-white hover:bg-white/10'
-                            } ${tab === 'advanced' ? 'col-span-2' : ''}`}
+                            }`}
                         >
                             {tab}
                         </button>
                     ))}
                 </div>
               </nav>
+
+              {(['retouch', 'compose', 'resize', 'background', 'adjust', 'filters'] as Tab[]).includes(activeTab) && (
+                  <div className="flex items-center justify-between gap-3 text-sm">
+                      <span className="text-gray-400" title="Generate several candidates in parallel and pick the best before it goes into history">
+                          AI variations per edit
+                      </span>
+                      <div className="p-1 bg-gray-800/80 border border-gray-700/80 rounded-lg flex gap-1">
+                          {Array.from({ length: MAX_VARIATIONS }, (_, i) => i + 1).map(count => (
+                              <button
+                                  key={count}
+                                  onClick={() => setVariationCount(count)}
+                                  disabled={isLoading}
+                                  aria-pressed={variationCount === count}
+                                  className={`w-9 py-1 rounded-md font-semibold transition-all duration-200 disabled:opacity-50 ${variationCount === count ? 'bg-blue-600 text-white shadow' : 'text-gray-300 hover:bg-white/10'}`}
+                              >
+                                  {count}
+                              </button>
+                          ))}
+                      </div>
+                  </div>
+              )}
               
               <div id="panel-content" role="tabpanel" className="flex-grow min-h-0 overflow-y-auto">
                   {activeTab === 'retouch' && (
                       <div className="flex flex-col items-center gap-5">
                           <p className="text-base text-gray-300">
                             {imageList.length > 1
-                                ? 'For a precise edit, click an image area. For a broad change, just type and apply to all.'
-                                : (editHotspot ? 'Great! Now describe your localized edit below.' : 'Click an area on the image to make a precise edit.')
+                                ? 'For a precise edit, paint over an image area. For a broad change, just type and apply to all.'
+                                : (hasMask ? 'Great! Now describe your localized edit below.' : 'Paint over the area of the image you want to change.')
                             }
                           </p>
-                          {editHotspot && !isLoading && (
-                            <div className="w-full text-center p-2 bg-gray-900/50 rounded-lg animate-fade-in border border-gray-700/80">
-                                <span className="text-sm font-medium text-gray-300">Target Coordinates: </span>
-                                <span className="text-sm font-mono text-blue-300">{editHotspot.x}, {editHotspot.y}</span>
-                            </div>
-                          )}
+                          <ToolOptions
+                              tool={maskTool}
+                              onToolChange={setMaskTool}
+                              mode={maskMode}
+                              onModeChange={setMaskMode}
+                              brushSize={brushSize}
+                              onBrushSizeChange={setBrushSize}
+                              feather={maskFeather}
+                              onFeatherChange={setMaskFeather}
+                              hasMask={hasMask}
+                              onClearMask={() => maskCanvasRef.current?.clear()}
+                              onInvertMask={() => maskCanvasRef.current?.invert()}
+                              isLoading={isLoading}
+                          />
                           <div className="w-full flex flex-col items-center gap-4">
                               <input
                                   type="text"
@@ -964,7 +1441,7 @@ const App: React.FC = () => {
                                   placeholder={
                                     imageList.length > 1 
                                       ? "e.g., 'remove skin blemishes'"
-                                      : (editHotspot ? "e.g., 'change shirt to blue'" : "First click a point")
+                                      : (hasMask ? "e.g., 'change shirt to blue'" : "First paint a mask")
                                   }
                                   className="flex-grow bg-gray-800 border border-gray-700 text-gray-200 rounded-lg p-4 text-base focus:ring-2 focus:ring-blue-500 focus:outline-none transition w-full disabled:cursor-not-allowed disabled:opacity-60"
                                   disabled={isLoading}
@@ -973,7 +1450,7 @@ const App: React.FC = () => {
                                   <button 
                                       onClick={handleGenerate}
                                       className="w-full bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-4 px-6 text-base rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
-                                      disabled={isLoading || !prompt.trim() || !editHotspot}
+                                      disabled={isLoading || !prompt.trim() || !hasMask}
                                   >
                                       Apply to Current
                                   </button>
@@ -991,8 +1468,44 @@ const App: React.FC = () => {
                           </div>
                       </div>
                   )}
-                  {activeTab === 'compose' && <ComposePanel onApplyCompose={handleApplyCompose} isLoading={isLoading} hotspot={editHotspot} />}
-                  {activeTab === 'crop' && <CropPanel onApplyCrop={handleApplyCrop} onSetAspect={setAspect} isLoading={isLoading} isCropping={!!completedCrop?.width && completedCrop.width > 0} />}
+                  {activeTab === 'compose' && imageDimensions && (
+                      <ComposePanel
+                          layers={composeLayers}
+                          onLayersChange={setComposeLayers}
+                          selectedLayerId={selectedLayerId}
+                          onSelectLayer={setSelectedLayerId}
+                          imageWidth={imageDimensions.width}
+                          imageHeight={imageDimensions.height}
+                          onHarmonizeLayer={handleHarmonizeLayer}
+                          onMergeLayerWithAi={handleMergeLayerWithAi}
+                          onFlattenLayers={handleFlattenLayers}
+                          isLoading={isLoading}
+                      />
+                  )}
+                  {activeTab === 'crop' && imageDimensions && (
+                      <CropPanel
+                          onApplyCrop={handleApplyCrop}
+                          aspect={aspect}
+                          onSetAspect={handleSetCropAspect}
+                          cropRect={cropRect}
+                          onCropRectChange={handleCropRectChange}
+                          guide={cropGuide}
+                          onGuideChange={setCropGuide}
+                          imageWidth={imageDimensions.width}
+                          imageHeight={imageDimensions.height}
+                          isLoading={isLoading}
+                      />
+                  )}
+                  {activeTab === 'transform' && imageDimensions && (
+                      <TransformPanel
+                          onApplyTransform={handleApplyTransform}
+                          straightenAngle={straightenAngle}
+                          onStraightenAngleChange={setStraightenAngle}
+                          imageWidth={imageDimensions.width}
+                          imageHeight={imageDimensions.height}
+                          isLoading={isLoading}
+                      />
+                  )}
                   {activeTab === 'resize' && imageDimensions && (
                       <ResizePanel 
                           imageWidth={imageDimensions.width}
@@ -1003,12 +1516,83 @@ const App: React.FC = () => {
                           isLoading={isLoading}
                       />
                   )}
-                  {activeTab === 'adjust' && <AdjustmentPanel onApplyAdjustment={handleApplyAdjustment} onApplyToAll={(p) => handleApplyToAll(p, 'adjustment')} isLoading={isLoading} batchMode={imageList.length > 1} />}
-                  {activeTab === 'filters' && <FilterPanel onApplyFilter={handleApplyFilter} onApplyToAll={(p) => handleApplyToAll(p, 'filter')} isLoading={isLoading} batchMode={imageList.length > 1} />}
-                  {activeTab === 'advanced' && <AdvancedPanel onApplyAdjustment={handleApplyAdjustment} onApplyToAll={(p) => handleApplyToAll(p, 'adjustment')} isLoading={isLoading} batchMode={imageList.length > 1}/>}
+                  {activeTab === 'background' && (
+                      <BackgroundPanel
+                          cutoutUrl={currentSubject?.cutout ?? null}
+                          edgeRadius={currentSubject?.radius ?? DEFAULT_EDGE_RADIUS}
+                          onDetectSubject={handleDetectSubject}
+                          onRefineEdges={handleRefineEdges}
+                          onApplyBackground={handleApplyBackground}
+                          onExportCutout={handleExportCutout}
+                          isLoading={isLoading}
+                      />
+                  )}
+                  {activeTab === 'adjust' && (
+                      <AdjustmentPanel
+                          onApplyAdjustment={handleApplyAdjustment}
+                          onApplyToAll={(p) => handleApplyToAll(p, 'adjustment')}
+                          onPreviewPixelAdjustment={setPreviewAdjustment}
+                          onApplyPixelAdjustment={handleApplyPixelAdjustment}
+                          onApplyPixelAdjustmentToAll={handleApplyPixelAdjustmentToAll}
+                          isLoading={isLoading}
+                          batchMode={imageList.length > 1}
+                          currentImage={currentImage}
+                      />
+                  )}
+                  {activeTab === 'filters' && <FilterPanel onApplyFilter={handleApplyFilter} onApplyToAll={(p) => handleApplyToAll(p, 'filter')} isLoading={isLoading} batchMode={imageList.length > 1} currentImage={currentImage} />}
+                  {activeTab === 'advanced' && (
+                      <AdvancedPanel
+                          histogram={imageAnalysis?.histogram ?? null}
+                          onPreviewAdjustment={setPreviewAdjustment}
+                          onApplyAdjustment={handleApplyPixelAdjustment}
+                          onApplyToAll={handleApplyPixelAdjustmentToAll}
+                          isLoading={isLoading}
+                          batchMode={imageList.length > 1}
+                      />
+                  )}
+                  {activeTab === 'recipes' && (
+                      <RecipePanel
+                          image={currentImageState}
+                          onRunRecipe={handleRunRecipe}
+                          onRunRecipeOnAll={handleRunRecipeOnAll}
+                          isLoading={isLoading}
+                          batchMode={imageList.length > 1}
+                      />
+                  )}
+                  {activeTab === 'history' && currentImageState && (
+                      <HistoryPanel
+                          image={currentImageState}
+                          onJump={handleJumpToHistory}
+                          onLabel={handleLabelHistoryEntry}
+                          onCompare={setComparedEntryIds}
+                          isLoading={isLoading}
+                      />
+                  )}
+                  {activeTab === 'metadata' && currentImageState && (
+                      <MetadataPanel
+                          image={currentImageState}
+                          onChange={handleUpdateMetadata}
+                          onApplyRightsToAll={handleApplyRightsToAll}
+                          isLoading={isLoading}
+                          batchMode={imageList.length > 1}
+                      />
+                  )}
               </div>
 
               <div className="flex-shrink-0 pt-4 border-t border-gray-700/50 flex flex-col gap-3">
+                  {imageList.length > 1 && (
+                      <BatchPanel
+                          state={batchState}
+                          isRunning={isBatchRunning}
+                          settings={batchSettings}
+                          onSettingsChange={handleBatchSettingsChange}
+                          onPause={handlePauseBatch}
+                          onResume={handleResumeBatch}
+                          onCancel={handleCancelBatch}
+                          retryableCount={imageList.filter(img => img.error && batchJobSpecs.current.has(img.id)).length}
+                          onRetryFailed={handleRetryFailed}
+                      />
+                  )}
                   <div className="grid grid-cols-2 gap-3">
                     <button 
                         onClick={handleUndo}
@@ -1059,7 +1643,7 @@ const App: React.FC = () => {
                   
                   <div className="grid grid-cols-1 gap-3">
                     <button 
-                        onClick={handleDownload}
+                        onClick={() => setDownloadScope('current')}
                          disabled={isLoading}
                         className="flex items-center justify-center w-full bg-gradient-to-br from-green-600 to-green-500 text-white font-bold py-3 px-5 rounded-md transition-all duration-300 ease-in-out shadow-lg shadow-green-500/20 hover:shadow-xl hover:shadow-green-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-sm"
                     >
@@ -1068,7 +1652,7 @@ const App: React.FC = () => {
                     </button>
                     {imageList.length > 1 && (
                       <button 
-                          onClick={handleDownloadAll}
+                          onClick={() => setDownloadScope('all')}
                            disabled={isLoading}
                           className="flex items-center justify-center w-full bg-gradient-to-br from-teal-600 to-teal-500 text-white font-bold py-3 px-5 rounded-md transition-all duration-300 ease-in-out shadow-lg shadow-teal-500/20 hover:shadow-xl hover:shadow-teal-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-sm"
                       >
@@ -1076,6 +1660,15 @@ const App: React.FC = () => {
                           Download All
                       </button>
                     )}
+                    <button
+                        onClick={handleSaveProject}
+                        disabled={isLoading}
+                        className="flex items-center justify-center w-full bg-white/10 border border-white/20 text-gray-200 font-semibold py-3 px-5 rounded-md transition-all duration-200 ease-in-out hover:bg-white/20 hover:border-white/30 active:scale-95 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                        title="Save every image with its full history as a project file"
+                    >
+                        <LayersIcon className="w-5 h-5 mr-2" />
+                        Save Project
+                    </button>
                   </div>
               </div>
           </aside>
@@ -1112,12 +1705,23 @@ const App: React.FC = () => {
                       canCompare={canUndo}
                   />
                   
+                  {activeTab !== 'crop' && (
+                      <HistogramPanel
+                          histogram={imageAnalysis?.histogram ?? null}
+                          stats={imageAnalysis?.stats ?? null}
+                          showHighlightClipping={showHighlightClipping}
+                          onToggleHighlightClipping={() => setShowHighlightClipping(prev => !prev)}
+                          showShadowClipping={showShadowClipping}
+                          onToggleShadowClipping={() => setShowShadowClipping(prev => !prev)}
+                      />
+                  )}
+
                   {activeTab === 'crop' ? (
                     <ReactCrop 
                       crop={crop} 
-                      onChange={c => setCrop(c)} 
-                      onComplete={c => setCompletedCrop(c)}
+                      onChange={(_, percentCrop) => setCrop(percentCrop)}
                       aspect={aspect}
+                      renderSelectionAddon={() => <CropGuides guide={cropGuide} />}
                       className="flex items-center justify-center"
                     >
                       <img 
@@ -1146,6 +1750,7 @@ const App: React.FC = () => {
                                       key={`original-${currentImageState?.id}`}
                                       src={originalImageUrl}
                                       alt="Original"
+                                      onLoad={(e) => setOriginalDimensions({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
                                       style={{ 
                                         maxHeight: '80vh',
                                         // When not comparing, it's hidden but still sizes the container
@@ -1165,6 +1770,7 @@ const App: React.FC = () => {
                                     style={{
                                       clipPath: isComparing && canUndo ? `inset(0 ${100 - sliderPosition}% 0 0)` : 'none',
                                       maxHeight: '80vh',
+                                      transform: activeTab === 'transform' && straightenAngle !== 0 ? `rotate(${straightenAngle}deg)` : undefined,
                                     }}
                                     className={`absolute inset-0 w-full h-full object-contain pointer-events-none ${isAnimatingEdit ? 'animate-image-appear' : ''}`}
                                 />
@@ -1174,21 +1780,58 @@ const App: React.FC = () => {
                                  <ComparisonSlider position={sliderPosition} />
                               )}
 
-                              {displayHotspot && !isLoading && (activeTab === 'retouch' || activeTab === 'compose') && (
-                                  <div 
-                                      key={`${displayHotspot.x}-${displayHotspot.y}`}
-                                      className="absolute pointer-events-none -translate-x-1/2 -translate-y-1/2 z-10 flex items-center justify-center w-10 h-10"
-                                      style={{ left: `${displayHotspot.x}px`, top: `${displayHotspot.y}px` }}
+                              {(showHighlightClipping || showShadowClipping) && currentImage && !isComparing && !previewAdjustment && (
+                                  <div className="absolute pointer-events-none" style={getContentBoxStyle()}>
+                                      <ClippingOverlay file={currentImage} showHighlights={showHighlightClipping} showShadows={showShadowClipping} />
+                                  </div>
+                              )}
+
+                              {activeTab === 'transform' && imageDimensions && !isComparing && (
+                                  <div className="absolute pointer-events-none" style={getContentBoxStyle()}>
+                                      <StraightenOverlay angle={straightenAngle} imageWidth={imageDimensions.width} imageHeight={imageDimensions.height} />
+                                  </div>
+                              )}
+
+                              {previewAdjustment && currentImage && !isComparing && (
+                                  <div className="absolute pointer-events-none" style={getContentBoxStyle()}>
+                                      <AdjustmentPreview file={currentImage} adjustment={previewAdjustment} />
+                                  </div>
+                              )}
+
+                              {activeTab === 'retouch' && imageDimensions && !isComparing && currentImageState && (
+                                  <div
+                                      className={`absolute ${interactionMode === 'select' ? '' : 'pointer-events-none'}`}
+                                      style={getContentBoxStyle()}
+                                  >
+                                      <MaskCanvas
+                                          ref={maskCanvasRef}
+                                          key={`mask-${currentImageState.id}-${currentImageState.currentEntryId}`}
+                                          width={imageDimensions.width}
+                                          height={imageDimensions.height}
+                                          tool={maskTool}
+                                          mode={maskMode}
+                                          brushSize={brushSize}
+                                          disabled={isLoading || interactionMode !== 'select'}
+                                          onMaskChange={setHasMask}
+                                      />
+                                  </div>
+                              )}
+
+                              {activeTab === 'compose' && imageDimensions && !isComparing && currentImage && (
+                                  <div
+                                      className={`absolute ${interactionMode === 'select' ? '' : 'pointer-events-none'}`}
+                                      style={getContentBoxStyle()}
                                   >
-                                      {/* Ripple animates from center outwards */}
-                                      <div 
-                                          className="absolute w-full h-full rounded-full border-2 border-blue-400"
-                                          style={{ animation: 'hotspot-select-ripple 0.6s ease-out forwards' }}
-                                      ></div>
-                                      {/* The persistent center dot */}
-                                      <div 
-                                          className="absolute rounded-full w-6 h-6 bg-blue-500/60 border-2 border-white shadow-lg"
-                                      ></div>
+                                      {composeLayers.length > 0 && <LayerPreview base={currentImage} layers={composeLayers} />}
+                                      <LayerHandles
+                                          layers={composeLayers}
+                                          selectedLayerId={selectedLayerId}
+                                          imageWidth={imageDimensions.width}
+                                          imageHeight={imageDimensions.height}
+                                          onSelectLayer={setSelectedLayerId}
+                                          onTransformLayer={handleTransformLayer}
+                                          disabled={isLoading || interactionMode !== 'select'}
+                                      />
                                   </div>
                               )}
                           </div>
@@ -1223,6 +1866,12 @@ const App: React.FC = () => {
             <StartScreen 
                 onSingleFileSelect={handleSingleImageUpload} 
                 onMultipleFileSelect={handleMultipleImageUpload}
+                onProjectSelect={handleOpenProject}
+                sessions={storedSessions}
+                storage={storageEstimate}
+                onResumeSession={handleResumeSession}
+                onDeleteSession={handleDeleteSession}
+                importStatus={importStatus}
             />
         </div>
       );
@@ -1234,11 +1883,44 @@ const App: React.FC = () => {
   return (
     <div className="min-h-screen text-gray-100">
       {renderContent()}
+      {currentImageState && comparedEntryIds && (() => {
+        const left = getEntry(currentImageState, comparedEntryIds[0]);
+        const right = getEntry(currentImageState, comparedEntryIds[1]);
+        return left && right && (
+          <CompareModal
+            entries={[left, right]}
+            onClose={() => setComparedEntryIds(null)}
+            onSelect={(entryId) => {
+              handleJumpToHistory(entryId);
+              setComparedEntryIds(null);
+            }}
+          />
+        );
+      })()}
+      <DownloadModal
+        isOpen={downloadScope !== null && !!currentImage}
+        onClose={() => setDownloadScope(null)}
+        onConfirm={downloadScope === 'all' ? handleDownloadAll : handleDownload}
+        previewFile={currentImage}
+        previewName={currentImageState?.name ?? ''}
+        imageCount={downloadScope === 'all' ? imageList.length : 1}
+      />
+      {importFailures.length > 0 && imageList.length > 0 && (
+        <ImportReport failures={importFailures} onDismiss={() => setImportFailures([])} />
+      )}
+      {pendingVariations && (
+        <VariantPicker
+          variations={pendingVariations}
+          onKeep={handleKeepVariations}
+          onDiscard={() => setPendingVariations(null)}
+        />
+      )}
       {imageList.length > 1 && (
         <Filmstrip
           images={imageList}
           currentIndex={currentImageIndex}
           onSelect={setCurrentImageIndex}
+          jobs={batchJobs}
           isVisible={isFilmstripVisible}
           onToggleVisibility={() => setIsFilmstripVisible(v => !v)}
         />
@@ -3,14 +3,21 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { CollectionIcon } from './icons';
+import PresetLibrary from './PresetLibrary';
+import type { PixelAdjustment } from '../types';
 
 interface AdjustmentPanelProps {
   onApplyAdjustment: (prompt: string) => void;
   onApplyToAll?: (prompt: string) => void;
+  onPreviewPixelAdjustment: (adjustment: PixelAdjustment | null) => void;
+  onApplyPixelAdjustment: (adjustment: PixelAdjustment) => void;
+  onApplyPixelAdjustmentToAll?: (adjustment: PixelAdjustment) => void;
   isLoading: boolean;
   batchMode: boolean;
+  // The image shown in the editor, used for preset thumbnails
+  currentImage: File | null;
 }
 
 // Reusable slider component
@@ -47,7 +54,16 @@ const ControlSlider: React.FC<{
 );
 
 
-const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, onApplyToAll, isLoading, batchMode }) => {
+const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({
+  onApplyAdjustment,
+  onApplyToAll,
+  onPreviewPixelAdjustment,
+  onApplyPixelAdjustment,
+  onApplyPixelAdjustmentToAll,
+  isLoading,
+  batchMode,
+  currentImage,
+}) => {
   const [selectedPresetPrompt, setSelectedPresetPrompt] = useState<string | null>(null);
   const [customPrompt, setCustomPrompt] = useState('');
   const [brightness, setBrightness] = useState(0);
@@ -84,26 +100,38 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, on
     resetSliders();
   };
   
-  let sliderPrompt = '';
+  // Brightness and contrast are applied exactly on the client; only presets and custom prompts go to the AI.
   const hasSliderValues = brightness !== 0 || contrast !== 0;
+  const pixelAdjustment = useMemo<PixelAdjustment | null>(
+    () => hasSliderValues ? { type: 'brightness-contrast', brightness, contrast } : null,
+    [hasSliderValues, brightness, contrast]
+  );
 
-  if (hasSliderValues) {
-      const parts = [];
-      if (brightness !== 0) parts.push(`adjust brightness by ${brightness}`);
-      if (contrast !== 0) parts.push(`adjust contrast by ${contrast}`);
-      sliderPrompt = `Perform a photorealistic adjustment: ${parts.join(' and ')}.`;
-  }
+  useEffect(() => {
+    onPreviewPixelAdjustment(pixelAdjustment);
+  }, [pixelAdjustment, onPreviewPixelAdjustment]);
+
+  useEffect(() => {
+    return () => onPreviewPixelAdjustment(null);
+  }, [onPreviewPixelAdjustment]);
 
-  const activePrompt = selectedPresetPrompt || customPrompt || sliderPrompt;
+  const activePrompt = selectedPresetPrompt || customPrompt;
+  const canApply = !!pixelAdjustment || !!activePrompt.trim();
 
   const handleApply = () => {
-    if (activePrompt) {
+    if (pixelAdjustment) {
+      onApplyPixelAdjustment(pixelAdjustment);
+      resetSliders();
+    } else if (activePrompt) {
       onApplyAdjustment(activePrompt);
     }
   };
   
   const handleApplyToAll = () => {
-    if (activePrompt && onApplyToAll) {
+    if (pixelAdjustment && onApplyPixelAdjustmentToAll) {
+      onApplyPixelAdjustmentToAll(pixelAdjustment);
+      resetSliders();
+    } else if (activePrompt && onApplyToAll) {
       onApplyToAll(activePrompt);
     }
   }
@@ -145,12 +173,21 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, on
         disabled={isLoading}
       />
 
-      {activePrompt && (
+      <PresetLibrary
+        kind="adjustment"
+        activePrompt={activePrompt}
+        currentImage={currentImage}
+        selectedPrompt={selectedPresetPrompt}
+        onSelect={handlePresetClick}
+        isLoading={isLoading}
+      />
+
+      {canApply && (
         <div className="animate-fade-in flex flex-col sm:flex-row gap-3 pt-2">
             <button
                 onClick={handleApply}
                 className="w-full bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
-                disabled={isLoading || !activePrompt.trim()}
+                disabled={isLoading || !canApply}
             >
                 Apply to Current
             </button>
@@ -158,7 +195,7 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, on
               <button
                 onClick={handleApplyToAll}
                 className="w-full bg-gradient-to-br from-green-600 to-green-500 text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-green-500/20 hover:shadow-xl hover:shadow-green-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-green-800 disabled:to-green-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none flex items-center justify-center gap-2"
-                disabled={isLoading || !activePrompt.trim()}
+                disabled={isLoading || !canApply}
               >
                 <CollectionIcon className="w-5 h-5" />
                 Apply to All
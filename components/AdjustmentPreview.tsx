@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import type { PixelAdjustment } from '../types';
+import { applyAdjustment } from '../services/pixelPipeline';
+import { loadImage } from '../services/imageUtils';
+
+interface AdjustmentPreviewProps {
+  file: File;
+  adjustment: PixelAdjustment;
+  // Longest edge of the preview; keeps slider feedback fast on large images
+  maxDimension?: number;
+}
+
+const AdjustmentPreview: React.FC<AdjustmentPreviewProps> = ({ file, adjustment, maxDimension = 1600 }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [source, setSource] = useState<ImageData | null>(null);
+
+  // Decode and downscale the source once per file
+  useEffect(() => {
+    let isCancelled = false;
+    setSource(null);
+    loadImage(file).then(image => {
+      if (isCancelled) return;
+      const ratio = Math.min(1, maxDimension / Math.max(image.naturalWidth, image.naturalHeight));
+      const width = Math.max(1, Math.round(image.naturalWidth * ratio));
+      const height = Math.max(1, Math.round(image.naturalHeight * ratio));
+      const scratch = document.createElement('canvas');
+      scratch.width = width;
+      scratch.height = height;
+      const ctx = scratch.getContext('2d');
+      if (!ctx) return;
+      ctx.imageSmoothingQuality = 'high';
+      ctx.drawImage(image, 0, 0, width, height);
+      setSource(ctx.getImageData(0, 0, width, height));
+    }).catch(err => console.error('Failed to prepare adjustment preview.', err));
+    return () => { isCancelled = true; };
+  }, [file, maxDimension]);
+
+  // Re-render on the next frame whenever the adjustment changes
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !source) return;
+    const frame = requestAnimationFrame(() => {
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      canvas.width = source.width;
+      canvas.height = source.height;
+      const pixels = new ImageData(new Uint8ClampedArray(source.data), source.width, source.height);
+      applyAdjustment(pixels, adjustment);
+      ctx.putImageData(pixels, 0, 0);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [source, adjustment]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className={`absolute inset-0 w-full h-full pointer-events-none ${source ? '' : 'hidden'}`}
+    />
+  );
+};
+
+export default AdjustmentPreview;
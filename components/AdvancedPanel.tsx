@@ -3,12 +3,20 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { LevelsIcon, CurvesIcon, SelectiveColorIcon, CollectionIcon } from './icons';
+import CurvesEditor from './CurvesEditor';
+import type { ColorRange, CurveSet, PixelAdjustment, SavedCurve } from '../types';
+import { CURVE_PRESETS, createIdentityCurveSet, isIdentityAdjustment } from '../services/pixelPipeline';
+import type { Histogram } from '../services/histogram';
+import { loadSavedCurves, saveCurve, deleteSavedCurve } from '../services/curveLibrary';
 
 interface AdvancedPanelProps {
-  onApplyAdjustment: (prompt: string) => void;
-  onApplyToAll?: (prompt: string) => void;
+  // Histogram of the current image, drawn behind the curve graph
+  histogram: Histogram | null;
+  onPreviewAdjustment: (adjustment: PixelAdjustment | null) => void;
+  onApplyAdjustment: (adjustment: PixelAdjustment) => void;
+  onApplyToAll?: (adjustment: PixelAdjustment) => void;
   isLoading: boolean;
   batchMode: boolean;
 }
@@ -23,8 +31,9 @@ const ControlSlider: React.FC<{
   onReset?: () => void;
   min?: number;
   max?: number;
+  format?: (value: number) => string;
   isLoading: boolean;
-}> = ({ label, value, onChange, onReset, min = -100, max = 100, isLoading }) => (
+}> = ({ label, value, onChange, onReset, min = -100, max = 100, format, isLoading }) => (
     <div className="flex flex-col gap-2">
         <div className="flex justify-between items-center">
             <label className="text-sm font-medium text-gray-400">{label}</label>
@@ -33,7 +42,7 @@ const ControlSlider: React.FC<{
                 className={`text-sm font-mono bg-gray-900/50 text-gray-200 px-2 py-1 rounded-md transition-colors ${onReset ? 'cursor-pointer hover:bg-gray-700' : ''}`}
                 title={onReset ? 'Click to reset' : ''}
             >
-                {value > 0 ? `+${value}` : value}
+                {format ? format(value) : value > 0 ? `+${value}` : value}
             </span>
         </div>
         <input
@@ -48,61 +57,88 @@ const ControlSlider: React.FC<{
     </div>
 );
 
-const AdvancedPanel: React.FC<AdvancedPanelProps> = ({ onApplyAdjustment, onApplyToAll, isLoading, batchMode }) => {
+const DEFAULT_LEVELS = { inputBlack: 0, inputWhite: 255, gamma: 100, outputBlack: 0, outputWhite: 255 };
+
+const AdvancedPanel: React.FC<AdvancedPanelProps> = ({ histogram, onPreviewAdjustment, onApplyAdjustment, onApplyToAll, isLoading, batchMode }) => {
   const [activeTool, setActiveTool] = useState<AdvancedTool>('levels');
 
-  // State for Levels
-  const [levels, setLevels] = useState({ shadows: 0, midtones: 0, highlights: 0 });
+  // State for Levels (gamma is stored in hundredths so it fits an integer slider)
+  const [levels, setLevels] = useState(DEFAULT_LEVELS);
 
   // State for Curves
-  const [curvePreset, setCurvePreset] = useState<string | null>(null);
+  const [curves, setCurves] = useState<CurveSet>(createIdentityCurveSet);
+  const [savedCurves, setSavedCurves] = useState<SavedCurve[]>(loadSavedCurves);
+  const [curveName, setCurveName] = useState('');
   
   // State for Selective Color
-  const [selectedColor, setSelectedColor] = useState('Reds');
+  const [selectedColor, setSelectedColor] = useState<ColorRange>('reds');
   const [colorAdjust, setColorAdjust] = useState({ hue: 0, saturation: 0, lightness: 0 });
   
-  const generatePrompt = () => {
+  // All three tools are applied exactly on the client, so the viewport can preview them live.
+  const adjustment = useMemo<PixelAdjustment | null>(() => {
+    let result: PixelAdjustment | null = null;
     switch (activeTool) {
       case 'levels':
-        return `Perform a levels adjustment. Adjust shadows by ${levels.shadows} units, midtones by ${levels.midtones} units, and highlights by ${levels.highlights} units. The adjustment should be photorealistic and maintain the original character of the image.`;
+        result = { type: 'levels', ...levels, gamma: levels.gamma / 100 };
+        break;
       case 'curves':
-        if (curvePreset) {
-            return `Apply a "${curvePreset}" tonal curve to the image to adjust contrast and brightness.`;
-        }
+        result = { type: 'curves', curves };
         break;
       case 'selective-color':
-        return `Perform a selective color adjustment on the ${selectedColor.toLowerCase()} color range. Apply a hue shift of ${colorAdjust.hue} degrees, adjust saturation by ${colorAdjust.saturation}%, and adjust lightness by ${colorAdjust.lightness}%. Ensure the changes blend naturally with the rest of the image.`;
+        result = { type: 'selective-color', range: selectedColor, ...colorAdjust };
+        break;
     }
-    return '';
-  }
-  
+    return result && !isIdentityAdjustment(result) ? result : null;
+  }, [activeTool, levels, curves, selectedColor, colorAdjust]);
+
+  useEffect(() => {
+    onPreviewAdjustment(adjustment);
+  }, [adjustment, onPreviewAdjustment]);
+
+  useEffect(() => {
+    return () => onPreviewAdjustment(null);
+  }, [onPreviewAdjustment]);
+
+  const handleSaveCurve = () => {
+    const name = curveName.trim();
+    if (!name) return;
+    try {
+      setSavedCurves(saveCurve(name, curves));
+      setCurveName('');
+    } catch (err) {
+      console.error('Failed to save curve.', err);
+    }
+  };
+
+  const handleDeleteCurve = (id: string) => {
+    try {
+      setSavedCurves(deleteSavedCurve(id));
+    } catch (err) {
+      console.error('Failed to delete curve.', err);
+    }
+  };
+
+  const resetTools = () => {
+    setLevels(DEFAULT_LEVELS);
+    setCurves(createIdentityCurveSet());
+    setColorAdjust({ hue: 0, saturation: 0, lightness: 0 });
+  };
+
   const handleApply = () => {
-    const prompt = generatePrompt();
-    if (prompt) {
-      onApplyAdjustment(prompt);
+    if (adjustment) {
+      onApplyAdjustment(adjustment);
+      resetTools();
     }
   };
 
   const handleApplyToAll = () => {
-    const prompt = generatePrompt();
-    if (prompt && onApplyToAll) {
-      onApplyToAll(prompt);
+    if (adjustment && onApplyToAll) {
+      onApplyToAll(adjustment);
+      resetTools();
     }
   }
 
-  const isApplyDisabled = () => {
-      if (isLoading) return true;
-      switch (activeTool) {
-          case 'levels':
-              return levels.shadows === 0 && levels.midtones === 0 && levels.highlights === 0;
-          case 'curves':
-              return !curvePreset;
-          case 'selective-color':
-              return colorAdjust.hue === 0 && colorAdjust.saturation === 0 && colorAdjust.lightness === 0;
-          default:
-              return true;
-      }
-  };
+  const isApplyDisabled = () => isLoading || !adjustment;
 
   const toolConfig = [
       { name: 'levels', icon: LevelsIcon, label: 'Levels' },
@@ -110,14 +146,13 @@ const AdvancedPanel: React.FC<AdvancedPanelProps> = ({ onApplyAdjustment, onAppl
       { name: 'selective-color', icon: SelectiveColorIcon, label: 'Selective Color' }
   ];
 
-  const curvePresets = ['Increase Contrast (S-Curve)', 'Decrease Contrast (Inverted S-Curve)', 'Lighten Shadows', 'Darken Highlights', 'Vintage Fade'];
-  const selectiveColors = [
-      { name: 'Reds', bg: 'bg-red-500', ring: 'ring-red-400' },
-      { name: 'Yellows', bg: 'bg-yellow-500', ring: 'ring-yellow-400' },
-      { name: 'Greens', bg: 'bg-green-500', ring: 'ring-green-400' },
-      { name: 'Cyans', bg: 'bg-cyan-500', ring: 'ring-cyan-400' },
-      { name: 'Blues', bg: 'bg-blue-500', ring: 'ring-blue-400' },
-      { name: 'Magentas', bg: 'bg-pink-500', ring: 'ring-pink-400' },
+  const selectiveColors: { name: string, range: ColorRange, bg: string, ring: string }[] = [
+      { name: 'Reds', range: 'reds', bg: 'bg-red-500', ring: 'ring-red-400' },
+      { name: 'Yellows', range: 'yellows', bg: 'bg-yellow-500', ring: 'ring-yellow-400' },
+      { name: 'Greens', range: 'greens', bg: 'bg-green-500', ring: 'ring-green-400' },
+      { name: 'Cyans', range: 'cyans', bg: 'bg-cyan-500', ring: 'ring-cyan-400' },
+      { name: 'Blues', range: 'blues', bg: 'bg-blue-500', ring: 'ring-blue-400' },
+      { name: 'Magentas', range: 'magentas', bg: 'bg-pink-500', ring: 'ring-pink-400' },
   ];
   
   const renderToolUI = () => {
@@ -125,28 +160,75 @@ const AdvancedPanel: React.FC<AdvancedPanelProps> = ({ onApplyAdjustment, onAppl
         case 'levels':
             return (
                 <div className="flex flex-col gap-6 animate-fade-in">
-                    <p className="text-sm text-center text-gray-400">Adjust the tonal range of the image.</p>
-                    <ControlSlider label="Shadows" value={levels.shadows} onChange={v => setLevels({...levels, shadows: v})} onReset={() => setLevels({...levels, shadows: 0})} isLoading={isLoading}/>
-                    <ControlSlider label="Midtones" value={levels.midtones} onChange={v => setLevels({...levels, midtones: v})} onReset={() => setLevels({...levels, midtones: 0})} isLoading={isLoading}/>
-                    <ControlSlider label="Highlights" value={levels.highlights} onChange={v => setLevels({...levels, highlights: v})} onReset={() => setLevels({...levels, highlights: 0})} isLoading={isLoading}/>
+                    <p className="text-sm text-center text-gray-400">Set the input black and white points, midtone gamma, and output range.</p>
+                    <ControlSlider label="Input Black" value={levels.inputBlack} onChange={v => setLevels({...levels, inputBlack: Math.min(v, levels.inputWhite - 2)})} onReset={() => setLevels({...levels, inputBlack: 0})} min={0} max={255} format={String} isLoading={isLoading}/>
+                    <ControlSlider label="Midtone Gamma" value={levels.gamma} onChange={v => setLevels({...levels, gamma: v})} onReset={() => setLevels({...levels, gamma: 100})} min={10} max={400} format={v => (v / 100).toFixed(2)} isLoading={isLoading}/>
+                    <ControlSlider label="Input White" value={levels.inputWhite} onChange={v => setLevels({...levels, inputWhite: Math.max(v, levels.inputBlack + 2)})} onReset={() => setLevels({...levels, inputWhite: 255})} min={0} max={255} format={String} isLoading={isLoading}/>
+                    <div className="border-t border-gray-700/50"></div>
+                    <ControlSlider label="Output Black" value={levels.outputBlack} onChange={v => setLevels({...levels, outputBlack: v})} onReset={() => setLevels({...levels, outputBlack: 0})} min={0} max={255} format={String} isLoading={isLoading}/>
+                    <ControlSlider label="Output White" value={levels.outputWhite} onChange={v => setLevels({...levels, outputWhite: v})} onReset={() => setLevels({...levels, outputWhite: 255})} min={0} max={255} format={String} isLoading={isLoading}/>
                 </div>
             );
         case 'curves':
             return (
                  <div className="flex flex-col gap-4 animate-fade-in">
-                    <p className="text-sm text-center text-gray-400">Apply a preset tonal curve to adjust contrast.</p>
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
-                        {curvePresets.map(preset => (
+                    <p className="text-sm text-center text-gray-400">Drag the curve to shape tones. Edit the RGB curve or each color channel separately.</p>
+                    <CurvesEditor curves={curves} onChange={setCurves} histogram={histogram} disabled={isLoading} />
+                    <div className="flex flex-wrap justify-center gap-2">
+                        {CURVE_PRESETS.map(({ name, points }) => (
                              <button
-                                key={preset}
-                                onClick={() => setCurvePreset(preset)}
+                                key={name}
+                                onClick={() => setCurves({ ...createIdentityCurveSet(), rgb: points })}
                                 disabled={isLoading}
-                                className={`w-full text-center bg-white/10 border border-transparent text-gray-200 font-semibold py-3 px-4 rounded-md transition-all duration-200 ease-in-out hover:bg-white/20 hover:border-white/20 active:scale-95 text-base disabled:opacity-50 disabled:cursor-not-allowed ${curvePreset === preset ? 'ring-2 ring-offset-2 ring-offset-gray-800 ring-blue-500' : ''}`}
+                                className="text-center bg-white/10 border border-transparent text-gray-200 font-semibold py-2 px-3 rounded-md transition-all duration-200 ease-in-out hover:bg-white/20 hover:border-white/20 active:scale-95 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
                             >
-                                {preset}
+                                {name}
                             </button>
                         ))}
                     </div>
+                    <div className="border-t border-gray-700/50"></div>
+                    <div className="flex gap-2">
+                        <input
+                            type="text"
+                            value={curveName}
+                            onChange={(e) => setCurveName(e.target.value)}
+                            onKeyDown={(e) => { if (e.key === 'Enter') handleSaveCurve(); }}
+                            placeholder="Name this curve to save it"
+                            className="flex-grow bg-gray-800 border border-gray-600 text-gray-200 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none transition w-full disabled:opacity-60"
+                            disabled={isLoading}
+                        />
+                        <button
+                            onClick={handleSaveCurve}
+                            disabled={isLoading || !curveName.trim()}
+                            className="bg-white/10 text-gray-200 font-semibold py-2 px-4 rounded-lg transition-all hover:bg-white/20 active:scale-95 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            Save
+                        </button>
+                    </div>
+                    {savedCurves.length > 0 && (
+                        <div className="flex flex-wrap gap-2">
+                            {savedCurves.map(saved => (
+                                <div key={saved.id} className="flex items-center bg-gray-900/50 border border-gray-700 rounded-md text-sm">
+                                    <button
+                                        onClick={() => setCurves(saved.curves)}
+                                        disabled={isLoading}
+                                        className="py-1.5 pl-3 pr-2 text-gray-200 hover:text-white disabled:opacity-50"
+                                        title="Load this curve"
+                                    >
+                                        {saved.name}
+                                    </button>
+                                    <button
+                                        onClick={() => handleDeleteCurve(saved.id)}
+                                        disabled={isLoading}
+                                        className="py-1.5 pr-3 pl-1 text-gray-500 hover:text-red-400 disabled:opacity-50"
+                                        aria-label={`Delete ${saved.name}`}
+                                    >
+                                        &times;
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
                 </div>
             );
         case 'selective-color':
@@ -158,10 +240,10 @@ const AdvancedPanel: React.FC<AdvancedPanelProps> = ({ onApplyAdjustment, onAppl
                             <button 
                                 key={color.name}
                                 onClick={() => {
-                                    setSelectedColor(color.name);
+                                    setSelectedColor(color.range);
                                     setColorAdjust({ hue: 0, saturation: 0, lightness: 0 });
                                 }}
-                                className={`w-12 h-12 rounded-full transition-transform duration-200 active:scale-90 disabled:opacity-50 ${color.bg} ${selectedColor === color.name ? `ring-4 ring-offset-2 ring-offset-gray-800 ${color.ring}` : 'hover:scale-110'}`}
+                                className={`w-12 h-12 rounded-full transition-transform duration-200 active:scale-90 disabled:opacity-50 ${color.bg} ${selectedColor === color.range ? `ring-4 ring-offset-2 ring-offset-gray-800 ${color.ring}` : 'hover:scale-110'}`}
                                 aria-label={`Select ${color.name}`}
                                 disabled={isLoading}
                             />
@@ -0,0 +1,234 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect } from 'react';
+import { MagicWandIcon, DownloadIcon, UploadIcon } from './icons';
+import { MAX_EDGE_RADIUS, type BackgroundChoice } from '../services/background';
+
+interface BackgroundPanelProps {
+  // Data URL of the subject on a transparent background, once it has been detected
+  cutoutUrl: string | null;
+  edgeRadius: number;
+  onDetectSubject: () => void;
+  onRefineEdges: (radius: number) => void;
+  onApplyBackground: (choice: BackgroundChoice) => void;
+  onExportCutout: (format: 'png' | 'webp') => void;
+  isLoading: boolean;
+}
+
+type FillMode = 'transparent' | 'color' | 'gradient' | 'image' | 'scene';
+
+const FILL_MODES: { value: FillMode, label: string }[] = [
+  { value: 'transparent', label: 'None' },
+  { value: 'color', label: 'Color' },
+  { value: 'gradient', label: 'Gradient' },
+  { value: 'image', label: 'Image' },
+  { value: 'scene', label: 'Scene' },
+];
+
+// Transparent areas show through as the usual grey checkerboard
+const CHECKERBOARD: React.CSSProperties = {
+  backgroundColor: '#9ca3af',
+  backgroundImage: 'conic-gradient(#6b7280 25%, transparent 0 50%, #6b7280 0 75%, transparent 0)',
+  backgroundSize: '16px 16px',
+};
+
+const BackgroundPanel: React.FC<BackgroundPanelProps> = ({
+  cutoutUrl,
+  edgeRadius,
+  onDetectSubject,
+  onRefineEdges,
+  onApplyBackground,
+  onExportCutout,
+  isLoading,
+}) => {
+  const [mode, setMode] = useState<FillMode>('transparent');
+  const [color, setColor] = useState('#ffffff');
+  const [gradientFrom, setGradientFrom] = useState('#f3f4f6');
+  const [gradientTo, setGradientTo] = useState('#9ca3af');
+  const [gradientAngle, setGradientAngle] = useState(180);
+  const [backgroundImage, setBackgroundImage] = useState<File | null>(null);
+  const [backgroundImageUrl, setBackgroundImageUrl] = useState<string | null>(null);
+  const [scenePrompt, setScenePrompt] = useState('');
+  // Follows the slider while dragging; the matte is only recomputed on release
+  const [radius, setRadius] = useState(edgeRadius);
+
+  useEffect(() => { setRadius(edgeRadius); }, [edgeRadius]);
+
+  useEffect(() => {
+    if (!backgroundImage) {
+      setBackgroundImageUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(backgroundImage);
+    setBackgroundImageUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [backgroundImage]);
+
+  const commitRadius = () => {
+    if (radius !== edgeRadius) onRefineEdges(radius);
+  };
+
+  const getChoice = (): BackgroundChoice | null => {
+    switch (mode) {
+      case 'color': return { type: 'color', color };
+      case 'gradient': return { type: 'gradient', from: gradientFrom, to: gradientTo, angle: gradientAngle };
+      case 'image': return backgroundImage ? { type: 'image', image: backgroundImage } : null;
+      case 'scene': return scenePrompt.trim() ? { type: 'scene', prompt: scenePrompt.trim() } : null;
+      default: return { type: 'transparent' };
+    }
+  };
+
+  const choice = getChoice();
+  const previewStyle: React.CSSProperties =
+    mode === 'color' ? { backgroundColor: color }
+    : mode === 'gradient' ? { backgroundImage: `linear-gradient(${gradientAngle}deg, ${gradientFrom}, ${gradientTo})` }
+    : mode === 'image' && backgroundImageUrl ? { backgroundImage: `url(${backgroundImageUrl})`, backgroundSize: 'cover', backgroundPosition: 'center' }
+    : CHECKERBOARD;
+
+  return (
+    <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-6 flex flex-col gap-5 animate-fade-in backdrop-blur-sm">
+      <h3 className="text-lg font-semibold text-center text-gray-300">Background</h3>
+      <p className="text-sm text-gray-400 text-center -mt-2">Cut out the main subject, then export it with transparency or put something new behind it.</p>
+
+      <button
+        onClick={onDetectSubject}
+        disabled={isLoading}
+        className="w-full bg-white/10 border border-white/20 text-gray-200 font-semibold py-3 px-4 rounded-md transition-all duration-200 ease-in-out hover:bg-white/20 hover:border-white/30 active:scale-95 text-sm disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+      >
+        <MagicWandIcon className="w-5 h-5" />
+        {cutoutUrl ? 'Detect Subject Again' : 'Detect Subject'}
+      </button>
+
+      {cutoutUrl && (
+        <div className="flex flex-col gap-5 animate-fade-in">
+          <div className="rounded-lg overflow-hidden border border-gray-700" style={previewStyle}>
+            <img src={cutoutUrl} alt="Subject cutout" className="w-full h-48 object-contain" />
+          </div>
+
+          <div>
+            <div className="flex justify-between items-center mb-1">
+              <label htmlFor="edge-radius" className="text-sm font-medium text-gray-400">Edge Refinement</label>
+              <span className="text-sm font-mono text-gray-300">{radius}px</span>
+            </div>
+            <input
+              id="edge-radius"
+              type="range"
+              min={0}
+              max={MAX_EDGE_RADIUS}
+              value={radius}
+              onChange={(e) => setRadius(parseInt(e.target.value, 10))}
+              onPointerUp={commitRadius}
+              onKeyUp={commitRadius}
+              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer range-lg accent-blue-500 disabled:opacity-50"
+              disabled={isLoading}
+            />
+            <p className="text-xs text-gray-500 mt-1">Softens the cut along hair and fine detail; 0 keeps the AI mask's hard edge.</p>
+          </div>
+
+          <div className="flex flex-col gap-3">
+            <span className="text-sm font-medium text-gray-400">New Background</span>
+            <div className="p-1 bg-gray-900/50 rounded-lg grid grid-cols-5 gap-1">
+              {FILL_MODES.map(({ value, label }) => (
+                <button
+                  key={value}
+                  onClick={() => setMode(value)}
+                  disabled={isLoading}
+                  className={`px-2 py-1.5 rounded-md text-sm font-semibold transition-all ${mode === value ? 'bg-blue-600 text-white shadow' : 'text-gray-300 hover:bg-white/10'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            {mode === 'color' && (
+              <label className="flex items-center gap-3 text-sm text-gray-400 animate-fade-in">
+                <input type="color" value={color} onChange={(e) => setColor(e.target.value)} disabled={isLoading} className="w-10 h-10 bg-transparent rounded cursor-pointer" />
+                <span className="font-mono text-gray-300">{color}</span>
+              </label>
+            )}
+            {mode === 'gradient' && (
+              <div className="flex flex-col gap-3 animate-fade-in">
+                <div className="flex items-center gap-4 text-sm text-gray-400">
+                  <label className="flex items-center gap-2">
+                    From
+                    <input type="color" value={gradientFrom} onChange={(e) => setGradientFrom(e.target.value)} disabled={isLoading} className="w-10 h-10 bg-transparent rounded cursor-pointer" />
+                  </label>
+                  <label className="flex items-center gap-2">
+                    To
+                    <input type="color" value={gradientTo} onChange={(e) => setGradientTo(e.target.value)} disabled={isLoading} className="w-10 h-10 bg-transparent rounded cursor-pointer" />
+                  </label>
+                </div>
+                <div>
+                  <div className="flex justify-between items-center mb-1">
+                    <label htmlFor="gradient-angle" className="text-sm font-medium text-gray-400">Angle</label>
+                    <span className="text-sm font-mono text-gray-300">{gradientAngle}°</span>
+                  </div>
+                  <input
+                    id="gradient-angle"
+                    type="range"
+                    min={0}
+                    max={359}
+                    value={gradientAngle}
+                    onChange={(e) => setGradientAngle(parseInt(e.target.value, 10))}
+                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer range-lg accent-blue-500 disabled:opacity-50"
+                    disabled={isLoading}
+                  />
+                </div>
+              </div>
+            )}
+            {mode === 'image' && (
+              <div className="animate-fade-in">
+                <button
+                  onClick={() => document.getElementById('background-upload')?.click()}
+                  disabled={isLoading}
+                  className="w-full rounded-lg border-2 border-dashed border-gray-600 p-4 text-sm font-medium text-gray-400 hover:border-gray-500 flex items-center justify-center gap-2 disabled:opacity-50"
+                >
+                  <UploadIcon className="w-5 h-5" />
+                  {backgroundImage ? backgroundImage.name : 'Choose a background image'}
+                </button>
+                <input id="background-upload" type="file" className="hidden" accept="image/*" onChange={(e) => setBackgroundImage(e.target.files?.[0] ?? null)} />
+              </div>
+            )}
+            {mode === 'scene' && (
+              <textarea
+                rows={3}
+                value={scenePrompt}
+                onChange={(e) => setScenePrompt(e.target.value)}
+                placeholder="e.g., 'a marble countertop in a bright kitchen'"
+                className="bg-gray-800 border border-gray-600 text-gray-200 rounded-lg p-3 focus:ring-2 focus:ring-blue-500 focus:outline-none transition w-full disabled:cursor-not-allowed disabled:opacity-60 text-sm animate-fade-in"
+                disabled={isLoading}
+              />
+            )}
+          </div>
+
+          <button
+            onClick={() => choice && onApplyBackground(choice)}
+            disabled={isLoading || !choice}
+            className="w-full bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-gray-600 disabled:to-gray-500 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
+          >
+            {mode === 'transparent' ? 'Apply Cutout' : 'Replace Background'}
+          </button>
+
+          <div className="grid grid-cols-2 gap-3">
+            {(['png', 'webp'] as const).map(format => (
+              <button
+                key={format}
+                onClick={() => onExportCutout(format)}
+                disabled={isLoading}
+                className="flex items-center justify-center bg-white/10 border border-white/20 text-gray-200 font-semibold py-3 px-4 rounded-md transition-all duration-200 ease-in-out hover:bg-white/20 hover:border-white/30 active:scale-95 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <DownloadIcon className="w-5 h-5 mr-2" />
+                Cutout {format.toUpperCase()}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BackgroundPanel;
@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import type { JobQueueOptions, JobQueueState } from '../services/jobQueue';
+
+interface BatchPanelProps {
+  // Counts of the running batch, or of the last one once it has finished; null before any batch
+  state: JobQueueState | null;
+  isRunning: boolean;
+  settings: JobQueueOptions;
+  onSettingsChange: (settings: JobQueueOptions) => void;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+  // Images whose last batch job failed and can be rerun
+  retryableCount: number;
+  onRetryFailed: () => void;
+}
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+const RATE_OPTIONS = [0, 10, 20, 30, 60];
+
+const selectClassName = 'bg-gray-800 border border-gray-700 text-gray-200 rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:opacity-50';
+const buttonClassName = 'flex-1 text-center bg-white/10 border border-white/20 text-gray-200 font-semibold py-2 px-3 rounded-md transition-all duration-200 ease-in-out hover:bg-white/20 hover:border-white/30 active:scale-95 text-sm disabled:opacity-50 disabled:cursor-not-allowed';
+
+const BatchPanel: React.FC<BatchPanelProps> = ({ state, isRunning, settings, onSettingsChange, onPause, onResume, onCancel, retryableCount, onRetryFailed }) => {
+  const finished = state ? state.done + state.failed + state.cancelled : 0;
+  const percent = state && state.total > 0 ? Math.round(finished / state.total * 100) : 0;
+
+  return (
+    <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-3 flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-200">Batch Queue</h3>
+        {state && (
+          <span className="text-xs text-gray-400">
+            {isRunning && state.isPaused ? 'Paused · ' : ''}
+            {finished} of {state.total}
+          </span>
+        )}
+      </div>
+
+      {state && (
+        <>
+          <div className="w-full h-1.5 bg-gray-700 rounded-full overflow-hidden">
+            <div className="h-full bg-blue-500 transition-all duration-300" style={{ width: `${percent}%` }} />
+          </div>
+          <p className="text-xs text-gray-400">
+            {state.done} done
+            {state.running > 0 && ` · ${state.running} running`}
+            {state.queued > 0 && ` · ${state.queued} queued`}
+            {state.failed > 0 && <span className="text-red-400"> · {state.failed} failed</span>}
+            {state.cancelled > 0 && ` · ${state.cancelled} cancelled`}
+          </p>
+        </>
+      )}
+
+      {isRunning ? (
+        <div className="flex gap-2">
+          {state?.isPaused
+            ? <button onClick={onResume} className={buttonClassName}>Resume</button>
+            : <button onClick={onPause} className={buttonClassName}>Pause</button>}
+          <button onClick={onCancel} className={`${buttonClassName} hover:bg-red-500/20`}>Cancel</button>
+        </div>
+      ) : retryableCount > 0 && (
+        <button onClick={onRetryFailed} className={buttonClassName}>
+          Retry Failed ({retryableCount})
+        </button>
+      )}
+
+      <div className="flex items-center justify-between gap-3 text-sm text-gray-400">
+        <label className="flex items-center gap-2">
+          Parallel
+          <select
+            value={settings.concurrency}
+            onChange={(e) => onSettingsChange({ ...settings, concurrency: Number(e.target.value) })}
+            className={selectClassName}
+          >
+            {CONCURRENCY_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          Rate limit
+          <select
+            value={settings.ratePerMinute}
+            onChange={(e) => onSettingsChange({ ...settings, ratePerMinute: Number(e.target.value) })}
+            className={selectClassName}
+          >
+            {RATE_OPTIONS.map(n => <option key={n} value={n}>{n === 0 ? 'None' : `${n} / min`}</option>)}
+          </select>
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default BatchPanel;
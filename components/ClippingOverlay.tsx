@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef } from 'react';
+import { loadImage } from '../services/imageUtils';
+
+interface ClippingOverlayProps {
+  file: File;
+  showHighlights: boolean;
+  showShadows: boolean;
+  // Longest edge of the overlay; fine detail is not needed to spot blown-out areas
+  maxDimension?: number;
+}
+
+// Warning colors: red for pure white pixels, blue for pure black ones
+const HIGHLIGHT_COLOR = [255, 40, 40];
+const SHADOW_COLOR = [40, 110, 255];
+
+const ClippingOverlay: React.FC<ClippingOverlayProps> = ({ file, showHighlights, showShadows, maxDimension = 1600 }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+    loadImage(file).then(image => {
+      const canvas = canvasRef.current;
+      if (isCancelled || !canvas) return;
+      const ratio = Math.min(1, maxDimension / Math.max(image.naturalWidth, image.naturalHeight));
+      canvas.width = Math.max(1, Math.round(image.naturalWidth * ratio));
+      canvas.height = Math.max(1, Math.round(image.naturalHeight * ratio));
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      // Nearest-neighbour sampling so downscaling doesn't average clipped pixels away
+      ctx.imageSmoothingEnabled = false;
+      ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      const data = imageData.data;
+      for (let i = 0; i < data.length; i += 4) {
+        const r = data[i], g = data[i + 1], b = data[i + 2];
+        let color: number[] | null = null;
+        if (showHighlights && (r === 255 || g === 255 || b === 255)) color = HIGHLIGHT_COLOR;
+        else if (showShadows && (r === 0 || g === 0 || b === 0)) color = SHADOW_COLOR;
+        if (color && data[i + 3] > 0) {
+          data[i] = color[0];
+          data[i + 1] = color[1];
+          data[i + 2] = color[2];
+          data[i + 3] = 255;
+        } else {
+          data[i + 3] = 0;
+        }
+      }
+      ctx.putImageData(imageData, 0, 0);
+    }).catch(err => console.error('Failed to render clipping overlay.', err));
+    return () => { isCancelled = true; };
+  }, [file, showHighlights, showShadows, maxDimension]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="absolute inset-0 w-full h-full pointer-events-none"
+      style={{ imageRendering: 'pixelated' }}
+    />
+  );
+};
+
+export default ClippingOverlay;
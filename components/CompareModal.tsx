@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import type { HistoryEntry } from '../types';
+import { describeEntry, formatDuration } from '../services/history';
+
+interface CompareModalProps {
+  entries: [HistoryEntry, HistoryEntry];
+  onClose: () => void;
+  onSelect: (entryId: string) => void;
+}
+
+const CompareSide: React.FC<{ entry: HistoryEntry, onSelect: () => void }> = ({ entry, onSelect }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(entry.file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [entry.file]);
+
+  return (
+    <div className="flex-1 min-w-0 flex flex-col gap-3">
+      <div className="flex-grow min-h-0 bg-black/30 rounded-lg flex items-center justify-center overflow-hidden">
+        {url && <img src={url} alt={describeEntry(entry)} className="max-w-full max-h-[65vh] object-contain" />}
+      </div>
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <p className="font-semibold text-gray-100 truncate">{describeEntry(entry)}</p>
+          {entry.operation.prompt && <p className="text-xs text-gray-400 line-clamp-2">"{entry.operation.prompt}"</p>}
+          <p className="text-xs text-gray-500">
+            {new Date(entry.timestamp).toLocaleTimeString(undefined, { timeStyle: 'short' })}
+            {entry.operation.durationMs !== undefined && ` · ${formatDuration(entry.operation.durationMs)}`}
+          </p>
+        </div>
+        <button
+          onClick={onSelect}
+          className="flex-shrink-0 bg-blue-600 hover:bg-blue-500 text-white font-semibold py-2 px-4 rounded-md text-sm transition-colors"
+        >
+          Use This Version
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const CompareModal: React.FC<CompareModalProps> = ({ entries, onClose, onSelect }) => {
+  const modalRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleEsc = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+    document.addEventListener('keydown', handleEsc);
+    return () => {
+      document.removeEventListener('keydown', handleEsc);
+    };
+  }, [onClose]);
+
+  const handleClickOutside = (event: React.MouseEvent<HTMLDivElement, MouseEvent>) => {
+    if (modalRef.current && !modalRef.current.contains(event.target as Node)) {
+      onClose();
+    }
+  };
+
+  return (
+    <div
+        className="fixed inset-0 bg-black/70 z-50 flex items-center justify-center animate-fade-in p-4"
+        onClick={handleClickOutside}
+        aria-modal="true"
+        role="dialog"
+    >
+      <div
+        ref={modalRef}
+        className="bg-gray-800 border border-gray-700 rounded-xl shadow-2xl p-6 w-full max-w-6xl flex flex-col gap-6"
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-gray-100">Compare Versions</h2>
+          <button
+            onClick={onClose}
+            className="text-center bg-white/10 border border-white/20 text-gray-200 font-semibold py-2 px-4 rounded-md transition-all duration-200 ease-in-out hover:bg-white/20 hover:border-white/30 active:scale-95 text-sm"
+          >
+            Close
+          </button>
+        </div>
+        <div className="flex flex-col md:flex-row gap-6">
+          {entries.map(entry => (
+            <CompareSide key={entry.id} entry={entry} onSelect={() => onSelect(entry.id)} />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CompareModal;
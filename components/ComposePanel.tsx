@@ -3,114 +3,312 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState, useCallback } from 'react';
-import { UploadIcon, LayersIcon } from './icons';
+import React, { useState } from 'react';
+import { UploadIcon, LayersIcon, EyeIcon, ChevronUpIcon, ChevronDownIcon, MagicWandIcon } from './icons';
+import type { BlendMode, ComposeLayer } from '../types';
+import { BLEND_MODES, FONT_FAMILIES, createImageLayer, createShapeLayer, createTextLayer } from '../services/layers';
 
 interface ComposePanelProps {
-  onApplyCompose: (complementImage: File, prompt: string) => void;
+  layers: ComposeLayer[];
+  onLayersChange: React.Dispatch<React.SetStateAction<ComposeLayer[]>>;
+  selectedLayerId: string | null;
+  onSelectLayer: (id: string | null) => void;
+  // The natural size of the base image, used to place new layers
+  imageWidth: number;
+  imageHeight: number;
+  onHarmonizeLayer: (id: string) => void;
+  // Lets the model redraw an image layer into the scene, which flattens it
+  onMergeLayerWithAi: (id: string, prompt: string) => void;
+  onFlattenLayers: () => void;
   isLoading: boolean;
-  hotspot: { x: number, y: number } | null;
 }
 
-const ComposePanel: React.FC<ComposePanelProps> = ({ onApplyCompose, isLoading, hotspot }) => {
-  const [complementImage, setComplementImage] = useState<File | null>(null);
-  const [complementImageUrl, setComplementImageUrl] = useState<string | null>(null);
-  const [prompt, setPrompt] = useState('');
-  const [isDraggingOver, setIsDraggingOver] = useState(false);
-
-  const handleFileChange = useCallback((file: File | null) => {
-    if (file) {
-      setComplementImage(file);
-      const url = URL.createObjectURL(file);
-      if (complementImageUrl) {
-        URL.revokeObjectURL(complementImageUrl);
-      }
-      setComplementImageUrl(url);
-    }
-  }, [complementImageUrl]);
+const LAYER_TYPE_LABELS: Record<ComposeLayer['type'], string> = { image: 'Image', text: 'Text', shape: 'Shape' };
 
-  const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      handleFileChange(e.target.files[0]);
-    }
+const inputClassName = 'w-full bg-gray-800 border border-gray-600 text-gray-200 rounded-md px-2 py-1.5 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:opacity-60';
+const colorClassName = 'w-10 h-9 bg-transparent rounded cursor-pointer';
+
+const ComposePanel: React.FC<ComposePanelProps> = ({
+  layers,
+  onLayersChange,
+  selectedLayerId,
+  onSelectLayer,
+  imageWidth,
+  imageHeight,
+  onHarmonizeLayer,
+  onMergeLayerWithAi,
+  onFlattenLayers,
+  isLoading,
+}) => {
+  const [mergePrompt, setMergePrompt] = useState('');
+  const selected = layers.find(layer => layer.id === selectedLayerId) ?? null;
+
+  const addLayer = (layer: ComposeLayer) => {
+    onLayersChange(prev => [...prev, layer]);
+    onSelectLayer(layer.id);
   };
-  
-  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
-    e.preventDefault();
-    setIsDraggingOver(false);
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      handleFileChange(e.dataTransfer.files[0]);
+
+  const handleImageInput = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      addLayer(await createImageLayer(file, imageWidth, imageHeight));
+    } catch (err) {
+      console.error('Failed to add the image layer.', err);
     }
   };
 
-  const handleApply = () => {
-    if (complementImage && prompt.trim()) {
-      onApplyCompose(complementImage, prompt);
-    }
+  const updateLayer = (id: string, changes: Partial<ComposeLayer>) => {
+    onLayersChange(prev => prev.map(layer => layer.id === id ? { ...layer, ...changes } as ComposeLayer : layer));
+  };
+
+  // Moves a layer one step up or down the stack; the list shows the top layer first
+  const moveLayer = (id: string, direction: 1 | -1) => {
+    onLayersChange(prev => {
+      const index = prev.findIndex(layer => layer.id === id);
+      const target = index + direction;
+      if (index < 0 || target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
   };
 
+  const removeLayer = (id: string) => {
+    onLayersChange(prev => prev.filter(layer => layer.id !== id));
+    if (selectedLayerId === id) onSelectLayer(null);
+  };
+
+  const hasVisibleLayers = layers.some(layer => layer.visible);
+
   return (
     <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-6 flex flex-col gap-5 animate-fade-in backdrop-blur-sm">
-      <h3 className="text-lg font-semibold text-center text-gray-300">Compose Images</h3>
-      <p className="text-sm text-gray-400 text-center -mt-2">Upload a second image, click a point on your main image, and describe how to combine them.</p>
-      
-      <div className="flex flex-col md:flex-row gap-6">
-        <div className="flex-1">
-          <label htmlFor="complement-upload" className="block text-sm font-medium text-gray-400 mb-2">Complement Image</label>
-          {complementImageUrl ? (
-            <div className="relative group">
-              <img src={complementImageUrl} alt="Complement preview" className="w-full h-48 object-contain rounded-lg bg-black/20" />
-              <div 
-                className="absolute inset-0 bg-black/60 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity cursor-pointer rounded-lg"
-                onClick={() => document.getElementById('complement-upload')?.click()}
+      <h3 className="text-lg font-semibold text-center text-gray-300">Compose Layers</h3>
+      <p className="text-sm text-gray-400 text-center -mt-2">Stack images, text and shapes over the photo. Drag on the image to move, use the corners to scale and the top knob to rotate.</p>
+
+      <div className="grid grid-cols-4 gap-2">
+        <button
+          onClick={() => document.getElementById('layer-image-upload')?.click()}
+          disabled={isLoading}
+          className="flex items-center justify-center gap-1.5 bg-white/10 border border-white/20 text-gray-200 font-semibold py-2 px-2 rounded-md transition-all hover:bg-white/20 active:scale-95 text-sm disabled:opacity-50"
+        >
+          <UploadIcon className="w-4 h-4" />
+          Image
+        </button>
+        <input id="layer-image-upload" type="file" className="hidden" accept="image/*" onChange={handleImageInput} />
+        <button onClick={() => addLayer(createTextLayer(imageWidth, imageHeight))} disabled={isLoading} className="bg-white/10 border border-white/20 text-gray-200 font-semibold py-2 px-2 rounded-md transition-all hover:bg-white/20 active:scale-95 text-sm disabled:opacity-50">Text</button>
+        <button onClick={() => addLayer(createShapeLayer('rectangle', imageWidth, imageHeight))} disabled={isLoading} className="bg-white/10 border border-white/20 text-gray-200 font-semibold py-2 px-2 rounded-md transition-all hover:bg-white/20 active:scale-95 text-sm disabled:opacity-50">Rectangle</button>
+        <button onClick={() => addLayer(createShapeLayer('ellipse', imageWidth, imageHeight))} disabled={isLoading} className="bg-white/10 border border-white/20 text-gray-200 font-semibold py-2 px-2 rounded-md transition-all hover:bg-white/20 active:scale-95 text-sm disabled:opacity-50">Ellipse</button>
+      </div>
+
+      <ul className="flex flex-col gap-1">
+        {[...layers].reverse().map((layer, i) => (
+          <li
+            key={layer.id}
+            onClick={() => onSelectLayer(layer.id)}
+            className={`flex items-center gap-2 px-2 py-1.5 rounded-md cursor-pointer transition-colors ${layer.id === selectedLayerId ? 'bg-blue-600/30 border border-blue-500/60' : 'bg-gray-900/40 border border-transparent hover:bg-white/5'}`}
+          >
+            <button
+              onClick={(e) => { e.stopPropagation(); updateLayer(layer.id, { visible: !layer.visible }); }}
+              aria-label={layer.visible ? 'Hide layer' : 'Show layer'}
+              className={`p-1 rounded hover:bg-white/10 ${layer.visible ? 'text-gray-200' : 'text-gray-600'}`}
+            >
+              <EyeIcon className="w-4 h-4" />
+            </button>
+            <span className="flex-grow truncate text-sm text-gray-200">{layer.name}</span>
+            <span className="text-xs text-gray-500">{LAYER_TYPE_LABELS[layer.type]}</span>
+            <button onClick={(e) => { e.stopPropagation(); moveLayer(layer.id, 1); }} disabled={i === 0} aria-label="Move layer up" className="p-1 rounded text-gray-400 hover:bg-white/10 disabled:opacity-30">
+              <ChevronUpIcon className="w-4 h-4" />
+            </button>
+            <button onClick={(e) => { e.stopPropagation(); moveLayer(layer.id, -1); }} disabled={i === layers.length - 1} aria-label="Move layer down" className="p-1 rounded text-gray-400 hover:bg-white/10 disabled:opacity-30">
+              <ChevronDownIcon className="w-4 h-4" />
+            </button>
+            <button onClick={(e) => { e.stopPropagation(); removeLayer(layer.id); }} aria-label="Delete layer" className="px-1.5 rounded text-gray-400 hover:bg-red-500/20 hover:text-red-300">×</button>
+          </li>
+        ))}
+        <li className="flex items-center gap-2 px-2 py-1.5 rounded-md bg-gray-900/40 text-sm text-gray-400">
+          <span className="w-6" />
+          <span className="flex-grow">Base image</span>
+          <span className="text-xs text-gray-500">Locked</span>
+        </li>
+      </ul>
+
+      {selected && (
+        <div className="flex flex-col gap-4 p-4 bg-gray-900/40 rounded-lg animate-fade-in">
+          <div className="grid grid-cols-2 gap-3">
+            <label className="flex flex-col gap-1 text-xs font-medium text-gray-400">
+              Blend
+              <select
+                value={selected.blendMode}
+                onChange={(e) => updateLayer(selected.id, { blendMode: e.target.value as BlendMode })}
+                disabled={isLoading}
+                className={inputClassName}
               >
-                <span className="text-white font-semibold">Change Image</span>
+                {BLEND_MODES.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-xs font-medium text-gray-400">
+              Scale (%)
+              <input
+                type="number"
+                min={1}
+                value={Math.round(selected.scale * 100)}
+                onChange={(e) => { const value = parseFloat(e.target.value); if (value > 0) updateLayer(selected.id, { scale: value / 100 }); }}
+                disabled={isLoading}
+                className={inputClassName}
+              />
+            </label>
+          </div>
+          <div>
+            <div className="flex justify-between items-center mb-1">
+              <label htmlFor="layer-opacity" className="text-xs font-medium text-gray-400">Opacity</label>
+              <span className="text-xs font-mono text-gray-300">{Math.round(selected.opacity * 100)}%</span>
+            </div>
+            <input
+              id="layer-opacity"
+              type="range"
+              min={0}
+              max={100}
+              value={Math.round(selected.opacity * 100)}
+              onChange={(e) => updateLayer(selected.id, { opacity: parseInt(e.target.value, 10) / 100 })}
+              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer range-lg accent-blue-500 disabled:opacity-50"
+              disabled={isLoading}
+            />
+          </div>
+          <div>
+            <div className="flex justify-between items-center mb-1">
+              <label htmlFor="layer-rotation" className="text-xs font-medium text-gray-400">Rotation</label>
+              <span className="text-xs font-mono text-gray-300">{Math.round(selected.rotation)}°</span>
+            </div>
+            <input
+              id="layer-rotation"
+              type="range"
+              min={-180}
+              max={180}
+              value={Math.round(selected.rotation)}
+              onChange={(e) => updateLayer(selected.id, { rotation: parseInt(e.target.value, 10) })}
+              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer range-lg accent-blue-500 disabled:opacity-50"
+              disabled={isLoading}
+            />
+          </div>
+
+          {selected.type === 'text' && (
+            <div className="flex flex-col gap-3">
+              <textarea
+                rows={2}
+                value={selected.text}
+                onChange={(e) => updateLayer(selected.id, { text: e.target.value })}
+                disabled={isLoading}
+                className={inputClassName}
+              />
+              <div className="flex items-end gap-3">
+                <label className="flex-1 flex flex-col gap-1 text-xs font-medium text-gray-400">
+                  Font
+                  <select value={selected.fontFamily} onChange={(e) => updateLayer(selected.id, { fontFamily: e.target.value })} disabled={isLoading} className={inputClassName}>
+                    {FONT_FAMILIES.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+                  </select>
+                </label>
+                <label className="w-20 flex flex-col gap-1 text-xs font-medium text-gray-400">
+                  Size
+                  <input
+                    type="number"
+                    min={4}
+                    value={selected.fontSize}
+                    onChange={(e) => { const value = parseInt(e.target.value, 10); if (value > 0) updateLayer(selected.id, { fontSize: value }); }}
+                    disabled={isLoading}
+                    className={inputClassName}
+                  />
+                </label>
+                <input type="color" value={selected.color} onChange={(e) => updateLayer(selected.id, { color: e.target.value })} disabled={isLoading} className={colorClassName} aria-label="Text color" />
+                <button
+                  onClick={() => updateLayer(selected.id, { bold: !selected.bold })}
+                  disabled={isLoading}
+                  aria-pressed={selected.bold}
+                  className={`w-9 h-9 rounded-md font-bold transition-colors ${selected.bold ? 'bg-blue-600 text-white' : 'bg-white/10 text-gray-300 hover:bg-white/20'}`}
+                >
+                  B
+                </button>
               </div>
             </div>
-          ) : (
-            <div
-              onDrop={handleDrop}
-              onDragOver={(e) => { e.preventDefault(); setIsDraggingOver(true); }}
-              onDragLeave={() => setIsDraggingOver(false)}
-              className={`relative block w-full h-48 rounded-lg border-2 ${isDraggingOver ? 'border-blue-400' : 'border-dashed border-gray-600'} p-12 text-center hover:border-gray-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500`}
-            >
-              <UploadIcon className="mx-auto h-12 w-12 text-gray-500" />
-              <span className="mt-2 block text-sm font-medium text-gray-400">
-                Drag & drop a file or <button onClick={() => document.getElementById('complement-upload')?.click()} className="font-semibold text-blue-400 hover:text-blue-300">click to upload</button>
-              </span>
+          )}
+
+          {selected.type === 'shape' && (
+            <div className="grid grid-cols-2 gap-3">
+              {(['width', 'height'] as const).map(side => (
+                <label key={side} className="flex flex-col gap-1 text-xs font-medium text-gray-400 capitalize">
+                  {side} (px)
+                  <input
+                    type="number"
+                    min={1}
+                    value={selected[side]}
+                    onChange={(e) => { const value = parseInt(e.target.value, 10); if (value > 0) updateLayer(selected.id, { [side]: value }); }}
+                    disabled={isLoading}
+                    className={inputClassName}
+                  />
+                </label>
+              ))}
+              <label className="flex items-center gap-2 text-xs font-medium text-gray-400">
+                <input type="color" value={selected.fill} onChange={(e) => updateLayer(selected.id, { fill: e.target.value })} disabled={isLoading} className={colorClassName} />
+                Fill
+              </label>
+              <div className="flex items-center gap-2 text-xs font-medium text-gray-400">
+                <input type="color" value={selected.stroke} onChange={(e) => updateLayer(selected.id, { stroke: e.target.value })} disabled={isLoading} className={colorClassName} aria-label="Outline color" />
+                <input
+                  type="number"
+                  min={0}
+                  value={selected.strokeWidth}
+                  onChange={(e) => { const value = parseInt(e.target.value, 10); if (value >= 0) updateLayer(selected.id, { strokeWidth: value }); }}
+                  disabled={isLoading}
+                  className={inputClassName}
+                  aria-label="Outline width"
+                />
+                Outline
+              </div>
+            </div>
+          )}
+
+          {selected.type === 'image' && (
+            <div className="flex flex-col gap-3">
+              <button
+                onClick={() => onHarmonizeLayer(selected.id)}
+                disabled={isLoading || !selected.visible}
+                title="Relight this layer to match the scene; only its own pixels change and it stays editable"
+                className="w-full bg-white/10 border border-white/20 text-gray-200 font-semibold py-2.5 px-4 rounded-md transition-all hover:bg-white/20 active:scale-95 text-sm disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+              >
+                <MagicWandIcon className="w-4 h-4" />
+                Harmonize Lighting
+              </button>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={mergePrompt}
+                  onChange={(e) => setMergePrompt(e.target.value)}
+                  placeholder="e.g., 'standing on the table, facing left'"
+                  disabled={isLoading}
+                  className={inputClassName}
+                />
+                <button
+                  onClick={() => onMergeLayerWithAi(selected.id, mergePrompt.trim())}
+                  disabled={isLoading || !mergePrompt.trim()}
+                  title="Let the model redraw this layer into the scene at its position; the result goes into history"
+                  className="flex-shrink-0 bg-white/10 border border-white/20 text-gray-200 font-semibold px-3 rounded-md transition-all hover:bg-white/20 active:scale-95 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Merge with AI
+                </button>
+              </div>
             </div>
           )}
-          <input id="complement-upload" type="file" className="hidden" accept="image/*" onChange={handleFileInputChange} />
-        </div>
-        
-        <div className="flex-1 flex flex-col gap-2">
-           <div className="flex justify-between items-center">
-              <label htmlFor="compose-prompt" className="block text-sm font-medium text-gray-400">Instructions</label>
-              {hotspot && (
-                  <span className="text-xs font-mono text-blue-300 bg-blue-500/10 px-2 py-1 rounded-full animate-fade-in">
-                      Pinpoint: ({hotspot.x}, {hotspot.y})
-                  </span>
-              )}
-          </div>
-          <textarea
-            id="compose-prompt"
-            rows={4}
-            value={prompt}
-            onChange={(e) => setPrompt(e.target.value)}
-            placeholder={hotspot ? "e.g., 'place the cat here, facing left'" : "First click a point on the main image"}
-            className="flex-grow bg-gray-800 border border-gray-600 text-gray-200 rounded-lg p-4 focus:ring-2 focus:ring-blue-500 focus:outline-none transition w-full disabled:cursor-not-allowed disabled:opacity-60 text-base"
-            disabled={isLoading || !complementImage}
-          />
         </div>
-      </div>
+      )}
 
       <button
-        onClick={handleApply}
-        disabled={isLoading || !complementImage || !prompt.trim()}
+        onClick={onFlattenLayers}
+        disabled={isLoading || !hasVisibleLayers}
         className="w-full mt-2 bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-gray-600 disabled:to-gray-500 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none flex items-center justify-center gap-2"
       >
         <LayersIcon className="w-5 h-5" />
-        Compose Images
+        Flatten Layers
       </button>
     </div>
   );
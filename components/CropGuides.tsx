@@ -0,0 +1,25 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { GUIDE_LINES, type CropGuide } from '../services/crop';
+
+// Draws rule-of-thirds or golden-ratio lines inside the crop selection
+const CropGuides: React.FC<{ guide: CropGuide }> = ({ guide }) => {
+  if (guide === 'none') return null;
+  const lines = GUIDE_LINES[guide];
+  return (
+    <div className="absolute inset-0 pointer-events-none">
+      {lines.map(position => (
+        <React.Fragment key={position}>
+          <div className="absolute top-0 bottom-0 w-px bg-white/60" style={{ left: `${position * 100}%` }} />
+          <div className="absolute left-0 right-0 h-px bg-white/60" style={{ top: `${position * 100}%` }} />
+        </React.Fragment>
+      ))}
+    </div>
+  );
+};
+
+export default CropGuides;
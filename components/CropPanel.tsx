@@ -3,61 +3,210 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { CROP_RATIOS, clampRect, type CropGuide, type CropRect } from '../services/crop';
+import { formatAspect } from '../services/recipes';
 
 interface CropPanelProps {
   onApplyCrop: () => void;
+  aspect: number | undefined;
   onSetAspect: (aspect: number | undefined) => void;
+  // The selection in source pixels, or null when nothing is selected
+  cropRect: CropRect | null;
+  onCropRectChange: (rect: CropRect | null) => void;
+  guide: CropGuide;
+  onGuideChange: (guide: CropGuide) => void;
+  imageWidth: number;
+  imageHeight: number;
   isLoading: boolean;
-  isCropping: boolean;
 }
 
-type AspectRatio = 'free' | '1:1' | '16:9';
+const GUIDES: { value: CropGuide, label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'thirds', label: 'Thirds' },
+  { value: 'golden', label: 'Golden' },
+];
 
-const CropPanel: React.FC<CropPanelProps> = ({ onApplyCrop, onSetAspect, isLoading, isCropping }) => {
-  const [activeAspect, setActiveAspect] = useState<AspectRatio>('free');
-  
-  const handleAspectChange = (aspect: AspectRatio, value: number | undefined) => {
-    setActiveAspect(aspect);
+const inputClassName = 'w-full bg-gray-800 border border-gray-600 text-gray-200 rounded-md px-2 py-1.5 text-sm font-mono focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:opacity-60';
+
+// A pixel value that is only committed on blur or Enter, so typing isn't fought by clamping
+const PixelField: React.FC<{ label: string, value: number | undefined, onCommit: (value: number) => void, disabled: boolean }> = ({ label, value, onCommit, disabled }) => {
+  const [text, setText] = useState(value === undefined ? '' : String(value));
+  useEffect(() => setText(value === undefined ? '' : String(value)), [value]);
+
+  const commit = () => {
+    const parsed = Math.round(Number(text));
+    if (text.trim() !== '' && Number.isFinite(parsed)) onCommit(parsed);
+    else setText(value === undefined ? '' : String(value));
+  };
+
+  return (
+    <label className="flex flex-col gap-1 text-xs font-medium text-gray-400">
+      {label}
+      <input
+        type="number"
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => { if (e.key === 'Enter') commit(); }}
+        disabled={disabled}
+        className={inputClassName}
+      />
+    </label>
+  );
+};
+
+const CropPanel: React.FC<CropPanelProps> = ({
+  onApplyCrop,
+  aspect,
+  onSetAspect,
+  cropRect,
+  onCropRectChange,
+  guide,
+  onGuideChange,
+  imageWidth,
+  imageHeight,
+  isLoading,
+}) => {
+  const [isCustom, setIsCustom] = useState(false);
+  const [customWidth, setCustomWidth] = useState('5');
+  const [customHeight, setCustomHeight] = useState('7');
+
+  const matchesAspect = (value: number | undefined) =>
+    value === undefined ? aspect === undefined : aspect !== undefined && Math.abs(value - aspect) < 1e-6;
+
+  const handlePresetClick = (value: number | undefined) => {
+    setIsCustom(false);
     onSetAspect(value);
-  }
+  };
 
-  const aspects: { name: AspectRatio, value: number | undefined }[] = [
-    { name: 'free', value: undefined },
-    { name: '1:1', value: 1 / 1 },
-    { name: '16:9', value: 16 / 9 },
-  ];
+  const applyCustomRatio = (widthText: string, heightText: string) => {
+    const w = Number(widthText);
+    const h = Number(heightText);
+    if (w > 0 && h > 0) onSetAspect(w / h);
+  };
+
+  const updateRect = (changes: Partial<CropRect>) => {
+    const base = cropRect ?? { x: 0, y: 0, width: imageWidth, height: imageHeight };
+    // With a locked ratio, typing a height means solving for the width
+    const next = aspect && changes.height !== undefined && changes.width === undefined
+      ? { ...base, ...changes, width: changes.height * aspect }
+      : { ...base, ...changes };
+    onCropRectChange(clampRect(next, imageWidth, imageHeight, aspect));
+  };
 
   return (
-    <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-6 flex flex-col items-center gap-5 animate-fade-in backdrop-blur-sm">
-      <h3 className="text-lg font-semibold text-gray-300">Crop Image</h3>
-      <p className="text-sm text-gray-400 -mt-2">Click and drag on the image to select a crop area.</p>
-      
-      <div className="flex items-center gap-2">
-        <span className="text-sm font-medium text-gray-400">Aspect Ratio:</span>
-        {aspects.map(({ name, value }) => (
+    <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-6 flex flex-col gap-5 animate-fade-in backdrop-blur-sm">
+      <div className="text-center">
+        <h3 className="text-lg font-semibold text-gray-300">Crop Image</h3>
+        <p className="text-sm text-gray-400">Drag on the image or enter the area in pixels.</p>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <div className="flex justify-between items-center">
+          <span className="text-sm font-medium text-gray-400">Aspect Ratio</span>
+          {aspect !== undefined && (
+            <button
+              onClick={() => onSetAspect(1 / aspect)}
+              disabled={isLoading || Math.abs(aspect - 1) < 1e-6}
+              title="Switch between portrait and landscape"
+              className="text-xs text-gray-400 hover:text-white bg-white/5 hover:bg-white/10 rounded px-2 py-1 disabled:opacity-40"
+            >
+              {formatAspect(aspect)} ⇄ {formatAspect(1 / aspect)}
+            </button>
+          )}
+        </div>
+        <div className="grid grid-cols-4 gap-2">
+          {CROP_RATIOS.map(({ label, value, hint }) => (
+            <button
+              key={label}
+              onClick={() => handlePresetClick(value)}
+              disabled={isLoading}
+              title={hint}
+              className={`px-2 py-2 rounded-md text-sm font-semibold transition-all duration-200 active:scale-95 disabled:opacity-50 ${
+                !isCustom && matchesAspect(value)
+                ? 'bg-gradient-to-br from-blue-600 to-blue-500 text-white shadow-md shadow-blue-500/20'
+                : 'bg-white/10 hover:bg-white/20 text-gray-200'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
           <button
-            key={name}
-            onClick={() => handleAspectChange(name, value)}
+            onClick={() => { setIsCustom(true); applyCustomRatio(customWidth, customHeight); }}
             disabled={isLoading}
-            className={`px-4 py-2 rounded-md text-base font-semibold transition-all duration-200 active:scale-95 disabled:opacity-50 ${
-              activeAspect === name 
-              ? 'bg-gradient-to-br from-blue-600 to-blue-500 text-white shadow-md shadow-blue-500/20' 
-              : 'bg-white/10 hover:bg-white/20 text-gray-200'
+            className={`col-span-2 px-2 py-2 rounded-md text-sm font-semibold transition-all duration-200 active:scale-95 disabled:opacity-50 ${
+              isCustom ? 'bg-gradient-to-br from-blue-600 to-blue-500 text-white shadow-md shadow-blue-500/20' : 'bg-white/10 hover:bg-white/20 text-gray-200'
             }`}
           >
-            {name}
+            Custom
           </button>
-        ))}
+        </div>
+        {isCustom && (
+          <div className="flex items-center gap-2 text-sm text-gray-400 animate-fade-in">
+            <input
+              type="number"
+              min={0.1}
+              step="any"
+              value={customWidth}
+              onChange={(e) => { setCustomWidth(e.target.value); applyCustomRatio(e.target.value, customHeight); }}
+              aria-label="Ratio width"
+              disabled={isLoading}
+              className={inputClassName}
+            />
+            :
+            <input
+              type="number"
+              min={0.1}
+              step="any"
+              value={customHeight}
+              onChange={(e) => { setCustomHeight(e.target.value); applyCustomRatio(customWidth, e.target.value); }}
+              aria-label="Ratio height"
+              disabled={isLoading}
+              className={inputClassName}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-4 gap-2">
+        <PixelField label="X" value={cropRect?.x} onCommit={x => updateRect({ x })} disabled={isLoading} />
+        <PixelField label="Y" value={cropRect?.y} onCommit={y => updateRect({ y })} disabled={isLoading} />
+        <PixelField label="Width" value={cropRect?.width} onCommit={width => updateRect({ width })} disabled={isLoading} />
+        <PixelField label="Height" value={cropRect?.height} onCommit={height => updateRect({ height })} disabled={isLoading} />
+      </div>
+
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-sm font-medium text-gray-400">Guides</span>
+        <div className="p-1 bg-gray-900/50 rounded-lg flex gap-1">
+          {GUIDES.map(({ value, label }) => (
+            <button
+              key={value}
+              onClick={() => onGuideChange(value)}
+              className={`px-3 py-1 rounded-md text-xs font-semibold transition-all ${guide === value ? 'bg-blue-600 text-white shadow' : 'text-gray-300 hover:bg-white/10'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
       </div>
 
-      <button
-        onClick={onApplyCrop}
-        disabled={isLoading || !isCropping}
-        className="w-full max-w-xs mt-2 bg-gradient-to-br from-green-600 to-green-500 text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-green-500/20 hover:shadow-xl hover:shadow-green-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-green-800 disabled:to-green-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
-      >
-        Apply Crop
-      </button>
+      <div className="flex gap-2">
+        <button
+          onClick={() => onCropRectChange(null)}
+          disabled={isLoading || !cropRect}
+          className="flex-1 bg-white/10 text-gray-200 font-semibold py-4 px-4 rounded-lg transition-all hover:bg-white/20 active:scale-95 text-base disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Clear
+        </button>
+        <button
+          onClick={onApplyCrop}
+          disabled={isLoading || !cropRect}
+          className="flex-[2] bg-gradient-to-br from-green-600 to-green-500 text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-green-500/20 hover:shadow-xl hover:shadow-green-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-green-800 disabled:to-green-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
+        >
+          {cropRect ? `Apply Crop (${cropRect.width}×${cropRect.height})` : 'Apply Crop'}
+        </button>
+      </div>
     </div>
   );
 };
@@ -0,0 +1,174 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useRef, useState } from 'react';
+import type { CurveChannel, CurvePoint, CurveSet } from '../types';
+import { buildHistogramPath, type Histogram } from '../services/histogram';
+import { buildCurveLut, IDENTITY_CURVE } from '../services/pixelPipeline';
+
+interface CurvesEditorProps {
+  curves: CurveSet;
+  onChange: (curves: CurveSet) => void;
+  histogram: Histogram | null;
+  disabled: boolean;
+}
+
+const CHANNELS: { channel: CurveChannel, label: string, stroke: string, fill: string }[] = [
+  { channel: 'rgb', label: 'RGB', stroke: '#e5e7eb', fill: 'rgba(156, 163, 175, 0.35)' },
+  { channel: 'red', label: 'Red', stroke: '#f87171', fill: 'rgba(239, 68, 68, 0.3)' },
+  { channel: 'green', label: 'Green', stroke: '#4ade80', fill: 'rgba(34, 197, 94, 0.3)' },
+  { channel: 'blue', label: 'Blue', stroke: '#60a5fa', fill: 'rgba(59, 130, 246, 0.3)' },
+];
+
+// Distance (in curve units) within which a click grabs an existing point
+const HIT_RADIUS = 10;
+// Dragging a point this far outside the graph removes it
+const REMOVE_DISTANCE = 24;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const CurvesEditor: React.FC<CurvesEditorProps> = ({ curves, onChange, histogram, disabled }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [channel, setChannel] = useState<CurveChannel>('rgb');
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [isOutside, setIsOutside] = useState(false);
+
+  const points = curves[channel];
+  const channelStyle = CHANNELS.find(c => c.channel === channel)!;
+
+  const curvePath = useMemo(() => {
+    const lut = buildCurveLut(points);
+    let path = `M0,${255 - lut[0]}`;
+    for (let x = 1; x < 256; x++) path += ` L${x},${255 - lut[x]}`;
+    return path;
+  }, [points]);
+
+  const histogramPath = useMemo(() => {
+    if (!histogram) return '';
+    const counts = channel === 'rgb' ? histogram.luminance : histogram[channel];
+    return buildHistogramPath(counts);
+  }, [histogram, channel]);
+
+  const setPoints = (next: CurvePoint[]) => onChange({ ...curves, [channel]: next });
+
+  // Converts a pointer position to curve coordinates (0-255, y pointing up), unclamped
+  const toCurveCoords = (e: React.PointerEvent): CurvePoint => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * 255,
+      y: 255 - ((e.clientY - rect.top) / rect.height) * 255,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (disabled) return;
+    const pos = toCurveCoords(e);
+    let index = points.findIndex(p => Math.hypot(p.x - pos.x, p.y - pos.y) <= HIT_RADIUS);
+    if (index === -1) {
+      const x = Math.round(clamp(pos.x, 0, 255));
+      if (points.some(p => p.x === x)) return;
+      const next = [...points, { x, y: Math.round(clamp(pos.y, 0, 255)) }].sort((a, b) => a.x - b.x);
+      index = next.findIndex(p => p.x === x);
+      setPoints(next);
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragIndex(index);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (dragIndex === null) return;
+    const pos = toCurveCoords(e);
+    const isEndpoint = dragIndex === 0 || dragIndex === points.length - 1;
+    const outside = pos.x < -REMOVE_DISTANCE || pos.x > 255 + REMOVE_DISTANCE || pos.y < -REMOVE_DISTANCE || pos.y > 255 + REMOVE_DISTANCE;
+    setIsOutside(!isEndpoint && points.length > 2 && outside);
+
+    // Keep points strictly ordered so the curve stays a function of x
+    const minX = dragIndex > 0 ? points[dragIndex - 1].x + 1 : 0;
+    const maxX = dragIndex < points.length - 1 ? points[dragIndex + 1].x - 1 : 255;
+    const next = [...points];
+    next[dragIndex] = {
+      x: Math.round(clamp(pos.x, minX, maxX)),
+      y: Math.round(clamp(pos.y, 0, 255)),
+    };
+    setPoints(next);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (dragIndex === null) return;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    if (isOutside) setPoints(points.filter((_, i) => i !== dragIndex));
+    setDragIndex(null);
+    setIsOutside(false);
+  };
+
+  const handleDoubleClick = (index: number) => {
+    if (disabled || index === 0 || index === points.length - 1) return;
+    setPoints(points.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="p-1 bg-gray-900/50 rounded-lg flex w-full">
+        {CHANNELS.map(c => (
+          <button
+            key={c.channel}
+            onClick={() => setChannel(c.channel)}
+            disabled={disabled}
+            className={`flex-1 py-1.5 px-3 rounded-md text-sm font-semibold transition-all duration-200 disabled:opacity-50 ${channel === c.channel ? 'bg-blue-600 text-white shadow' : 'text-gray-300 hover:bg-white/10'}`}
+          >
+            {c.label}
+          </button>
+        ))}
+      </div>
+
+      <svg
+        ref={svgRef}
+        viewBox="0 0 255 255"
+        preserveAspectRatio="none"
+        className={`w-full aspect-square max-w-sm mx-auto bg-gray-900/70 rounded-md border border-gray-700 touch-none select-none ${disabled ? 'opacity-50' : 'cursor-crosshair'}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+      >
+        {histogramPath && <path d={histogramPath} fill={channelStyle.fill} />}
+        {[64, 128, 192].map(v => (
+          <g key={v} stroke="rgba(255,255,255,0.08)" strokeWidth={1}>
+            <line x1={v} y1={0} x2={v} y2={255} vectorEffect="non-scaling-stroke" />
+            <line x1={0} y1={v} x2={255} y2={v} vectorEffect="non-scaling-stroke" />
+          </g>
+        ))}
+        <line x1={0} y1={255} x2={255} y2={0} stroke="rgba(255,255,255,0.15)" strokeDasharray="4 4" vectorEffect="non-scaling-stroke" />
+        <path d={curvePath} fill="none" stroke={channelStyle.stroke} strokeWidth={2} vectorEffect="non-scaling-stroke" />
+        {points.map((p, i) => (
+          <circle
+            key={i}
+            cx={p.x}
+            cy={255 - p.y}
+            r={5}
+            fill={dragIndex === i ? channelStyle.stroke : '#111827'}
+            stroke={channelStyle.stroke}
+            strokeWidth={2}
+            opacity={dragIndex === i && isOutside ? 0.3 : 1}
+            vectorEffect="non-scaling-stroke"
+            onDoubleClick={() => handleDoubleClick(i)}
+          />
+        ))}
+      </svg>
+
+      <div className="flex items-center justify-between text-xs text-gray-400 max-w-sm w-full mx-auto">
+        <span>Click to add a point. Double-click or drag out to remove.</span>
+        <button
+          onClick={() => setPoints([...IDENTITY_CURVE])}
+          disabled={disabled}
+          className="text-gray-300 hover:text-white underline underline-offset-2 disabled:opacity-50"
+        >
+          Reset {channelStyle.label}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CurvesEditor;
@@ -3,17 +3,33 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { DownloadIcon } from './icons';
+import {
+  EXPORT_FORMATS, FILENAME_TOKENS, buildFilename, isFormatSupported, loadExportOptions, renderExport, saveExportOptions,
+  type ExportOptions,
+} from '../services/exportImage';
+import { formatBytes } from '../services/download';
 
 interface DownloadModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onConfirm: () => void;
+  onConfirm: (options: ExportOptions) => void;
+  // The image the size estimate and file name preview are computed from
+  previewFile: File | null;
+  previewName: string;
+  // How many images the export covers; more than one are delivered as a zip
+  imageCount: number;
 }
 
-const DownloadModal: React.FC<DownloadModalProps> = ({ isOpen, onClose, onConfirm }) => {
+// How long the settings must stay unchanged before the preview is re-encoded
+const ESTIMATE_DELAY = 300;
+
+const DownloadModal: React.FC<DownloadModalProps> = ({ isOpen, onClose, onConfirm, previewFile, previewName, imageCount }) => {
   const modalRef = useRef<HTMLDivElement>(null);
+  const [options, setOptions] = useState<ExportOptions>(loadExportOptions);
+  const [estimate, setEstimate] = useState<{ size: number, width: number, height: number } | null>(null);
+  const [isEstimating, setIsEstimating] = useState(false);
 
   useEffect(() => {
     const handleEsc = (event: KeyboardEvent) => {
@@ -29,36 +45,195 @@ const DownloadModal: React.FC<DownloadModalProps> = ({ isOpen, onClose, onConfir
     };
   }, [isOpen, onClose]);
 
+  // Encodes the preview image with the chosen settings to report its real size
+  useEffect(() => {
+    if (!isOpen || !previewFile) return;
+    let isCancelled = false;
+    setIsEstimating(true);
+    const timer = setTimeout(() => {
+      renderExport(previewFile, options)
+        .then(({ blob, width, height }) => {
+          if (!isCancelled) setEstimate({ size: blob.size, width, height });
+        })
+        .catch(err => {
+          console.error('Failed to estimate export size.', err);
+          if (!isCancelled) setEstimate(null);
+        })
+        .finally(() => {
+          if (!isCancelled) setIsEstimating(false);
+        });
+    }, ESTIMATE_DELAY);
+    return () => {
+      isCancelled = true;
+      clearTimeout(timer);
+    };
+  }, [isOpen, previewFile, options]);
+
   const handleClickOutside = (event: React.MouseEvent<HTMLDivElement, MouseEvent>) => {
     if (modalRef.current && !modalRef.current.contains(event.target as Node)) {
       onClose();
     }
   };
-  
+
   const handleConfirmClick = () => {
-      onConfirm();
+      saveExportOptions(options);
+      onConfirm(options);
   };
 
+  const update = (changes: Partial<ExportOptions>) => setOptions(prev => ({ ...prev, ...changes }));
+
   if (!isOpen) return null;
 
+  const isLossy = options.format !== 'png';
+  const exampleName = buildFilename(options.filenameTemplate, {
+    name: previewName,
+    index: 1,
+    width: estimate?.width ?? 0,
+    height: estimate?.height ?? 0,
+  }, options.format);
+
   return (
-    <div 
+    <div
         className="fixed inset-0 bg-black/70 z-50 flex items-center justify-center animate-fade-in"
         onClick={handleClickOutside}
         aria-modal="true"
         role="dialog"
     >
-      <div 
-        ref={modalRef} 
-        className="bg-gray-800 border border-gray-700 rounded-xl shadow-2xl p-6 w-full max-w-md flex flex-col gap-6"
+      <div
+        ref={modalRef}
+        className="bg-gray-800 border border-gray-700 rounded-xl shadow-2xl p-6 w-full max-w-md flex flex-col gap-5"
       >
-        <h2 className="text-2xl font-bold text-gray-100 text-center">Download Image</h2>
+        <h2 className="text-2xl font-bold text-gray-100 text-center">
+          {imageCount > 1 ? `Download ${imageCount} Images` : 'Download Image'}
+        </h2>
+
+        <div className="flex flex-col gap-2">
+            <label className="text-sm font-medium text-gray-400">Format</label>
+            <div className="p-1 bg-gray-900/50 rounded-lg grid grid-cols-4 gap-1">
+                {EXPORT_FORMATS.map(({ format, label }) => {
+                    const supported = isFormatSupported(format);
+                    return (
+                        <button
+                            key={format}
+                            onClick={() => update({ format })}
+                            disabled={!supported}
+                            title={supported ? undefined : `This browser can't encode ${label}`}
+                            className={`py-2 rounded-md text-sm font-semibold transition-all duration-200 disabled:opacity-40 disabled:cursor-not-allowed ${options.format === format ? 'bg-blue-600 text-white shadow' : 'text-gray-300 hover:bg-white/10'}`}
+                        >
+                            {label}
+                        </button>
+                    );
+                })}
+            </div>
+        </div>
+
+        {isLossy && (
+            <div className="flex flex-col gap-2">
+                <div className="flex justify-between items-center">
+                    <label className="text-sm font-medium text-gray-400">Quality</label>
+                    <span className="text-sm font-mono bg-gray-900/50 text-gray-200 px-2 py-1 rounded-md">{Math.round(options.quality * 100)}</span>
+                </div>
+                <input
+                    type="range"
+                    min={10}
+                    max={100}
+                    value={Math.round(options.quality * 100)}
+                    onChange={(e) => update({ quality: parseInt(e.target.value, 10) / 100 })}
+                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer range-lg accent-blue-500"
+                />
+            </div>
+        )}
+
+        {options.format === 'jpeg' && (
+            <div className="flex flex-col gap-2">
+                <label className="flex items-center gap-2 text-sm font-medium text-gray-400">
+                    <input
+                        type="checkbox"
+                        checked={options.includeMetadata}
+                        onChange={(e) => update({ includeMetadata: e.target.checked })}
+                        className="accent-blue-500"
+                    />
+                    Embed metadata (camera, title, author, copyright)
+                </label>
+                <label className={`flex items-center gap-2 text-sm font-medium text-gray-400 pl-6 ${options.includeMetadata ? '' : 'opacity-50'}`}>
+                    <input
+                        type="checkbox"
+                        checked={options.stripLocation}
+                        onChange={(e) => update({ stripLocation: e.target.checked })}
+                        disabled={!options.includeMetadata}
+                        className="accent-blue-500"
+                    />
+                    Remove GPS location
+                </label>
+            </div>
+        )}
+
+        <div className="flex flex-col gap-2">
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-400">
+                <input
+                    type="checkbox"
+                    checked={options.maxDimension !== null}
+                    onChange={(e) => update({ maxDimension: e.target.checked ? 2048 : null })}
+                    className="accent-blue-500"
+                />
+                Limit longest edge
+            </label>
+            {options.maxDimension !== null && (
+                <div className="flex items-center gap-2">
+                    <input
+                        type="number"
+                        min={16}
+                        value={options.maxDimension}
+                        onChange={(e) => {
+                            const value = parseInt(e.target.value, 10);
+                            if (value > 0) update({ maxDimension: value });
+                        }}
+                        className="w-28 bg-gray-900 border border-gray-600 text-gray-200 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                    />
+                    <span className="text-sm text-gray-400">px</span>
+                    {[1080, 2048, 4096].map(size => (
+                        <button
+                            key={size}
+                            onClick={() => update({ maxDimension: size })}
+                            className="text-xs text-gray-400 hover:text-white bg-white/5 hover:bg-white/10 rounded px-2 py-1"
+                        >
+                            {size}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+
+        <div className="flex flex-col gap-2">
+            <label className="text-sm font-medium text-gray-400">File name</label>
+            <input
+                type="text"
+                value={options.filenameTemplate}
+                onChange={(e) => update({ filenameTemplate: e.target.value })}
+                className="bg-gray-900 border border-gray-600 text-gray-200 rounded-md px-3 py-2 text-sm font-mono focus:ring-2 focus:ring-blue-500 focus:outline-none"
+            />
+            <p className="text-xs text-gray-500">
+                {FILENAME_TOKENS.map(({ token, description }) => (
+                    <span key={token} className="mr-2" title={description}>
+                        <button onClick={() => update({ filenameTemplate: options.filenameTemplate + token })} className="font-mono text-gray-400 hover:text-white">{token}</button>
+                    </span>
+                ))}
+            </p>
+        </div>
 
-        <div className="text-center p-4 bg-gray-900/50 rounded-lg">
-            <p className="text-sm text-gray-400">Your image will be downloaded as a PNG file for the best quality.</p>
+        <div className="p-3 bg-gray-900/50 rounded-lg text-sm flex flex-col gap-1">
+            <p className="text-gray-300 font-mono truncate" title={exampleName}>{exampleName}</p>
+            <p className="text-gray-400">
+                {isEstimating || !estimate
+                    ? 'Estimating size...'
+                    : <>
+                        {estimate.width}×{estimate.height} · {formatBytes(estimate.size)}
+                        {imageCount > 1 && ` for this image, about ${formatBytes(estimate.size * imageCount)} in total`}
+                      </>}
+            </p>
         </div>
 
-        <div className="flex items-center justify-end gap-3 pt-4">
+        <div className="flex items-center justify-end gap-3">
             <button
                 onClick={onClose}
                 className="text-center bg-white/10 border border-white/20 text-gray-200 font-semibold py-3 px-5 rounded-md transition-all duration-200 ease-in-out hover:bg-white/20 hover:border-white/30 active:scale-95 text-base"
@@ -78,4 +253,4 @@ const DownloadModal: React.FC<DownloadModalProps> = ({ isOpen, onClose, onConfir
   );
 };
 
-export default DownloadModal;
\ No newline at end of file
+export default DownloadModal;
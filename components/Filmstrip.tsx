@@ -6,15 +6,9 @@
 import React, { useEffect, useState, memo } from 'react';
 import Spinner from './Spinner';
 import { ChevronDownIcon, ChevronUpIcon } from './icons';
-
-type ImageState = {
-  id: string;
-  history: File[];
-  historyIndex: number;
-  isProcessing: boolean;
-  error: string | null;
-  name: string;
-};
+import type { ImageState } from '../types';
+import { getCurrentEntry } from '../services/history';
+import type { JobProgress } from '../services/jobQueue';
 
 interface FilmstripProps {
   images: ImageState[];
@@ -22,11 +16,13 @@ interface FilmstripProps {
   onSelect: (index: number) => void;
   isVisible: boolean;
   onToggleVisibility: () => void;
+  // Batch progress per image id, for images that are part of the running batch
+  jobs?: Record<string, JobProgress>;
 }
 
-const Thumbnail: React.FC<{ imageState: ImageState, isActive: boolean, onClick: () => void }> = memo(({ imageState, isActive, onClick }) => {
+const Thumbnail: React.FC<{ imageState: ImageState, job?: JobProgress, isActive: boolean, onClick: () => void }> = memo(({ imageState, job, isActive, onClick }) => {
     const [objectUrl, setObjectUrl] = useState<string | null>(null);
-    const lastImageFile = imageState.history[imageState.historyIndex];
+    const lastImageFile = getCurrentEntry(imageState).file;
 
     useEffect(() => {
         let url: string | null = null;
@@ -51,11 +47,23 @@ const Thumbnail: React.FC<{ imageState: ImageState, isActive: boolean, onClick:
         >
             {objectUrl && <img src={objectUrl} alt={imageState.name} className="w-full h-full object-cover" />}
             
+             {job?.status === 'queued' && (
+                <div className="absolute inset-0 bg-black/50 flex items-center justify-center text-white animate-fade-in">
+                    <p className="text-xs font-semibold">Queued</p>
+                </div>
+            )}
+
              {imageState.isProcessing && (
                 <div className="absolute inset-0 bg-black/70 flex items-center justify-center text-white animate-fade-in">
                     <Spinner />
                 </div>
             )}
+
+            {job?.status === 'running' && (
+                <div className="absolute bottom-0 left-0 right-0 h-1 bg-gray-700/80">
+                    <div className="h-full bg-blue-500 transition-all duration-500" style={{ width: `${Math.round(job.progress * 100)}%` }} />
+                </div>
+            )}
             
             {imageState.error && (
                 <div className="absolute inset-0 bg-red-900/80 flex items-center justify-center text-center text-white animate-fade-in">
@@ -67,7 +75,7 @@ const Thumbnail: React.FC<{ imageState: ImageState, isActive: boolean, onClick:
 });
 
 
-const Filmstrip: React.FC<FilmstripProps> = ({ images, currentIndex, onSelect, isVisible, onToggleVisibility }) => {
+const Filmstrip: React.FC<FilmstripProps> = ({ images, currentIndex, onSelect, isVisible, onToggleVisibility, jobs }) => {
   return (
     <div className={`fixed bottom-0 left-0 right-0 z-30 transition-transform duration-300 ease-in-out ${isVisible ? 'translate-y-0' : 'translate-y-full'}`}>
         <div className="absolute -top-8 right-4">
@@ -87,6 +95,7 @@ const Filmstrip: React.FC<FilmstripProps> = ({ images, currentIndex, onSelect, i
                         <Thumbnail
                             key={image.id}
                             imageState={image}
+                            job={jobs?.[image.id]}
                             isActive={index === currentIndex}
                             onClick={() => onSelect(index)}
                         />
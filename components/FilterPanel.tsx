@@ -5,15 +5,18 @@
 
 import React, { useState } from 'react';
 import { CollectionIcon } from './icons';
+import PresetLibrary from './PresetLibrary';
 
 interface FilterPanelProps {
   onApplyFilter: (prompt: string) => void;
   onApplyToAll?: (prompt: string) => void;
   isLoading: boolean;
   batchMode: boolean;
+  // The image shown in the editor, used for preset thumbnails
+  currentImage: File | null;
 }
 
-const FilterPanel: React.FC<FilterPanelProps> = ({ onApplyFilter, onApplyToAll, isLoading, batchMode }) => {
+const FilterPanel: React.FC<FilterPanelProps> = ({ onApplyFilter, onApplyToAll, isLoading, batchMode, currentImage }) => {
   const [selectedPresetPrompt, setSelectedPresetPrompt] = useState<string | null>(null);
   const [customPrompt, setCustomPrompt] = useState('');
 
@@ -77,6 +80,15 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ onApplyFilter, onApplyToAll,
         className="flex-grow bg-gray-800 border border-gray-600 text-gray-200 rounded-lg p-4 focus:ring-2 focus:ring-blue-500 focus:outline-none transition w-full disabled:cursor-not-allowed disabled:opacity-60 text-base"
         disabled={isLoading}
       />
+
+      <PresetLibrary
+        kind="filter"
+        activePrompt={activePrompt}
+        currentImage={currentImage}
+        selectedPrompt={selectedPresetPrompt}
+        onSelect={handlePresetClick}
+        isLoading={isLoading}
+      />
       
       {activePrompt && (
         <div className="animate-fade-in flex flex-col sm:flex-row gap-3 pt-2">
@@ -0,0 +1,117 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useState } from 'react';
+import { ChevronDownIcon, ChevronUpIcon } from './icons';
+import { buildHistogramPath, type Histogram, type ImageStats } from '../services/histogram';
+
+interface HistogramPanelProps {
+  histogram: Histogram | null;
+  stats: ImageStats | null;
+  showHighlightClipping: boolean;
+  onToggleHighlightClipping: () => void;
+  showShadowClipping: boolean;
+  onToggleShadowClipping: () => void;
+}
+
+const formatPercent = (value: number) => `${value < 0.1 && value > 0 ? '<0.1' : value.toFixed(1)}%`;
+
+const ClippingToggle: React.FC<{ label: string, value: number, active: boolean, onToggle: () => void, activeClass: string }> = ({ label, value, active, onToggle, activeClass }) => (
+    <button
+        onClick={onToggle}
+        className={`flex-1 flex items-center justify-between gap-2 px-2 py-1.5 rounded-md text-xs font-semibold transition-colors ${active ? activeClass : 'bg-white/5 text-gray-300 hover:bg-white/10'}`}
+        title={`Highlight ${label.toLowerCase()} on the image`}
+        aria-pressed={active}
+    >
+        <span>{label}</span>
+        <span className="font-mono">{formatPercent(value)}</span>
+    </button>
+);
+
+const HistogramPanel: React.FC<HistogramPanelProps> = ({
+  histogram,
+  stats,
+  showHighlightClipping,
+  onToggleHighlightClipping,
+  showShadowClipping,
+  onToggleShadowClipping,
+}) => {
+  const [isExpanded, setIsExpanded] = useState(true);
+
+  const paths = useMemo(() => histogram && {
+    luminance: buildHistogramPath(histogram.luminance),
+    red: buildHistogramPath(histogram.red),
+    green: buildHistogramPath(histogram.green),
+    blue: buildHistogramPath(histogram.blue),
+  }, [histogram]);
+
+  return (
+    <div
+      className="absolute bottom-4 right-4 z-20 w-72 bg-gray-900/80 border border-gray-700/80 rounded-lg backdrop-blur-sm animate-fade-in"
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <button
+        onClick={() => setIsExpanded(prev => !prev)}
+        className="w-full flex items-center justify-between px-3 py-2 text-sm font-semibold text-gray-200"
+        aria-expanded={isExpanded}
+      >
+        Histogram
+        {isExpanded ? <ChevronDownIcon className="w-4 h-4" /> : <ChevronUpIcon className="w-4 h-4" />}
+      </button>
+
+      {isExpanded && (
+        <div className="px-3 pb-3 flex flex-col gap-3">
+          <svg viewBox="0 0 255 255" preserveAspectRatio="none" className="w-full h-24 bg-black/30 rounded">
+            {paths && (
+              <>
+                <path d={paths.luminance} fill="rgba(209, 213, 219, 0.35)" />
+                <g style={{ mixBlendMode: 'screen' }}>
+                  <path d={paths.red} fill="rgba(239, 68, 68, 0.45)" />
+                  <path d={paths.green} fill="rgba(34, 197, 94, 0.45)" />
+                  <path d={paths.blue} fill="rgba(59, 130, 246, 0.45)" />
+                </g>
+              </>
+            )}
+          </svg>
+
+          {stats ? (
+            <>
+              <div className="grid grid-cols-2 gap-x-3 gap-y-1 text-xs text-gray-400">
+                <span>Dimensions</span>
+                <span className="text-right font-mono text-gray-200">{stats.width} × {stats.height}</span>
+                <span>Mean luma</span>
+                <span className="text-right font-mono text-gray-200">{stats.mean.luminance.toFixed(1)}</span>
+                <span>Mean RGB</span>
+                <span className="text-right font-mono text-gray-200">
+                  {Math.round(stats.mean.red)} / {Math.round(stats.mean.green)} / {Math.round(stats.mean.blue)}
+                </span>
+              </div>
+
+              <div className="flex gap-2">
+                <ClippingToggle label="Shadows" value={stats.shadowClipping} active={showShadowClipping} onToggle={onToggleShadowClipping} activeClass="bg-blue-600 text-white" />
+                <ClippingToggle label="Highlights" value={stats.highlightClipping} active={showHighlightClipping} onToggle={onToggleHighlightClipping} activeClass="bg-red-600 text-white" />
+              </div>
+
+              <div className="flex h-5 rounded overflow-hidden" title="Dominant colors">
+                {stats.dominantColors.map(({ color, share }) => (
+                  <div
+                    key={color}
+                    className="h-full"
+                    style={{ backgroundColor: color, flexGrow: share }}
+                    title={`${color} (${formatPercent(share)})`}
+                  />
+                ))}
+              </div>
+            </>
+          ) : (
+            <p className="text-xs text-gray-500 text-center">Analysing image...</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistogramPanel;
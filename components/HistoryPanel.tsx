@@ -0,0 +1,225 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useMemo, useState, memo } from 'react';
+import type { HistoryEntry, ImageState } from '../types';
+import { createThumbnail } from '../services/imageUtils';
+import { describeEntry, formatDuration, getActiveBranch, getChildren } from '../services/history';
+
+interface HistoryPanelProps {
+  image: ImageState;
+  onJump: (entryId: string) => void;
+  onLabel: (entryId: string, label: string) => void;
+  onCompare: (entryIds: [string, string]) => void;
+  isLoading: boolean;
+}
+
+type HistoryView = 'branch' | 'tree';
+
+// Thumbnails are small JPEGs, cached per file so scrolling the list stays cheap
+const thumbnailCache = new WeakMap<File, string>();
+
+const EntryThumbnail: React.FC<{ file: File, className: string }> = memo(({ file, className }) => {
+  const [thumbnail, setThumbnail] = useState<string | null>(() => thumbnailCache.get(file) ?? null);
+
+  useEffect(() => {
+    const cached = thumbnailCache.get(file);
+    if (cached) {
+      setThumbnail(cached);
+      return;
+    }
+    let isCancelled = false;
+    createThumbnail(file, 96).then(url => {
+      thumbnailCache.set(file, url);
+      if (!isCancelled) setThumbnail(url);
+    }).catch(err => console.error('Failed to create history thumbnail.', err));
+    return () => { isCancelled = true; };
+  }, [file]);
+
+  return thumbnail
+    ? <img src={thumbnail} alt="" className={`${className} object-cover rounded flex-shrink-0`} />
+    : <div className={`${className} bg-gray-700 rounded flex-shrink-0 animate-pulse`} />;
+});
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString(undefined, { timeStyle: 'short' });
+
+// Flattens the history tree depth-first so it can be drawn as an indented list
+const flattenTree = (image: ImageState): { entry: HistoryEntry, depth: number }[] => {
+  const rows: { entry: HistoryEntry, depth: number }[] = [];
+  const visit = (entry: HistoryEntry, depth: number) => {
+    rows.push({ entry, depth });
+    getChildren(image, entry.id).forEach(child => visit(child, depth + 1));
+  };
+  image.history.filter(entry => entry.parentId === null).forEach(root => visit(root, 0));
+  return rows;
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ image, onJump, onLabel, onCompare, isLoading }) => {
+  const [view, setView] = useState<HistoryView>('branch');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftLabel, setDraftLabel] = useState('');
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  const activeBranch = useMemo(() => getActiveBranch(image), [image]);
+  const activeBranchIds = useMemo(() => new Set(activeBranch.map(entry => entry.id)), [activeBranch]);
+  const treeRows = useMemo(() => flattenTree(image), [image]);
+  const currentPosition = activeBranch.findIndex(entry => entry.id === image.currentEntryId);
+  const branchCount = image.history.filter(entry => getChildren(image, entry.id).length === 0).length;
+
+  // Forget compare selections that no longer exist, e.g. after switching images
+  useEffect(() => {
+    setCompareIds(ids => ids.filter(id => image.history.some(entry => entry.id === id)));
+  }, [image.history]);
+
+  const startEditing = (entry: HistoryEntry) => {
+    setEditingId(entry.id);
+    setDraftLabel(entry.label ?? '');
+  };
+
+  const commitLabel = () => {
+    if (editingId !== null) onLabel(editingId, draftLabel.trim());
+    setEditingId(null);
+  };
+
+  const toggleCompare = (entryId: string) => {
+    setCompareIds(ids => ids.includes(entryId)
+      ? ids.filter(id => id !== entryId)
+      : [...ids, entryId].slice(-2));
+  };
+
+  const renderTitle = (entry: HistoryEntry, prefix: string) => editingId === entry.id ? (
+    <input
+      autoFocus
+      type="text"
+      value={draftLabel}
+      onChange={(e) => setDraftLabel(e.target.value)}
+      onBlur={commitLabel}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commitLabel();
+        if (e.key === 'Escape') setEditingId(null);
+      }}
+      placeholder="Label this step"
+      className="bg-gray-900 border border-gray-600 text-gray-200 rounded px-2 py-0.5 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+    />
+  ) : (
+    <button
+      onClick={() => onJump(entry.id)}
+      disabled={isLoading}
+      className="text-left font-semibold text-gray-200 truncate disabled:cursor-not-allowed"
+    >
+      {prefix}{describeEntry(entry)}
+    </button>
+  );
+
+  const renderActions = (entry: HistoryEntry) => (
+    <div className="flex gap-3 text-xs">
+      <button onClick={() => startEditing(entry)} disabled={isLoading} className="text-gray-400 hover:text-white disabled:opacity-50">
+        {entry.label ? 'Rename' : 'Label'}
+      </button>
+      <label className="flex items-center gap-1 text-gray-400 hover:text-white cursor-pointer">
+        <input
+          type="checkbox"
+          checked={compareIds.includes(entry.id)}
+          onChange={() => toggleCompare(entry.id)}
+          className="accent-blue-500"
+        />
+        Compare
+      </label>
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col gap-3 animate-fade-in">
+      <div className="p-1 bg-gray-900/50 rounded-lg flex w-full">
+        {(['branch', 'tree'] as HistoryView[]).map(v => (
+          <button
+            key={v}
+            onClick={() => setView(v)}
+            className={`flex-1 py-1.5 px-3 rounded-md text-sm font-semibold transition-all duration-200 ${view === v ? 'bg-blue-600 text-white shadow' : 'text-gray-300 hover:bg-white/10'}`}
+          >
+            {v === 'branch' ? 'Current Branch' : `All Branches (${branchCount})`}
+          </button>
+        ))}
+      </div>
+
+      {compareIds.length === 2 ? (
+        <button
+          onClick={() => onCompare([compareIds[0], compareIds[1]])}
+          className="w-full bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-2 px-4 rounded-lg transition-all hover:-translate-y-px active:scale-95 text-sm"
+        >
+          Compare Side by Side
+        </button>
+      ) : (
+        <p className="text-sm text-center text-gray-400">
+          {view === 'branch'
+            ? 'Click a step to return to it. Editing from an earlier step starts a new branch.'
+            : 'Every version ever made. Click any step to switch to its branch.'}
+        </p>
+      )}
+
+      {view === 'branch' ? (
+        <ol className="flex flex-col gap-2">
+          {activeBranch.map((entry, index) => {
+            const { operation } = entry;
+            const isCurrent = entry.id === image.currentEntryId;
+            const isRedoState = index > currentPosition;
+            const siblingCount = entry.parentId ? getChildren(image, entry.parentId).length : 1;
+            return (
+              <li
+                key={entry.id}
+                className={`flex gap-3 p-2 rounded-md border transition-colors ${isCurrent ? 'bg-blue-500/20 border-blue-500' : 'bg-gray-800/60 border-gray-700/50 hover:border-gray-500'} ${isRedoState ? 'opacity-60' : ''}`}
+              >
+                <button onClick={() => onJump(entry.id)} disabled={isLoading} className="flex-shrink-0 disabled:cursor-not-allowed" aria-label={`Go to step ${index + 1}`}>
+                  <EntryThumbnail file={entry.file} className="w-16 h-16" />
+                </button>
+                <div className="flex-grow min-w-0 flex flex-col gap-1">
+                  {renderTitle(entry, `${index + 1}. `)}
+                  {operation.prompt && (
+                    <p className="text-xs text-gray-400 line-clamp-2" title={operation.prompt}>"{operation.prompt}"</p>
+                  )}
+                  <p className="text-xs text-gray-500">
+                    {formatTime(entry.timestamp)}
+                    {operation.durationMs !== undefined && ` · ${formatDuration(operation.durationMs)}`}
+                    {operation.model && ` · ${operation.model}`}
+                    {siblingCount > 1 && ` · ${siblingCount} alternatives`}
+                  </p>
+                  {renderActions(entry)}
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      ) : (
+        <ul className="flex flex-col gap-1">
+          {treeRows.map(({ entry, depth }) => {
+            const isCurrent = entry.id === image.currentEntryId;
+            const isOnActiveBranch = activeBranchIds.has(entry.id);
+            return (
+              <li
+                key={entry.id}
+                style={{ marginLeft: `${depth * 12}px` }}
+                className={`flex gap-2 p-1.5 rounded-md border-l-2 transition-colors ${isCurrent ? 'bg-blue-500/20 border-blue-500' : isOnActiveBranch ? 'bg-gray-800/60 border-blue-500/50' : 'bg-gray-800/30 border-gray-700 hover:bg-gray-800/60'}`}
+              >
+                <button onClick={() => onJump(entry.id)} disabled={isLoading} className="flex-shrink-0 disabled:cursor-not-allowed" aria-label={`Go to ${describeEntry(entry)}`}>
+                  <EntryThumbnail file={entry.file} className="w-10 h-10" />
+                </button>
+                <div className="flex-grow min-w-0 flex flex-col">
+                  {renderTitle(entry, '')}
+                  <p className="text-xs text-gray-500 truncate" title={entry.operation.prompt}>
+                    {formatTime(entry.timestamp)}
+                    {entry.operation.prompt && ` · "${entry.operation.prompt}"`}
+                  </p>
+                  {renderActions(entry)}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
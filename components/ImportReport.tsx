@@ -0,0 +1,31 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import type { ImportFailure } from '../services/imageImport';
+
+interface ImportReportProps {
+  failures: ImportFailure[];
+  onDismiss: () => void;
+}
+
+// Lists the files a batch upload skipped, without blocking the images that did load
+const ImportReport: React.FC<ImportReportProps> = ({ failures, onDismiss }) => (
+  <div className="fixed top-4 right-4 z-40 w-full max-w-sm bg-gray-800 border border-red-500/30 rounded-lg shadow-2xl p-4 flex flex-col gap-2 animate-fade-in" role="alert">
+    <div className="flex items-center justify-between gap-3">
+      <h3 className="text-sm font-bold text-red-300">
+        {failures.length} file{failures.length === 1 ? '' : 's'} could not be imported
+      </h3>
+      <button onClick={onDismiss} className="text-gray-400 hover:text-white text-lg leading-none" aria-label="Dismiss">&times;</button>
+    </div>
+    <ul className="flex flex-col gap-1 max-h-48 overflow-y-auto text-xs">
+      {failures.map(({ fileName, message }, index) => (
+        <li key={`${fileName}-${index}`} className="text-gray-300 break-words">{message}</li>
+      ))}
+    </ul>
+  </div>
+);
+
+export default ImportReport;
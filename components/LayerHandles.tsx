@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useRef } from 'react';
+import type { ComposeLayer, LayerTransform } from '../types';
+import { getLayerSize, hitTestLayers } from '../services/layerRender';
+
+interface LayerHandlesProps {
+  layers: ComposeLayer[];
+  selectedLayerId: string | null;
+  // The natural size of the base image, which layer positions are measured in
+  imageWidth: number;
+  imageHeight: number;
+  onSelectLayer: (id: string | null) => void;
+  onTransformLayer: (id: string, transform: Partial<LayerTransform>) => void;
+  disabled: boolean;
+}
+
+type DragMode = 'move' | 'scale' | 'rotate';
+
+// Rotation snaps to these steps while Shift is held
+const ROTATION_SNAP = 15;
+const MIN_SCALE = 0.02;
+
+const CORNERS = [
+  { key: 'nw', className: '-left-1.5 -top-1.5 cursor-nwse-resize' },
+  { key: 'ne', className: '-right-1.5 -top-1.5 cursor-nesw-resize' },
+  { key: 'sw', className: '-left-1.5 -bottom-1.5 cursor-nesw-resize' },
+  { key: 'se', className: '-right-1.5 -bottom-1.5 cursor-nwse-resize' },
+];
+
+// Lets layers be picked and dragged on the viewport: the body moves, corners scale and the top knob rotates
+const LayerHandles: React.FC<LayerHandlesProps> = ({ layers, selectedLayerId, imageWidth, imageHeight, onSelectLayer, onTransformLayer, disabled }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const drag = useRef<{ mode: DragMode, id: string, start: { x: number, y: number }, layer: ComposeLayer } | null>(null);
+
+  // Converts a pointer position into base image pixels, accounting for the viewport's zoom and pan
+  const toImagePoint = (e: React.PointerEvent) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * imageWidth,
+      y: ((e.clientY - rect.top) / rect.height) * imageHeight,
+    };
+  };
+
+  const startDrag = (e: React.PointerEvent, mode: DragMode, layer: ComposeLayer) => {
+    e.stopPropagation();
+    containerRef.current?.setPointerCapture(e.pointerId);
+    drag.current = { mode, id: layer.id, start: toImagePoint(e), layer };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (disabled || e.button !== 0) return;
+    const point = toImagePoint(e);
+    const hit = hitTestLayers(layers, point.x, point.y);
+    onSelectLayer(hit?.id ?? null);
+    if (hit) startDrag(e, 'move', hit);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const current = drag.current;
+    if (!current) return;
+    const { mode, id, start, layer } = current;
+    const point = toImagePoint(e);
+
+    if (mode === 'move') {
+      onTransformLayer(id, { x: layer.x + point.x - start.x, y: layer.y + point.y - start.y });
+    } else if (mode === 'scale') {
+      const startDistance = Math.hypot(start.x - layer.x, start.y - layer.y);
+      const distance = Math.hypot(point.x - layer.x, point.y - layer.y);
+      if (startDistance > 0) onTransformLayer(id, { scale: Math.max(MIN_SCALE, layer.scale * (distance / startDistance)) });
+    } else {
+      const turned = Math.atan2(point.y - layer.y, point.x - layer.x) - Math.atan2(start.y - layer.y, start.x - layer.x);
+      let rotation = layer.rotation + (turned * 180) / Math.PI;
+      if (e.shiftKey) rotation = Math.round(rotation / ROTATION_SNAP) * ROTATION_SNAP;
+      onTransformLayer(id, { rotation: ((rotation % 360) + 540) % 360 - 180 });
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (!drag.current) return;
+    containerRef.current?.releasePointerCapture(e.pointerId);
+    drag.current = null;
+  };
+
+  const selected = layers.find(layer => layer.id === selectedLayerId && layer.visible);
+  const box = selected && (() => {
+    const { width, height } = getLayerSize(selected);
+    const scaledWidth = width * selected.scale;
+    const scaledHeight = height * selected.scale;
+    return {
+      left: `${((selected.x - scaledWidth / 2) / imageWidth) * 100}%`,
+      top: `${((selected.y - scaledHeight / 2) / imageHeight) * 100}%`,
+      width: `${(scaledWidth / imageWidth) * 100}%`,
+      height: `${(scaledHeight / imageHeight) * 100}%`,
+      transform: `rotate(${selected.rotation}deg)`,
+    };
+  })();
+
+  return (
+    <div
+      ref={containerRef}
+      className="absolute inset-0 touch-none"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      {selected && box && (
+        <div className="absolute border-2 border-blue-400 cursor-move" style={box}>
+          <div className="absolute left-1/2 -top-8 h-6 border-l-2 border-blue-400 pointer-events-none" />
+          <div
+            className="absolute left-1/2 -top-10 -ml-2 w-4 h-4 rounded-full bg-white border-2 border-blue-500 cursor-grab"
+            onPointerDown={(e) => !disabled && startDrag(e, 'rotate', selected)}
+            title="Drag to rotate; hold Shift to snap"
+          />
+          {CORNERS.map(({ key, className }) => (
+            <div
+              key={key}
+              className={`absolute w-3 h-3 bg-white border-2 border-blue-500 ${className}`}
+              onPointerDown={(e) => !disabled && startDrag(e, 'scale', selected)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LayerHandles;
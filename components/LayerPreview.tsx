@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import type { ComposeLayer } from '../types';
+import { drawComposite } from '../services/layerRender';
+
+interface LayerPreviewProps {
+  base: File;
+  layers: ComposeLayer[];
+  // Longest edge of the preview; keeps dragging smooth on large images
+  maxDimension?: number;
+}
+
+// Draws the base image with the compose layers over it, the same way flattening will
+const LayerPreview: React.FC<LayerPreviewProps> = ({ base, layers, maxDimension = 1600 }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [baseImage, setBaseImage] = useState<ImageBitmap | null>(null);
+  // Decoded layer images, kept by the blob so moving a layer doesn't decode it again
+  const decoded = useRef(new WeakMap<Blob, ImageBitmap>());
+  const [images, setImages] = useState<Map<string, ImageBitmap>>(new Map());
+
+  useEffect(() => {
+    let isCancelled = false;
+    let bitmap: ImageBitmap | null = null;
+    setBaseImage(null);
+    createImageBitmap(base).then(result => {
+      bitmap = result;
+      if (isCancelled) result.close();
+      else setBaseImage(result);
+    }).catch(err => console.error('Failed to prepare layer preview.', err));
+    return () => {
+      isCancelled = true;
+      bitmap?.close();
+    };
+  }, [base]);
+
+  useEffect(() => {
+    let isCancelled = false;
+    const imageLayers = layers.filter(layer => layer.type === 'image');
+    Promise.all(imageLayers.map(async layer => {
+      let bitmap = decoded.current.get(layer.image);
+      if (!bitmap) {
+        bitmap = await createImageBitmap(layer.image);
+        decoded.current.set(layer.image, bitmap);
+      }
+      return [layer.id, bitmap] as const;
+    })).then(entries => {
+      if (!isCancelled) setImages(new Map(entries));
+    }).catch(err => console.error('Failed to decode layer images.', err));
+    return () => { isCancelled = true; };
+  }, [layers]);
+
+  // Re-render on the next frame whenever a layer changes
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !baseImage) return;
+    const frame = requestAnimationFrame(() => {
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      const ratio = Math.min(1, maxDimension / Math.max(baseImage.width, baseImage.height));
+      canvas.width = Math.max(1, Math.round(baseImage.width * ratio));
+      canvas.height = Math.max(1, Math.round(baseImage.height * ratio));
+      ctx.scale(ratio, ratio);
+      drawComposite(ctx, baseImage, layers, images);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [baseImage, layers, images, maxDimension]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className={`absolute inset-0 w-full h-full pointer-events-none ${baseImage ? '' : 'hidden'}`}
+    />
+  );
+};
+
+export default LayerPreview;
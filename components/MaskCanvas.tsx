@@ -0,0 +1,227 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useRef, useEffect, forwardRef, useImperativeHandle } from 'react';
+import type { MaskTool, MaskMode } from '../types';
+
+export interface MaskCanvasHandle {
+  clear: () => void;
+  invert: () => void;
+  exportMask: () => Promise<File | null>;
+}
+
+interface MaskCanvasProps {
+  width: number;
+  height: number;
+  tool: MaskTool;
+  mode: MaskMode;
+  brushSize: number;
+  disabled: boolean;
+  onMaskChange: (hasMask: boolean) => void;
+}
+
+const MASK_COLOR = 'rgb(59, 130, 246)';
+
+// Converts a pointer event into coordinates on a canvas, accounting for CSS scaling and transforms.
+const toCanvasPoint = (canvas: HTMLCanvasElement, e: React.PointerEvent) => {
+  const rect = canvas.getBoundingClientRect();
+  return {
+    x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+    y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+  };
+};
+
+const MaskCanvas = forwardRef<MaskCanvasHandle, MaskCanvasProps>(({ width, height, tool, mode, brushSize, disabled, onMaskChange }, ref) => {
+  // The mask canvas holds the committed selection; the preview canvas shows lasso/rectangle outlines while dragging.
+  const maskRef = useRef<HTMLCanvasElement>(null);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const isDrawing = useRef(false);
+  const points = useRef<{ x: number, y: number }[]>([]);
+
+  useEffect(() => {
+    onMaskChange(false);
+  }, [width, height, onMaskChange]);
+
+  const getContext = (canvas: HTMLCanvasElement | null) => canvas?.getContext('2d') ?? null;
+
+  const hasPaintedPixels = (): boolean => {
+    const ctx = getContext(maskRef.current);
+    if (!ctx) return false;
+    const data = ctx.getImageData(0, 0, width, height).data;
+    for (let i = 3; i < data.length; i += 4) {
+      if (data[i] > 0) return true;
+    }
+    return false;
+  };
+
+  useImperativeHandle(ref, () => ({
+    clear: () => {
+      getContext(maskRef.current)?.clearRect(0, 0, width, height);
+      onMaskChange(false);
+    },
+    invert: () => {
+      const ctx = getContext(maskRef.current);
+      if (!ctx) return;
+      ctx.globalCompositeOperation = 'xor';
+      ctx.fillStyle = MASK_COLOR;
+      ctx.fillRect(0, 0, width, height);
+      ctx.globalCompositeOperation = 'source-over';
+      onMaskChange(hasPaintedPixels());
+    },
+    exportMask: async () => {
+      const mask = maskRef.current;
+      if (!mask || !hasPaintedPixels()) return null;
+
+      // Render selected pixels as pure white on a black background
+      const output = document.createElement('canvas');
+      output.width = width;
+      output.height = height;
+      const ctx = output.getContext('2d');
+      if (!ctx) return null;
+      ctx.drawImage(mask, 0, 0);
+      ctx.globalCompositeOperation = 'source-in';
+      ctx.fillStyle = '#fff';
+      ctx.fillRect(0, 0, width, height);
+      ctx.globalCompositeOperation = 'destination-over';
+      ctx.fillStyle = '#000';
+      ctx.fillRect(0, 0, width, height);
+
+      const blob = await new Promise<Blob | null>(resolve => output.toBlob(resolve, 'image/png'));
+      return blob ? new File([blob], `mask-${Date.now()}.png`, { type: 'image/png' }) : null;
+    },
+  }), [width, height, onMaskChange]);
+
+  const prepareContext = (ctx: CanvasRenderingContext2D) => {
+    ctx.globalCompositeOperation = mode === 'add' ? 'source-over' : 'destination-out';
+    ctx.fillStyle = MASK_COLOR;
+    ctx.strokeStyle = MASK_COLOR;
+  };
+
+  // Ratio of canvas pixels to on-screen pixels, so sizes given in screen pixels stay constant while zoomed.
+  const getCanvasScale = (canvas: HTMLCanvasElement) => {
+    const rect = canvas.getBoundingClientRect();
+    return rect.width > 0 ? canvas.width / rect.width : 1;
+  };
+
+  const getLineWidth = (canvas: HTMLCanvasElement) => brushSize * getCanvasScale(canvas);
+
+  const drawPreview = () => {
+    const preview = previewRef.current;
+    const ctx = getContext(preview);
+    if (!preview || !ctx) return;
+    ctx.clearRect(0, 0, width, height);
+    const pts = points.current;
+    if (pts.length < 2) return;
+
+    ctx.lineWidth = 2 * getCanvasScale(preview);
+    ctx.strokeStyle = '#fff';
+    ctx.setLineDash([8, 6]);
+    ctx.beginPath();
+    if (tool === 'rectangle') {
+      const [start, end] = [pts[0], pts[pts.length - 1]];
+      ctx.rect(start.x, start.y, end.x - start.x, end.y - start.y);
+    } else {
+      ctx.moveTo(pts[0].x, pts[0].y);
+      pts.forEach(p => ctx.lineTo(p.x, p.y));
+      ctx.closePath();
+    }
+    ctx.stroke();
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled || e.button !== 0) return;
+    const canvas = maskRef.current;
+    const ctx = getContext(canvas);
+    if (!canvas || !ctx) return;
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    isDrawing.current = true;
+    const point = toCanvasPoint(canvas, e);
+    points.current = [point];
+
+    if (tool === 'brush') {
+      prepareContext(ctx);
+      ctx.beginPath();
+      ctx.arc(point.x, point.y, getLineWidth(canvas) / 2, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isDrawing.current) return;
+    const canvas = maskRef.current;
+    const ctx = getContext(canvas);
+    if (!canvas || !ctx) return;
+
+    const point = toCanvasPoint(canvas, e);
+    const last = points.current[points.current.length - 1];
+    points.current.push(point);
+
+    if (tool === 'brush') {
+      prepareContext(ctx);
+      ctx.lineWidth = getLineWidth(canvas);
+      ctx.lineCap = 'round';
+      ctx.lineJoin = 'round';
+      ctx.beginPath();
+      ctx.moveTo(last.x, last.y);
+      ctx.lineTo(point.x, point.y);
+      ctx.stroke();
+    } else {
+      drawPreview();
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isDrawing.current) return;
+    isDrawing.current = false;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+
+    const ctx = getContext(maskRef.current);
+    const pts = points.current;
+    if (ctx && tool !== 'brush' && pts.length > 1) {
+      prepareContext(ctx);
+      ctx.beginPath();
+      if (tool === 'rectangle') {
+        const [start, end] = [pts[0], pts[pts.length - 1]];
+        ctx.rect(start.x, start.y, end.x - start.x, end.y - start.y);
+      } else {
+        ctx.moveTo(pts[0].x, pts[0].y);
+        pts.forEach(p => ctx.lineTo(p.x, p.y));
+        ctx.closePath();
+      }
+      ctx.fill();
+    }
+    if (ctx) ctx.globalCompositeOperation = 'source-over';
+
+    points.current = [];
+    getContext(previewRef.current)?.clearRect(0, 0, width, height);
+    onMaskChange(mode === 'add' ? true : hasPaintedPixels());
+  };
+
+  return (
+    <>
+      <canvas
+        ref={maskRef}
+        width={width}
+        height={height}
+        className="absolute inset-0 w-full h-full opacity-50"
+        style={{ touchAction: 'none', cursor: disabled ? 'default' : 'crosshair' }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onMouseDown={(e) => e.stopPropagation()}
+      />
+      <canvas
+        ref={previewRef}
+        width={width}
+        height={height}
+        className="absolute inset-0 w-full h-full pointer-events-none"
+      />
+    </>
+  );
+});
+
+export default MaskCanvas;
@@ -0,0 +1,155 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import type { ImageMetadata, ImageState } from '../types';
+import { EDITABLE_FIELDS, formatExposure, withoutLocation } from '../services/metadata';
+
+interface MetadataPanelProps {
+  image: ImageState;
+  onChange: (metadata: ImageMetadata | null) => void;
+  // Copies the author and copyright to every image in the batch
+  onApplyRightsToAll?: (rights: Pick<ImageMetadata, 'author' | 'copyright'>) => void;
+  isLoading: boolean;
+  batchMode: boolean;
+}
+
+type EditableKey = typeof EDITABLE_FIELDS[number]['key'];
+
+const toDraft = (metadata: ImageMetadata | null): Record<EditableKey, string> => ({
+  title: metadata?.title ?? '',
+  description: metadata?.description ?? '',
+  author: metadata?.author ?? '',
+  copyright: metadata?.copyright ?? '',
+});
+
+// EXIF dates use colons throughout, e.g. "2024:05:17 14:03:22"
+const formatDateTaken = (value: string): string => {
+  const match = value.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2})/);
+  if (!match) return value;
+  const [, year, month, day, hours, minutes] = match.map(Number);
+  return new Date(year, month - 1, day, hours, minutes).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+};
+
+const MetadataPanel: React.FC<MetadataPanelProps> = ({ image, onChange, onApplyRightsToAll, isLoading, batchMode }) => {
+  const metadata = image.metadata;
+  const [draft, setDraft] = useState(() => toDraft(metadata));
+
+  useEffect(() => {
+    setDraft(toDraft(metadata));
+  }, [metadata]);
+
+  const isDirty = EDITABLE_FIELDS.some(({ key }) => draft[key].trim() !== (metadata?.[key] ?? ''));
+
+  const handleSave = () => {
+    const updated: ImageMetadata = { ...metadata };
+    EDITABLE_FIELDS.forEach(({ key }) => {
+      const value = draft[key].trim();
+      if (value) updated[key] = value;
+      else delete updated[key];
+    });
+    onChange(Object.keys(updated).length > 0 ? updated : null);
+  };
+
+  const camera = [metadata?.make, metadata?.model].filter(Boolean).join(' ');
+  const exposure = metadata ? formatExposure(metadata) : null;
+  const location = metadata?.location;
+  const details: { label: string, value: string }[] = [
+    camera && { label: 'Camera', value: camera },
+    metadata?.lens && { label: 'Lens', value: metadata.lens },
+    metadata?.dateTaken && { label: 'Taken', value: formatDateTaken(metadata.dateTaken) },
+    exposure && { label: 'Exposure', value: exposure },
+  ].filter((detail): detail is { label: string, value: string } => !!detail);
+
+  return (
+    <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-6 flex flex-col gap-5 animate-fade-in backdrop-blur-sm">
+      <div className="text-center">
+        <h3 className="text-lg font-semibold text-gray-300">Image Metadata</h3>
+        <p className="text-sm text-gray-400 -mt-1">
+          {metadata ? 'Read from the uploaded file and kept through every edit.' : 'The uploaded file had no metadata.'}
+        </p>
+      </div>
+
+      <div className="flex flex-col gap-3">
+        {EDITABLE_FIELDS.map(({ key, label }) => (
+          <label key={key} className="flex flex-col gap-1 text-sm font-medium text-gray-400">
+            {label}
+            {key === 'description' ? (
+              <textarea
+                value={draft[key]}
+                onChange={(e) => setDraft(prev => ({ ...prev, [key]: e.target.value }))}
+                rows={3}
+                disabled={isLoading}
+                className="bg-gray-800 border border-gray-600 text-gray-200 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none transition resize-none disabled:opacity-60"
+              />
+            ) : (
+              <input
+                type="text"
+                value={draft[key]}
+                onChange={(e) => setDraft(prev => ({ ...prev, [key]: e.target.value }))}
+                placeholder={key === 'copyright' ? `© ${new Date().getFullYear()} Your Name` : undefined}
+                disabled={isLoading}
+                className="bg-gray-800 border border-gray-600 text-gray-200 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none transition disabled:opacity-60"
+              />
+            )}
+          </label>
+        ))}
+        <div className="flex gap-2">
+          <button
+            onClick={handleSave}
+            disabled={isLoading || !isDirty}
+            className="flex-1 bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-2 px-4 rounded-lg transition-all active:scale-95 text-sm disabled:from-blue-800 disabled:to-blue-700 disabled:cursor-not-allowed"
+          >
+            Save
+          </button>
+          {batchMode && onApplyRightsToAll && (
+            <button
+              onClick={() => onApplyRightsToAll({ author: draft.author.trim() || undefined, copyright: draft.copyright.trim() || undefined })}
+              disabled={isLoading || (!draft.author.trim() && !draft.copyright.trim())}
+              title="Set this author and copyright on every image"
+              className="flex-1 bg-white/10 text-gray-200 font-semibold py-2 px-4 rounded-lg transition-all hover:bg-white/20 active:scale-95 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Rights to All
+            </button>
+          )}
+        </div>
+      </div>
+
+      {details.length > 0 && (
+        <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-sm p-3 bg-gray-900/30 rounded-lg">
+          {details.map(({ label, value }) => (
+            <React.Fragment key={label}>
+              <dt className="text-gray-500">{label}</dt>
+              <dd className="text-gray-200 truncate" title={value}>{value}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+      )}
+
+      {location && metadata && (
+        <div className="flex items-center justify-between gap-3 p-3 bg-gray-900/30 rounded-lg text-sm">
+          <div className="min-w-0">
+            <p className="text-gray-500">Location</p>
+            <p className="text-gray-200 font-mono truncate">
+              {location.latitude.toFixed(5)}, {location.longitude.toFixed(5)}
+              {location.altitude !== undefined && ` · ${Math.round(location.altitude)} m`}
+            </p>
+          </div>
+          <button
+            onClick={() => onChange(withoutLocation(metadata))}
+            disabled={isLoading}
+            className="flex-shrink-0 text-xs font-semibold text-red-400 hover:text-red-300 bg-white/5 hover:bg-white/10 rounded px-3 py-2 disabled:opacity-50"
+          >
+            Remove Location
+          </button>
+        </div>
+      )}
+
+      <p className="text-xs text-center text-gray-500">Embedded into JPEG downloads, which are saved in sRGB. AI edits don't see or change these fields.</p>
+    </div>
+  );
+};
+
+export default MetadataPanel;
@@ -0,0 +1,172 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useRef, useState } from 'react';
+import type { Preset, PresetKind } from '../types';
+import { createThumbnail } from '../services/imageUtils';
+import { downloadBlob } from '../services/download';
+import { loadPresets, savePreset, deletePreset, exportPresets, importPresets, DEFAULT_CATEGORY } from '../services/presetLibrary';
+
+interface PresetLibraryProps {
+  kind: PresetKind;
+  // The prompt the panel would apply right now; this is what gets saved
+  activePrompt: string;
+  // The image the preview thumbnail is rendered from
+  currentImage: File | null;
+  selectedPrompt: string | null;
+  onSelect: (prompt: string) => void;
+  isLoading: boolean;
+}
+
+const ALL_CATEGORIES = 'All';
+
+const PresetLibrary: React.FC<PresetLibraryProps> = ({ kind, activePrompt, currentImage, selectedPrompt, onSelect, isLoading }) => {
+  const [allPresets, setAllPresets] = useState<Preset[]>(loadPresets);
+  const [category, setCategory] = useState(ALL_CATEGORIES);
+  const [presetName, setPresetName] = useState('');
+  const [presetCategory, setPresetCategory] = useState('');
+  const [notice, setNotice] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const presets = useMemo(() => allPresets.filter(p => p.kind === kind), [allPresets, kind]);
+  const categories = useMemo(() => [...new Set(presets.map(p => p.category))].sort(), [presets]);
+  const visiblePresets = category === ALL_CATEGORIES ? presets : presets.filter(p => p.category === category);
+
+  const handleSave = async () => {
+    const name = presetName.trim();
+    if (!name || !activePrompt.trim()) return;
+    // The thumbnail is best-effort; a preset without one still works
+    const thumbnail = currentImage ? await createThumbnail(currentImage, 96).catch(() => null) : null;
+    try {
+      setAllPresets(savePreset({ kind, name, prompt: activePrompt.trim(), category: presetCategory.trim() || DEFAULT_CATEGORY, thumbnail }));
+      setPresetName('');
+      setNotice(null);
+    } catch (err) {
+      console.error('Failed to save preset.', err);
+      setNotice('Could not save the preset. Browser storage may be full.');
+    }
+  };
+
+  const handleDelete = (id: string) => {
+    try {
+      setAllPresets(deletePreset(id));
+    } catch (err) {
+      console.error('Failed to delete preset.', err);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { presets: updated, count } = await importPresets(file);
+      setAllPresets(updated);
+      setNotice(`Imported ${count} preset${count === 1 ? '' : 's'}.`);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setNotice(`Failed to import presets. ${errorMessage}`);
+      console.error(err);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3 p-4 bg-gray-900/30 rounded-lg">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-gray-300">My Presets</h4>
+        <div className="flex gap-3 text-xs">
+          <button onClick={() => importInputRef.current?.click()} disabled={isLoading} className="text-gray-400 hover:text-white disabled:opacity-50">Import</button>
+          <button
+            onClick={() => downloadBlob(exportPresets(visiblePresets), `pixshop-${kind}-presets.json`)}
+            disabled={visiblePresets.length === 0}
+            className="text-gray-400 hover:text-white disabled:opacity-50"
+          >
+            Export
+          </button>
+          <input ref={importInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+        </div>
+      </div>
+
+      {categories.length > 1 && (
+        <div className="flex flex-wrap gap-2">
+          {[ALL_CATEGORIES, ...categories].map(name => (
+            <button
+              key={name}
+              onClick={() => setCategory(name)}
+              className={`text-xs font-semibold py-1 px-3 rounded-full transition-colors ${category === name ? 'bg-blue-600 text-white' : 'bg-white/10 text-gray-300 hover:bg-white/20'}`}
+            >
+              {name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {visiblePresets.length > 0 ? (
+        <div className="grid grid-cols-3 gap-2">
+          {visiblePresets.map(preset => (
+            <div key={preset.id} className="relative group">
+              <button
+                onClick={() => onSelect(preset.prompt)}
+                disabled={isLoading}
+                title={preset.prompt}
+                className={`w-full flex flex-col items-center gap-1 p-1.5 bg-white/5 rounded-md transition-all hover:bg-white/10 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed ${selectedPrompt === preset.prompt ? 'ring-2 ring-offset-2 ring-offset-gray-800 ring-blue-500' : ''}`}
+              >
+                {preset.thumbnail
+                  ? <img src={preset.thumbnail} alt="" className="w-full aspect-square object-cover rounded" />
+                  : <div className="w-full aspect-square bg-gray-700 rounded" />}
+                <span className="text-xs font-semibold text-gray-200 truncate w-full text-center">{preset.name}</span>
+              </button>
+              <button
+                onClick={() => handleDelete(preset.id)}
+                disabled={isLoading}
+                className="absolute top-0.5 right-0.5 w-5 h-5 rounded-full bg-black/70 text-gray-300 hover:text-red-400 text-xs opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                aria-label={`Delete ${preset.name}`}
+              >
+                &times;
+              </button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-center text-gray-500">Apply a look you like, then save its prompt here to reuse it.</p>
+      )}
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+          placeholder={activePrompt.trim() ? 'Name this prompt to save it' : 'Choose or type a prompt first'}
+          className="flex-grow min-w-0 bg-gray-800 border border-gray-600 text-gray-200 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none transition disabled:opacity-60"
+          disabled={isLoading || !activePrompt.trim()}
+        />
+        <input
+          type="text"
+          list={`${kind}-preset-categories`}
+          value={presetCategory}
+          onChange={(e) => setPresetCategory(e.target.value)}
+          placeholder="Category"
+          className="w-28 bg-gray-800 border border-gray-600 text-gray-200 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none transition disabled:opacity-60"
+          disabled={isLoading || !activePrompt.trim()}
+        />
+        <datalist id={`${kind}-preset-categories`}>
+          {categories.map(name => <option key={name} value={name} />)}
+        </datalist>
+        <button
+          onClick={handleSave}
+          disabled={isLoading || !presetName.trim() || !activePrompt.trim()}
+          className="bg-white/10 text-gray-200 font-semibold py-2 px-4 rounded-lg transition-all hover:bg-white/20 active:scale-95 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Save
+        </button>
+      </div>
+
+      {notice && <p className="text-xs text-gray-400">{notice}</p>}
+    </div>
+  );
+};
+
+export default PresetLibrary;
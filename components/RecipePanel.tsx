@@ -0,0 +1,429 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useRef, useState } from 'react';
+import type { ExpandAnchor, ImageState, ImageTransform, Recipe, RecipeStep } from '../types';
+import { CollectionIcon } from './icons';
+import {
+  loadRecipes, saveRecipe, deleteRecipe, createRecipeId, recordStepsFromHistory,
+  describeRecipeStep, formatAspect, exportRecipes, importRecipes,
+} from '../services/recipes';
+import { downloadBlob } from '../services/download';
+import { describeTransform, MAX_STRAIGHTEN_ANGLE } from '../services/transform';
+import { isResampleMethod, RESAMPLE_METHODS } from '../services/resample';
+import { describeAnchor, EXPAND_ANCHORS } from '../services/expand';
+
+interface RecipePanelProps {
+  image: ImageState | null;
+  onRunRecipe: (recipe: Recipe) => void;
+  onRunRecipeOnAll: (recipe: Recipe) => void;
+  isLoading: boolean;
+  batchMode: boolean;
+}
+
+// Steps that can be added by hand, with the values they start with
+const NEW_STEPS: { label: string, step: RecipeStep }[] = [
+  { label: 'Filter', step: { type: 'filter', prompt: '' } },
+  { label: 'Adjustment', step: { type: 'adjustment', prompt: '' } },
+  { label: 'Auto-Enhance', step: { type: 'auto-enhance' } },
+  { label: 'Center crop', step: { type: 'crop', aspect: 1 } },
+  { label: 'Rotate / flip', step: { type: 'transform', transform: { type: 'rotate', quarterTurns: 1 } } },
+  { label: 'Resize', step: { type: 'resize', width: 1080, height: 1080 } },
+  { label: 'Magic Expand', step: { type: 'expand', width: 1600, height: 1600, prompt: '' } },
+  { label: 'Upscale', step: { type: 'upscale', scaleFactor: 2 } },
+];
+
+const TRANSFORM_CHOICES: ImageTransform[] = [
+  { type: 'rotate', quarterTurns: 1 },
+  { type: 'rotate', quarterTurns: 2 },
+  { type: 'rotate', quarterTurns: 3 },
+  { type: 'flip', axis: 'horizontal' },
+  { type: 'flip', axis: 'vertical' },
+  { type: 'straighten', angle: 0 },
+];
+
+const inputClassName = 'bg-gray-800 border border-gray-600 text-gray-200 rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:opacity-60';
+const smallButtonClassName = 'text-gray-400 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed px-1';
+
+const parseAspect = (text: string): number | null => {
+  const ratio = text.match(/^\s*(\d+(?:\.\d+)?)\s*[:x/]\s*(\d+(?:\.\d+)?)\s*$/);
+  const value = ratio ? Number(ratio[1]) / Number(ratio[2]) : Number(text);
+  return Number.isFinite(value) && value > 0 ? value : null;
+};
+
+// The editable fields of one step; steps without settings only show their description
+const StepFields: React.FC<{ step: RecipeStep, onChange: (step: RecipeStep) => void, disabled: boolean }> = ({ step, onChange, disabled }) => {
+  const [aspectText, setAspectText] = useState(() => step.type === 'crop' ? formatAspect(step.aspect) : '');
+  const numberInput = (value: number, update: (value: number) => void, label: string) => (
+    <input
+      type="number"
+      min={1}
+      value={value}
+      onChange={(e) => { const n = Math.round(Number(e.target.value)); if (n > 0) update(n); }}
+      aria-label={label}
+      className={`${inputClassName} w-20`}
+      disabled={disabled}
+    />
+  );
+
+  switch (step.type) {
+    case 'filter':
+    case 'adjustment':
+      return (
+        <input
+          type="text"
+          value={step.prompt}
+          onChange={(e) => onChange({ ...step, prompt: e.target.value })}
+          placeholder="Describe the effect"
+          className={`${inputClassName} w-full`}
+          disabled={disabled}
+        />
+      );
+    case 'crop':
+      return (
+        <label className="flex items-center gap-2 text-xs text-gray-400">
+          Aspect
+          <input
+            type="text"
+            value={aspectText}
+            onChange={(e) => setAspectText(e.target.value)}
+            onBlur={() => {
+              const aspect = parseAspect(aspectText);
+              if (aspect) onChange({ ...step, aspect });
+              setAspectText(formatAspect(aspect ?? step.aspect));
+            }}
+            placeholder="e.g. 4:5"
+            className={`${inputClassName} w-20`}
+            disabled={disabled}
+          />
+        </label>
+      );
+    case 'transform': {
+      const { transform } = step;
+      const selected = TRANSFORM_CHOICES.findIndex(choice => choice.type === 'straighten'
+        ? transform.type === 'straighten'
+        : describeTransform(choice) === describeTransform(transform));
+      return (
+        <div className="flex items-center gap-2 text-xs text-gray-400">
+          <select
+            value={selected}
+            onChange={(e) => onChange({ ...step, transform: TRANSFORM_CHOICES[Number(e.target.value)] })}
+            className={inputClassName}
+            disabled={disabled}
+          >
+            {TRANSFORM_CHOICES.map((choice, i) => (
+              <option key={i} value={i}>{choice.type === 'straighten' ? 'Straighten' : describeTransform(choice)}</option>
+            ))}
+          </select>
+          {transform.type === 'straighten' && (
+            <>
+              <input
+                type="number"
+                min={-MAX_STRAIGHTEN_ANGLE}
+                max={MAX_STRAIGHTEN_ANGLE}
+                step={0.1}
+                value={transform.angle}
+                onChange={(e) => {
+                  const angle = Number(e.target.value);
+                  if (Math.abs(angle) <= MAX_STRAIGHTEN_ANGLE) onChange({ ...step, transform: { type: 'straighten', angle } });
+                }}
+                aria-label="Angle"
+                className={`${inputClassName} w-20`}
+                disabled={disabled}
+              />
+              °
+            </>
+          )}
+        </div>
+      );
+    }
+    case 'resize':
+      return (
+        <div className="flex items-center gap-2 text-xs text-gray-400">
+          {numberInput(step.width, width => onChange({ ...step, width }), 'Width')}
+          ×
+          {numberInput(step.height, height => onChange({ ...step, height }), 'Height')}
+          px
+          <select
+            value={step.method ?? ''}
+            onChange={(e) => onChange({ type: 'resize', width: step.width, height: step.height, ...(isResampleMethod(e.target.value) && { method: e.target.value }) })}
+            aria-label="Resampling"
+            className={inputClassName}
+            disabled={disabled}
+          >
+            <option value="">Browser default</option>
+            {RESAMPLE_METHODS.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+          </select>
+        </div>
+      );
+    case 'expand':
+      return (
+        <div className="flex flex-col gap-2">
+          <div className="flex items-center gap-2 text-xs text-gray-400">
+            {numberInput(step.width, width => onChange({ ...step, width }), 'Width')}
+            ×
+            {numberInput(step.height, height => onChange({ ...step, height }), 'Height')}
+            px
+            <select
+              value={step.anchor ?? 'center'}
+              onChange={(e) => onChange({ ...step, anchor: e.target.value as ExpandAnchor })}
+              aria-label="Anchor"
+              className={inputClassName}
+              disabled={disabled}
+            >
+              {EXPAND_ANCHORS.map(anchor => <option key={anchor} value={anchor}>{describeAnchor(anchor)}</option>)}
+            </select>
+          </div>
+          <input
+            type="text"
+            value={step.prompt}
+            onChange={(e) => onChange({ ...step, prompt: e.target.value })}
+            placeholder="What to fill the new area with (optional)"
+            className={`${inputClassName} w-full`}
+            disabled={disabled}
+          />
+        </div>
+      );
+    case 'upscale':
+      return (
+        <select
+          value={step.scaleFactor}
+          onChange={(e) => onChange({ ...step, scaleFactor: Number(e.target.value) })}
+          className={inputClassName}
+          disabled={disabled}
+        >
+          <option value={2}>2x</option>
+          <option value={4}>4x</option>
+        </select>
+      );
+    default:
+      return null;
+  }
+};
+
+const RecipePanel: React.FC<RecipePanelProps> = ({ image, onRunRecipe, onRunRecipeOnAll, isLoading, batchMode }) => {
+  const [recipes, setRecipes] = useState<Recipe[]>(loadRecipes);
+  const [recipeName, setRecipeName] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const persist = (recipe: Recipe) => {
+    try {
+      setRecipes(saveRecipe(recipe));
+    } catch (err) {
+      console.error('Failed to save recipe.', err);
+    }
+  };
+
+  const handleRecord = () => {
+    const name = recipeName.trim();
+    if (!image || !name) return;
+    const { steps, skipped } = recordStepsFromHistory(image);
+    if (steps.length === 0) {
+      setNotice('This image has no replayable steps yet. Crops, resizes, filters and adjustments can be recorded.');
+      return;
+    }
+    const recipe: Recipe = { id: createRecipeId(), name, steps };
+    persist(recipe);
+    setRecipeName('');
+    setExpandedId(recipe.id);
+    setNotice(skipped.length > 0
+      ? `Recorded ${steps.length} step${steps.length === 1 ? '' : 's'}. Skipped ${skipped.join(', ')}: they depend on a mask or second image that only this photo has.`
+      : `Recorded ${steps.length} step${steps.length === 1 ? '' : 's'}.`);
+  };
+
+  const handleDelete = (id: string) => {
+    try {
+      setRecipes(deleteRecipe(id));
+    } catch (err) {
+      console.error('Failed to delete recipe.', err);
+    }
+  };
+
+  const updateSteps = (recipe: Recipe, steps: RecipeStep[]) => persist({ ...recipe, steps });
+
+  const moveStep = (recipe: Recipe, index: number, offset: number) => {
+    const steps = [...recipe.steps];
+    const [step] = steps.splice(index, 1);
+    steps.splice(index + offset, 0, step);
+    updateSteps(recipe, steps);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = await importRecipes(file);
+      let updated = recipes;
+      imported.forEach(recipe => { updated = saveRecipe(recipe); });
+      setRecipes(updated);
+      setNotice(`Imported ${imported.length} recipe${imported.length === 1 ? '' : 's'}.`);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setNotice(`Failed to import recipes. ${errorMessage}`);
+      console.error(err);
+    }
+  };
+
+  // Steps with an empty prompt would send a meaningless request to the model
+  const isRunnable = (recipe: Recipe) => recipe.steps.length > 0 && recipe.steps.every(step =>
+    (step.type !== 'filter' && step.type !== 'adjustment') || step.prompt.trim().length > 0);
+
+  return (
+    <div className="w-full flex flex-col gap-4 animate-fade-in">
+      <p className="text-sm text-center text-gray-400">
+        Record the steps that led to the current version as a recipe, then replay it on other photos.
+      </p>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={recipeName}
+          onChange={(e) => setRecipeName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleRecord(); }}
+          placeholder="Name a recipe to record it"
+          className="flex-grow bg-gray-800 border border-gray-600 text-gray-200 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none transition w-full disabled:opacity-60"
+          disabled={isLoading || !image}
+        />
+        <button
+          onClick={handleRecord}
+          disabled={isLoading || !image || !recipeName.trim()}
+          className="bg-white/10 text-gray-200 font-semibold py-2 px-4 rounded-lg transition-all hover:bg-white/20 active:scale-95 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Record
+        </button>
+      </div>
+
+      {notice && <p className="text-xs text-gray-400 bg-gray-900/50 rounded-md p-2">{notice}</p>}
+
+      <div className="flex flex-col gap-2">
+        {recipes.length === 0 && <p className="text-sm text-center text-gray-500">No recipes yet.</p>}
+        {recipes.map(recipe => {
+          const isExpanded = expandedId === recipe.id;
+          return (
+            <div key={recipe.id} className="bg-gray-800/60 border border-gray-700/50 rounded-md p-3 flex flex-col gap-3">
+              <div className="flex items-center justify-between gap-2">
+                {isExpanded ? (
+                  <input
+                    type="text"
+                    value={recipe.name}
+                    onChange={(e) => persist({ ...recipe, name: e.target.value })}
+                    aria-label="Recipe name"
+                    className={`${inputClassName} flex-grow font-semibold`}
+                    disabled={isLoading}
+                  />
+                ) : (
+                  <button onClick={() => setExpandedId(recipe.id)} className="text-left min-w-0">
+                    <p className="font-semibold text-gray-200 truncate">{recipe.name}</p>
+                    <p className="text-xs text-gray-500">{recipe.steps.length} step{recipe.steps.length === 1 ? '' : 's'}</p>
+                  </button>
+                )}
+                <button
+                  onClick={() => setExpandedId(isExpanded ? null : recipe.id)}
+                  className="text-xs text-gray-400 hover:text-white flex-shrink-0"
+                >
+                  {isExpanded ? 'Done' : 'Edit'}
+                </button>
+              </div>
+
+              {isExpanded && (
+                <ol className="flex flex-col gap-2">
+                  {recipe.steps.map((step, index) => (
+                    <li key={index} className="bg-gray-900/50 rounded-md p-2 flex flex-col gap-2">
+                      <div className="flex items-center gap-2">
+                        <span className="text-xs text-gray-500 w-4">{index + 1}.</span>
+                        <span className="flex-grow text-sm text-gray-300 truncate" title={describeRecipeStep(step)}>{describeRecipeStep(step)}</span>
+                        <button onClick={() => moveStep(recipe, index, -1)} disabled={isLoading || index === 0} className={smallButtonClassName} aria-label="Move step up">↑</button>
+                        <button onClick={() => moveStep(recipe, index, 1)} disabled={isLoading || index === recipe.steps.length - 1} className={smallButtonClassName} aria-label="Move step down">↓</button>
+                        <button
+                          onClick={() => updateSteps(recipe, recipe.steps.filter((_, i) => i !== index))}
+                          disabled={isLoading}
+                          className="text-gray-500 hover:text-red-400 disabled:opacity-30 px-1"
+                          aria-label="Remove step"
+                        >
+                          &times;
+                        </button>
+                      </div>
+                      <StepFields
+                        step={step}
+                        onChange={(updated) => updateSteps(recipe, recipe.steps.map((s, i) => i === index ? updated : s))}
+                        disabled={isLoading}
+                      />
+                    </li>
+                  ))}
+                  <select
+                    value=""
+                    onChange={(e) => { if (e.target.value) updateSteps(recipe, [...recipe.steps, NEW_STEPS[Number(e.target.value)].step]); }}
+                    className={inputClassName}
+                    disabled={isLoading}
+                  >
+                    <option value="">+ Add step…</option>
+                    {NEW_STEPS.map(({ label }, i) => <option key={label} value={i}>{label}</option>)}
+                  </select>
+                </ol>
+              )}
+
+              <div className="flex gap-2">
+                <button
+                  onClick={() => onRunRecipe(recipe)}
+                  disabled={isLoading || !image || !isRunnable(recipe)}
+                  className="flex-1 bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-2 px-3 rounded-md transition-all active:scale-95 text-sm disabled:from-blue-800 disabled:to-blue-700 disabled:cursor-not-allowed"
+                >
+                  Run
+                </button>
+                {batchMode && (
+                  <button
+                    onClick={() => onRunRecipeOnAll(recipe)}
+                    disabled={isLoading || !isRunnable(recipe)}
+                    className="flex-1 bg-gradient-to-br from-green-600 to-green-500 text-white font-bold py-2 px-3 rounded-md transition-all active:scale-95 text-sm disabled:from-green-800 disabled:to-green-700 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                  >
+                    <CollectionIcon className="w-4 h-4" />
+                    Run on All
+                  </button>
+                )}
+                <button
+                  onClick={() => downloadBlob(exportRecipes([recipe]), `${recipe.name || 'recipe'}.json`)}
+                  className="bg-white/10 text-gray-200 font-semibold py-2 px-3 rounded-md transition-all hover:bg-white/20 active:scale-95 text-sm"
+                >
+                  Export
+                </button>
+                <button
+                  onClick={() => handleDelete(recipe.id)}
+                  disabled={isLoading}
+                  className="bg-white/10 text-gray-200 font-semibold py-2 px-3 rounded-md transition-all hover:bg-red-500/20 active:scale-95 text-sm disabled:opacity-50"
+                  aria-label={`Delete ${recipe.name}`}
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex gap-2 border-t border-gray-700/50 pt-4">
+        <button
+          onClick={() => importInputRef.current?.click()}
+          disabled={isLoading}
+          className="flex-1 bg-white/10 text-gray-200 font-semibold py-2 px-4 rounded-lg transition-all hover:bg-white/20 active:scale-95 text-sm disabled:opacity-50"
+        >
+          Import Recipes
+        </button>
+        <button
+          onClick={() => downloadBlob(exportRecipes(recipes), 'pixshop-recipes.json')}
+          disabled={recipes.length === 0}
+          className="flex-1 bg-white/10 text-gray-200 font-semibold py-2 px-4 rounded-lg transition-all hover:bg-white/20 active:scale-95 text-sm disabled:opacity-50"
+        >
+          Export All
+        </button>
+        <input ref={importInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+      </div>
+    </div>
+  );
+};
+
+export default RecipePanel;
@@ -5,18 +5,57 @@
 
 import React, { useState, useEffect } from 'react';
 import { LockClosedIcon, LockOpenIcon, ResizeIcon, MagicWandIcon, UpscaleIcon } from './icons';
+import type { ExpandAnchor, ResampleMethod } from '../types';
+import { RESAMPLE_METHODS } from '../services/resample';
+import { EXPAND_ANCHORS, describeAnchor, getAnchorOffset, type ExpandOffset } from '../services/expand';
 
 interface ResizePanelProps {
   imageWidth: number;
   imageHeight: number;
-  onApplyResize: (width: number, height: number) => void;
-  onApplyExpand: (width: number, height: number, prompt: string) => void;
+  onApplyResize: (width: number, height: number, method: ResampleMethod) => void;
+  // The anchor is only given when the placement came from one, so it can be replayed on other sizes
+  onApplyExpand: (width: number, height: number, prompt: string, offset: ExpandOffset, anchor?: ExpandAnchor) => void;
   onApplyUpscale: (scaleFactor: number) => void;
   isLoading: boolean;
 }
 
 type Mode = 'scale' | 'expand' | 'upscale';
 
+// Units the Scale mode sizes can be entered in; print sizes are converted through the DPI
+type SizeUnit = 'px' | 'percent' | 'in' | 'cm';
+
+const UNITS: { value: SizeUnit, label: string }[] = [
+  { value: 'px', label: 'px' },
+  { value: 'percent', label: '%' },
+  { value: 'in', label: 'in' },
+  { value: 'cm', label: 'cm' },
+];
+
+const toUnit = (pixels: number, original: number, unit: SizeUnit, dpi: number): number => {
+  switch (unit) {
+    case 'percent': return (pixels / original) * 100;
+    case 'in': return pixels / dpi;
+    case 'cm': return (pixels / dpi) * 2.54;
+    default: return pixels;
+  }
+};
+
+const toPixels = (value: number, original: number, unit: SizeUnit, dpi: number): number => {
+  switch (unit) {
+    case 'percent': return Math.round((value / 100) * original);
+    case 'in': return Math.round(value * dpi);
+    case 'cm': return Math.round((value / 2.54) * dpi);
+    default: return Math.round(value);
+  }
+};
+
+const formatUnit = (value: number, unit: SizeUnit): string => unit === 'px' ? String(value) : String(Number(value.toFixed(2)));
+
+// Space added on each side of the original in Magic Expand, in pixels
+type Padding = { top: number; right: number; bottom: number; left: number };
+
+const PADDING_SIDES: (keyof Padding)[] = ['top', 'right', 'bottom', 'left'];
+
 const ResizePanel: React.FC<ResizePanelProps> = ({
   imageWidth,
   imageHeight,
@@ -31,27 +70,63 @@ const ResizePanel: React.FC<ResizePanelProps> = ({
   const [keepAspectRatio, setKeepAspectRatio] = useState(true);
   const [expandPrompt, setExpandPrompt] = useState('');
   const [scaleFactor, setScaleFactor] = useState(2);
+  const [unit, setUnit] = useState<SizeUnit>('px');
+  const [dpi, setDpi] = useState(300);
+  const [method, setMethod] = useState<ResampleMethod>('lanczos');
+  // The text of the field being typed in, so converted units aren't reformatted mid-edit
+  const [draft, setDraft] = useState<{ field: 'width' | 'height', text: string } | null>(null);
+  const [padding, setPadding] = useState<Padding>({ top: 0, right: 0, bottom: 0, left: 0 });
+  // Null once the padding has been typed in by hand
+  const [anchor, setAnchor] = useState<ExpandAnchor | null>('center');
+
+  // Expand works on the canvas in pixels, so only Scale offers other units
+  const activeUnit = mode === 'scale' ? unit : 'px';
 
   // Reset local state when the source image dimensions change
   useEffect(() => {
     setWidth(imageWidth);
     setHeight(imageHeight);
+    setPadding({ top: 0, right: 0, bottom: 0, left: 0 });
   }, [imageWidth, imageHeight]);
 
-  const handleWidthChange = (newWidth: number) => {
+  // Splits the added space around the original following the anchor, or keeps the typed top and left padding
+  const paddingFor = (newWidth: number, newHeight: number, nextAnchor: ExpandAnchor | null): Padding => {
+    const extraX = Math.max(0, newWidth - imageWidth);
+    const extraY = Math.max(0, newHeight - imageHeight);
+    const offset = nextAnchor
+      ? getAnchorOffset(nextAnchor, imageWidth, imageHeight, newWidth, newHeight)
+      : { x: Math.min(padding.left, extraX), y: Math.min(padding.top, extraY) };
+    return { top: offset.y, right: extraX - offset.x, bottom: extraY - offset.y, left: offset.x };
+  };
+
+  const applySize = (newWidth: number, newHeight: number) => {
     setWidth(newWidth);
-    if (keepAspectRatio) {
-      const aspectRatio = imageWidth / imageHeight;
-      setHeight(Math.round(newWidth / aspectRatio));
-    }
+    setHeight(newHeight);
+    if (mode === 'expand') setPadding(paddingFor(newWidth, newHeight, anchor));
+  };
+
+  const handleWidthChange = (newWidth: number) => {
+    const aspectRatio = imageWidth / imageHeight;
+    applySize(newWidth, keepAspectRatio ? Math.round(newWidth / aspectRatio) : height);
   };
 
   const handleHeightChange = (newHeight: number) => {
-    setHeight(newHeight);
-    if (keepAspectRatio) {
-      const aspectRatio = imageWidth / imageHeight;
-      setWidth(Math.round(newHeight * aspectRatio));
-    }
+    const aspectRatio = imageWidth / imageHeight;
+    applySize(keepAspectRatio ? Math.round(newHeight * aspectRatio) : width, newHeight);
+  };
+
+  const handlePaddingChange = (side: keyof Padding, value: number) => {
+    const next = { ...padding, [side]: Math.max(0, Math.round(value) || 0) };
+    setAnchor(null);
+    setPadding(next);
+    setWidth(imageWidth + next.left + next.right);
+    setHeight(imageHeight + next.top + next.bottom);
+    setDraft(null);
+  };
+
+  const handleAnchorChange = (nextAnchor: ExpandAnchor) => {
+    setAnchor(nextAnchor);
+    setPadding(paddingFor(width, height, nextAnchor));
   };
 
   const handleModeChange = (newMode: Mode) => {
@@ -60,13 +135,32 @@ const ResizePanel: React.FC<ResizePanelProps> = ({
     setWidth(imageWidth);
     setHeight(imageHeight);
     setKeepAspectRatio(true);
+    setDraft(null);
+    setPadding({ top: 0, right: 0, bottom: 0, left: 0 });
+    setAnchor('center');
   };
 
+  const handleSizeInput = (field: 'width' | 'height', text: string) => {
+    setDraft({ field, text });
+    const value = parseFloat(text);
+    if (!Number.isFinite(value) || value <= 0) return;
+    const pixels = Math.max(1, toPixels(value, field === 'width' ? imageWidth : imageHeight, activeUnit, dpi));
+    if (field === 'width') handleWidthChange(pixels);
+    else handleHeightChange(pixels);
+  };
+
+  const displayValue = (field: 'width' | 'height') => draft?.field === field
+    ? draft.text
+    : formatUnit(toUnit(field === 'width' ? width : height, field === 'width' ? imageWidth : imageHeight, activeUnit, dpi), activeUnit);
+
+  const unitLabel = UNITS.find(u => u.value === activeUnit)?.label;
+  const isPrintUnit = activeUnit === 'in' || activeUnit === 'cm';
+
   const handleApply = () => {
     if (mode === 'scale') {
-      onApplyResize(width, height);
+      onApplyResize(width, height, method);
     } else if (mode === 'expand') {
-      onApplyExpand(width, height, expandPrompt);
+      onApplyExpand(width, height, expandPrompt, { x: padding.left, y: padding.top }, anchor ?? undefined);
     } else {
       onApplyUpscale(scaleFactor);
     }
@@ -110,13 +204,15 @@ const ResizePanel: React.FC<ResizePanelProps> = ({
                     <input
                         id="width"
                         type="number"
-                        value={width}
-                        onChange={(e) => handleWidthChange(parseInt(e.target.value) || 0)}
-                        min={mode === 'expand' ? imageWidth : 1}
+                        value={displayValue('width')}
+                        onChange={(e) => handleSizeInput('width', e.target.value)}
+                        onBlur={() => setDraft(null)}
+                        min={mode === 'expand' ? imageWidth : 0}
+                        step={activeUnit === 'px' ? 1 : 'any'}
                         className="w-full bg-gray-800 border border-gray-600 text-gray-200 rounded-lg p-3 pr-12 focus:ring-2 focus:ring-blue-500 focus:outline-none transition"
                         disabled={isLoading}
                     />
-                    <span className="absolute inset-y-0 right-0 flex items-center pr-4 text-gray-500">px</span>
+                    <span className="absolute inset-y-0 right-0 flex items-center pr-4 text-gray-500">{unitLabel}</span>
                 </div>
             </div>
             
@@ -136,16 +232,122 @@ const ResizePanel: React.FC<ResizePanelProps> = ({
                     <input
                         id="height"
                         type="number"
-                        value={height}
-                        onChange={(e) => handleHeightChange(parseInt(e.target.value) || 0)}
-                        min={mode === 'expand' ? imageHeight : 1}
+                        value={displayValue('height')}
+                        onChange={(e) => handleSizeInput('height', e.target.value)}
+                        onBlur={() => setDraft(null)}
+                        min={mode === 'expand' ? imageHeight : 0}
+                        step={activeUnit === 'px' ? 1 : 'any'}
                         className="w-full bg-gray-800 border border-gray-600 text-gray-200 rounded-lg p-3 pr-12 focus:ring-2 focus:ring-blue-500 focus:outline-none transition"
                         disabled={isLoading}
                     />
-                     <span className="absolute inset-y-0 right-0 flex items-center pr-4 text-gray-500">px</span>
+                     <span className="absolute inset-y-0 right-0 flex items-center pr-4 text-gray-500">{unitLabel}</span>
                 </div>
             </div>
           </div>
+          {mode === 'scale' && (
+            <div className="flex flex-col gap-4 animate-fade-in pt-2 mt-4">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="p-1 bg-gray-900/50 rounded-lg flex gap-1">
+                  {UNITS.map(({ value, label }) => (
+                    <button
+                      key={value}
+                      onClick={() => { setUnit(value); setDraft(null); }}
+                      disabled={isLoading}
+                      className={`px-3 py-1 rounded-md text-sm font-semibold transition-all ${unit === value ? 'bg-blue-600 text-white shadow' : 'text-gray-300 hover:bg-white/10'}`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                {isPrintUnit && (
+                  <label className="flex items-center gap-2 text-sm text-gray-400">
+                    <input
+                      type="number"
+                      min={1}
+                      value={dpi}
+                      onChange={(e) => { const value = parseInt(e.target.value); if (value > 0) setDpi(value); }}
+                      disabled={isLoading}
+                      className="w-20 bg-gray-800 border border-gray-600 text-gray-200 rounded-md px-2 py-1 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                    />
+                    DPI
+                  </label>
+                )}
+              </div>
+              {activeUnit !== 'px' && (
+                <p className="text-sm text-gray-400 text-center">Output: <span className="font-mono text-gray-200">{width} × {height} px</span></p>
+              )}
+              <div className="flex flex-col gap-2">
+                <label htmlFor="resample-method" className="text-sm font-medium text-gray-400">Resampling</label>
+                <select
+                  id="resample-method"
+                  value={method}
+                  onChange={(e) => setMethod(e.target.value as ResampleMethod)}
+                  disabled={isLoading}
+                  className="w-full bg-gray-800 border border-gray-600 text-gray-200 rounded-lg p-3 focus:ring-2 focus:ring-blue-500 focus:outline-none transition"
+                >
+                  {RESAMPLE_METHODS.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+                </select>
+                <p className="text-xs text-gray-500">{RESAMPLE_METHODS.find(m => m.value === method)?.hint}</p>
+              </div>
+            </div>
+          )}
+          {mode === 'expand' && (
+            <div className="flex flex-col sm:flex-row gap-5 animate-fade-in pt-2 mt-4">
+              <div className="flex flex-col gap-2 items-center">
+                <span className="text-sm font-medium text-gray-400">Anchor</span>
+                <div className="grid grid-cols-3 gap-1 p-1 bg-gray-900/50 rounded-lg">
+                  {EXPAND_ANCHORS.map(a => (
+                    <button
+                      key={a}
+                      onClick={() => handleAnchorChange(a)}
+                      disabled={isLoading}
+                      title={`Keep the original at the ${describeAnchor(a)}`}
+                      aria-label={`Anchor ${describeAnchor(a)}`}
+                      className={`w-8 h-8 rounded flex items-center justify-center transition-colors ${anchor === a ? 'bg-blue-600' : 'bg-white/10 hover:bg-white/20'}`}
+                    >
+                      <span className={`w-2.5 h-2.5 rounded-sm ${anchor === a ? 'bg-white' : 'bg-gray-500'}`} />
+                    </button>
+                  ))}
+                </div>
+                <span className="text-xs text-gray-500 h-4">{anchor ? '' : 'Custom'}</span>
+              </div>
+              <div className="flex-1 flex flex-col gap-2">
+                <span className="text-sm font-medium text-gray-400">Padding (px)</span>
+                <div className="grid grid-cols-2 gap-2">
+                  {PADDING_SIDES.map(side => (
+                    <label key={side} className="flex items-center gap-2 text-xs font-medium text-gray-400 capitalize">
+                      <span className="w-12">{side}</span>
+                      <input
+                        type="number"
+                        min={0}
+                        value={padding[side]}
+                        onChange={(e) => handlePaddingChange(side, parseInt(e.target.value))}
+                        disabled={isLoading}
+                        className="w-full bg-gray-800 border border-gray-600 text-gray-200 rounded-md px-2 py-1.5 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                      />
+                    </label>
+                  ))}
+                </div>
+                {!isExpandInvalid && (
+                  <div
+                    className="relative mx-auto mt-2 bg-blue-500/20 border border-dashed border-blue-400/60 rounded-sm"
+                    style={{ width: width >= height ? 120 : 120 * width / height, height: height > width ? 120 : 120 * height / width }}
+                    aria-hidden="true"
+                  >
+                    <div
+                      className="absolute bg-gray-400/70 rounded-sm"
+                      style={{
+                        left: `${(padding.left / width) * 100}%`,
+                        top: `${(padding.top / height) * 100}%`,
+                        width: `${(imageWidth / width) * 100}%`,
+                        height: `${(imageHeight / height) * 100}%`,
+                      }}
+                    />
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
           {mode === 'expand' && (
             <div className="flex flex-col gap-2 animate-fade-in pt-2 mt-4">
                 <label htmlFor="expandPrompt" className="block text-sm font-medium text-gray-400">
@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import type { SessionSummary } from '../services/sessionStore';
+import { formatBytes } from '../services/download';
+
+interface SessionManagerProps {
+  sessions: SessionSummary[];
+  storage: { usage: number, quota: number } | null;
+  onResume: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatDate = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const SessionManager: React.FC<SessionManagerProps> = ({ sessions, storage, onResume, onDelete }) => {
+  if (sessions.length === 0) return null;
+
+  const usagePercent = storage && storage.quota > 0 ? Math.min(100, (storage.usage / storage.quota) * 100) : 0;
+
+  return (
+    <div className="w-full max-w-2xl bg-black/20 border border-gray-700/50 rounded-lg p-4 flex flex-col gap-3 text-left animate-fade-in">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-bold text-gray-100">Saved Sessions</h3>
+        {storage && (
+          <span className="text-xs text-gray-400" title={`${usagePercent.toFixed(1)}% of available browser storage`}>
+            {formatBytes(storage.usage)} of {formatBytes(storage.quota)} used
+          </span>
+        )}
+      </div>
+      {storage && (
+        <div className="w-full h-1.5 bg-gray-700 rounded-full overflow-hidden">
+          <div className="h-full bg-blue-500" style={{ width: `${Math.max(usagePercent, 0.5)}%` }} />
+        </div>
+      )}
+      <ul className="flex flex-col gap-2 max-h-72 overflow-y-auto">
+        {sessions.map(session => (
+          <li key={session.id} className="flex items-center gap-3 bg-gray-800/60 border border-gray-700/50 rounded-md p-2">
+            {session.thumbnail ? (
+              <img src={session.thumbnail} alt="" className="w-14 h-14 object-cover rounded flex-shrink-0" />
+            ) : (
+              <div className="w-14 h-14 bg-gray-700 rounded flex-shrink-0" />
+            )}
+            <div className="flex-grow min-w-0">
+              <p className="font-semibold text-gray-200 truncate">{session.name}</p>
+              <p className="text-xs text-gray-400">
+                {session.imageCount} {session.imageCount === 1 ? 'image' : 'images'} · {formatBytes(session.byteSize)} · {formatDate(session.updatedAt)}
+              </p>
+            </div>
+            <button
+              onClick={() => onResume(session.id)}
+              className="bg-blue-600 hover:bg-blue-500 text-white font-semibold py-2 px-4 rounded-md text-sm transition-colors"
+            >
+              Resume
+            </button>
+            <button
+              onClick={() => onDelete(session.id)}
+              className="bg-white/10 hover:bg-red-500/80 text-gray-200 font-semibold py-2 px-3 rounded-md text-sm transition-colors"
+              aria-label={`Delete session ${session.name}`}
+            >
+              Delete
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default SessionManager;
@@ -4,14 +4,25 @@
 */
 
 import React, { useState } from 'react';
-import { UploadIcon, MagicWandIcon, PaletteIcon, SunIcon, CollectionIcon } from './icons';
+import { UploadIcon, MagicWandIcon, PaletteIcon, SunIcon, CollectionIcon, UndoIcon, LayersIcon } from './icons';
+import SessionManager from './SessionManager';
+import type { SessionSummary } from '../services/sessionStore';
+import { PROJECT_EXTENSION } from '../services/projectArchive';
+import { IMPORT_ACCEPT } from '../services/imageImport';
 
 interface StartScreenProps {
   onSingleFileSelect: (file: File) => void;
   onMultipleFileSelect: (files: FileList) => void;
+  onProjectSelect: (file: File) => void;
+  sessions: SessionSummary[];
+  storage: { usage: number, quota: number } | null;
+  onResumeSession: (id: string) => void;
+  onDeleteSession: (id: string) => void;
+  // Progress text while uploaded files are being decoded, or null when idle
+  importStatus: string | null;
 }
 
-const StartScreen: React.FC<StartScreenProps> = ({ onSingleFileSelect, onMultipleFileSelect }) => {
+const StartScreen: React.FC<StartScreenProps> = ({ onSingleFileSelect, onMultipleFileSelect, onProjectSelect, sessions, storage, onResumeSession, onDeleteSession, importStatus }) => {
   const [isDraggingOver, setIsDraggingOver] = useState(false);
 
   const handleSingleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -26,12 +37,21 @@ const StartScreen: React.FC<StartScreenProps> = ({ onSingleFileSelect, onMultipl
     }
   };
 
+  const handleProjectFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files[0]) {
+        onProjectSelect(e.target.files[0]);
+    }
+  };
+
   const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     setIsDraggingOver(false);
     const files = e.dataTransfer.files;
+    if (importStatus) return;
     if (files && files.length > 0) {
-        if (files.length === 1) {
+        if (files.length === 1 && files[0].name.toLowerCase().endsWith(PROJECT_EXTENSION)) {
+            onProjectSelect(files[0]);
+        } else if (files.length === 1) {
             onSingleFileSelect(files[0]);
         } else {
             onMultipleFileSelect(files);
@@ -54,20 +74,41 @@ const StartScreen: React.FC<StartScreenProps> = ({ onSingleFileSelect, onMultipl
           Retouch photos, apply creative filters, or make professional adjustments using simple text prompts. No complex tools needed.
         </p>
 
-        <div className="mt-6 flex flex-col sm:flex-row items-center justify-center gap-4">
+        <div className="mt-6 flex flex-col sm:flex-row sm:flex-wrap items-center justify-center gap-4">
             <label htmlFor="single-image-upload" className="relative inline-flex items-center justify-center px-8 py-4 text-lg font-bold text-white bg-blue-600 rounded-full cursor-pointer group hover:bg-blue-500 transition-colors">
                 <UploadIcon className="w-6 h-6 mr-3 transition-transform duration-500 ease-in-out group-hover:rotate-[360deg] group-hover:scale-110" />
                 Upload Single Image
             </label>
-            <input id="single-image-upload" type="file" className="hidden" accept="image/*" onChange={handleSingleFileChange} />
+            <input id="single-image-upload" type="file" className="hidden" accept={IMPORT_ACCEPT} onChange={handleSingleFileChange} />
             
             <label htmlFor="multiple-image-upload" className="relative inline-flex items-center justify-center px-8 py-4 text-lg font-bold text-gray-200 bg-white/10 border border-white/20 rounded-full cursor-pointer group hover:bg-white/20 transition-colors">
                 <CollectionIcon className="w-6 h-6 mr-3 transition-transform duration-500 ease-in-out group-hover:scale-110" />
                 Process Multiple Images
             </label>
-            <input id="multiple-image-upload" type="file" className="hidden" accept="image/*" multiple onChange={handleMultipleFileChange} />
+            <input id="multiple-image-upload" type="file" className="hidden" accept={IMPORT_ACCEPT} multiple onChange={handleMultipleFileChange} />
+
+            <label htmlFor="project-upload" className="relative inline-flex items-center justify-center px-8 py-4 text-lg font-bold text-gray-200 bg-white/10 border border-white/20 rounded-full cursor-pointer group hover:bg-white/20 transition-colors">
+                <LayersIcon className="w-6 h-6 mr-3 transition-transform duration-500 ease-in-out group-hover:scale-110" />
+                Open Project
+            </label>
+            <input id="project-upload" type="file" className="hidden" accept={`${PROJECT_EXTENSION},application/zip`} onChange={handleProjectFileChange} />
+
+            {sessions.length > 0 && (
+                <button
+                    onClick={() => onResumeSession(sessions[0].id)}
+                    className="relative inline-flex items-center justify-center px-8 py-4 text-lg font-bold text-gray-200 bg-white/10 border border-white/20 rounded-full cursor-pointer group hover:bg-white/20 transition-colors"
+                    title={`Resume "${sessions[0].name}"`}
+                >
+                    <UndoIcon className="w-6 h-6 mr-3 transition-transform duration-500 ease-in-out group-hover:-rotate-45" />
+                    Resume Previous Session
+                </button>
+            )}
         </div>
-        <p className="text-sm text-gray-500">or drag and drop a file (or files)</p>
+        {importStatus
+            ? <p className="text-sm text-blue-300 animate-pulse">{importStatus}</p>
+            : <p className="text-sm text-gray-500">or drag and drop a file (or files), or a {PROJECT_EXTENSION} project. HEIC and camera RAW files are supported.</p>}
+
+        <SessionManager sessions={sessions} storage={storage} onResume={onResumeSession} onDelete={onDeleteSession} />
 
         <div className="mt-16 w-full">
             <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
@@ -76,7 +117,7 @@ const StartScreen: React.FC<StartScreenProps> = ({ onSingleFileSelect, onMultipl
                        <MagicWandIcon className="w-6 h-6 text-blue-400" />
                     </div>
                     <h3 className="text-xl font-bold text-gray-100">Precise Retouching</h3>
-                    <p className="mt-2 text-gray-400">Click any point on your image to remove blemishes, change colors, or add elements with pinpoint accuracy.</p>
+                    <p className="mt-2 text-gray-400">Paint over any area of your image to remove blemishes, change colors, or add elements while leaving the rest untouched.</p>
                 </div>
                 <div className="bg-black/20 p-6 rounded-lg border border-gray-700/50 flex flex-col items-center text-center">
                     <div className="flex items-center justify-center w-12 h-12 bg-gray-700 rounded-full mb-4">
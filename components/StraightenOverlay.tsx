@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { getInscribedSize } from '../services/transform';
+
+interface StraightenOverlayProps {
+  angle: number;
+  // The natural size of the image, used to place the crop outline
+  imageWidth: number;
+  imageHeight: number;
+}
+
+// How many cells the alignment grid has along each side
+const GRID_DIVISIONS = 8;
+
+// Draws an alignment grid over the image and outlines the area that will remain after straightening
+const StraightenOverlay: React.FC<StraightenOverlayProps> = ({ angle, imageWidth, imageHeight }) => {
+  const cropped = getInscribedSize(imageWidth, imageHeight, angle);
+  const widthPercent = (cropped.width / imageWidth) * 100;
+  const heightPercent = (cropped.height / imageHeight) * 100;
+  const cell = `${100 / GRID_DIVISIONS}%`;
+
+  return (
+    <div className="absolute inset-0 pointer-events-none">
+      <div
+        className="absolute inset-0"
+        style={{
+          backgroundImage: 'linear-gradient(to right, rgba(255,255,255,0.35) 1px, transparent 1px), linear-gradient(to bottom, rgba(255,255,255,0.35) 1px, transparent 1px)',
+          backgroundSize: `${cell} ${cell}`,
+        }}
+      />
+      {angle !== 0 && (
+        <div
+          className="absolute border-2 border-white/90"
+          style={{
+            left: `${(100 - widthPercent) / 2}%`,
+            top: `${(100 - heightPercent) / 2}%`,
+            width: `${widthPercent}%`,
+            height: `${heightPercent}%`,
+            // Dims everything outside the crop, including the rotated corners past the image bounds
+            boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.55)',
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default StraightenOverlay;
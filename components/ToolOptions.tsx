@@ -2,3 +2,132 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+
+import React from 'react';
+import type { MaskTool, MaskMode } from '../types';
+import { BrushIcon, LassoIcon, RectangleSelectIcon } from './icons';
+
+interface ToolOptionsProps {
+  tool: MaskTool;
+  onToolChange: (tool: MaskTool) => void;
+  mode: MaskMode;
+  onModeChange: (mode: MaskMode) => void;
+  brushSize: number;
+  onBrushSizeChange: (size: number) => void;
+  feather: number;
+  onFeatherChange: (feather: number) => void;
+  hasMask: boolean;
+  onClearMask: () => void;
+  onInvertMask: () => void;
+  isLoading: boolean;
+}
+
+const ToolOptions: React.FC<ToolOptionsProps> = ({
+  tool,
+  onToolChange,
+  mode,
+  onModeChange,
+  brushSize,
+  onBrushSizeChange,
+  feather,
+  onFeatherChange,
+  hasMask,
+  onClearMask,
+  onInvertMask,
+  isLoading,
+}) => {
+  const tools = [
+    { name: 'brush' as MaskTool, icon: BrushIcon, label: 'Brush' },
+    { name: 'lasso' as MaskTool, icon: LassoIcon, label: 'Lasso' },
+    { name: 'rectangle' as MaskTool, icon: RectangleSelectIcon, label: 'Rectangle' },
+  ];
+
+  return (
+    <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-4 backdrop-blur-sm">
+      <div className="p-1 bg-gray-900/50 rounded-lg flex w-full">
+        {tools.map(t => (
+          <button
+            key={t.name}
+            onClick={() => onToolChange(t.name)}
+            disabled={isLoading}
+            className={`w-1/3 py-2 px-3 rounded-md text-sm font-semibold transition-all duration-200 flex items-center justify-center gap-2 disabled:opacity-50 ${tool === t.name ? 'bg-blue-600 text-white shadow' : 'text-gray-300 hover:bg-white/10'}`}
+          >
+            <t.icon className="w-5 h-5" />
+            {t.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <span className="text-sm font-medium text-gray-400">Mode:</span>
+        {(['add', 'subtract'] as MaskMode[]).map(m => (
+          <button
+            key={m}
+            onClick={() => onModeChange(m)}
+            disabled={isLoading}
+            className={`px-4 py-1.5 rounded-md text-sm font-semibold capitalize transition-all duration-200 active:scale-95 disabled:opacity-50 ${
+              mode === m
+              ? 'bg-gradient-to-br from-blue-600 to-blue-500 text-white shadow-md shadow-blue-500/20'
+              : 'bg-white/10 hover:bg-white/20 text-gray-200'
+            }`}
+          >
+            {m}
+          </button>
+        ))}
+      </div>
+
+      {tool === 'brush' && (
+        <div className="flex flex-col gap-2">
+          <div className="flex justify-between items-center">
+            <label className="text-sm font-medium text-gray-400">Brush Size</label>
+            <span className="text-sm font-mono bg-gray-900/50 text-gray-200 px-2 py-1 rounded-md">{brushSize}px</span>
+          </div>
+          <input
+            type="range"
+            min={4}
+            max={200}
+            value={brushSize}
+            onChange={(e) => onBrushSizeChange(parseInt(e.target.value, 10))}
+            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer range-lg accent-blue-500 disabled:opacity-50"
+            disabled={isLoading}
+          />
+        </div>
+      )}
+
+      <div className="flex flex-col gap-2">
+        <div className="flex justify-between items-center">
+          <label className="text-sm font-medium text-gray-400">Edge Feather</label>
+          <span className="text-sm font-mono bg-gray-900/50 text-gray-200 px-2 py-1 rounded-md">{feather}px</span>
+        </div>
+        <input
+          type="range"
+          min={0}
+          max={64}
+          value={feather}
+          onChange={(e) => onFeatherChange(parseInt(e.target.value, 10))}
+          className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer range-lg accent-blue-500 disabled:opacity-50"
+          disabled={isLoading}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <button
+          onClick={onInvertMask}
+          disabled={isLoading}
+          className="text-center bg-white/10 border border-white/20 text-gray-200 font-semibold py-2 px-4 rounded-md transition-all duration-200 ease-in-out hover:bg-white/20 hover:border-white/30 active:scale-95 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Invert Mask
+        </button>
+        <button
+          onClick={onClearMask}
+          disabled={isLoading || !hasMask}
+          className="text-center bg-transparent border border-white/20 text-gray-200 font-semibold py-2 px-4 rounded-md transition-all duration-200 ease-in-out hover:bg-white/10 hover:border-white/30 active:scale-95 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Clear Mask
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ToolOptions;
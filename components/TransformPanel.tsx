@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import type { ImageTransform } from '../types';
+import { FlipHorizontalIcon, FlipVerticalIcon, RotateLeftIcon, RotateRightIcon } from './icons';
+import { getInscribedSize, MAX_STRAIGHTEN_ANGLE } from '../services/transform';
+
+interface TransformPanelProps {
+  onApplyTransform: (transform: ImageTransform) => void;
+  // The straighten angle being previewed on the canvas
+  straightenAngle: number;
+  onStraightenAngleChange: (angle: number) => void;
+  imageWidth: number;
+  imageHeight: number;
+  isLoading: boolean;
+}
+
+const TransformPanel: React.FC<TransformPanelProps> = ({
+  onApplyTransform,
+  straightenAngle,
+  onStraightenAngleChange,
+  imageWidth,
+  imageHeight,
+  isLoading,
+}) => {
+  const quickActions: { label: string, icon: React.FC<{ className?: string }>, transform: ImageTransform }[] = [
+    { label: 'Rotate Left', icon: RotateLeftIcon, transform: { type: 'rotate', quarterTurns: 3 } },
+    { label: 'Rotate Right', icon: RotateRightIcon, transform: { type: 'rotate', quarterTurns: 1 } },
+    { label: 'Flip Horizontal', icon: FlipHorizontalIcon, transform: { type: 'flip', axis: 'horizontal' } },
+    { label: 'Flip Vertical', icon: FlipVerticalIcon, transform: { type: 'flip', axis: 'vertical' } },
+  ];
+
+  const cropped = getInscribedSize(imageWidth, imageHeight, straightenAngle);
+
+  return (
+    <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-6 flex flex-col gap-5 animate-fade-in backdrop-blur-sm">
+      <h3 className="text-lg font-semibold text-center text-gray-300">Rotate & Flip</h3>
+
+      <div className="grid grid-cols-4 gap-2">
+        {quickActions.map(({ label, icon: Icon, transform }) => (
+          <button
+            key={label}
+            onClick={() => onApplyTransform(transform)}
+            disabled={isLoading || straightenAngle !== 0}
+            title={label}
+            className="flex flex-col items-center gap-1 bg-white/10 text-gray-200 font-semibold py-3 rounded-md transition-all hover:bg-white/20 active:scale-95 text-xs disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Icon className="w-6 h-6" />
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-col gap-2 pt-4 border-t border-gray-700">
+        <div className="flex justify-between items-center">
+          <label htmlFor="straighten-angle" className="text-sm font-medium text-gray-400">Straighten</label>
+          <span className="text-sm font-mono bg-gray-900/50 text-gray-200 px-2 py-1 rounded-md">{straightenAngle.toFixed(1)}°</span>
+        </div>
+        <input
+          id="straighten-angle"
+          type="range"
+          min={-MAX_STRAIGHTEN_ANGLE}
+          max={MAX_STRAIGHTEN_ANGLE}
+          step={0.1}
+          value={straightenAngle}
+          onChange={(e) => onStraightenAngleChange(Number(e.target.value))}
+          onDoubleClick={() => onStraightenAngleChange(0)}
+          disabled={isLoading}
+          className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer range-lg accent-blue-500"
+        />
+        <p className="text-xs text-gray-500">
+          Line the grid up with a horizon or edge. The corners are cropped away
+          {straightenAngle !== 0 && `, leaving ${cropped.width}×${cropped.height}`}.
+        </p>
+        <div className="flex gap-2">
+          <button
+            onClick={() => onStraightenAngleChange(0)}
+            disabled={isLoading || straightenAngle === 0}
+            className="flex-1 bg-white/10 text-gray-200 font-semibold py-3 px-4 rounded-md transition-all hover:bg-white/20 active:scale-95 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Reset
+          </button>
+          <button
+            onClick={() => onApplyTransform({ type: 'straighten', angle: straightenAngle })}
+            disabled={isLoading || straightenAngle === 0 || cropped.width < 1 || cropped.height < 1}
+            className="flex-[2] bg-gradient-to-br from-green-600 to-green-500 text-white font-bold py-3 px-4 rounded-md transition-all duration-300 ease-in-out shadow-lg shadow-green-500/20 hover:shadow-xl hover:shadow-green-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-sm disabled:from-green-800 disabled:to-green-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
+          >
+            Apply Straighten
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TransformPanel;
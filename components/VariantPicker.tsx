@@ -0,0 +1,102 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import type { VariationSet } from '../types';
+import { formatDuration } from '../services/history';
+
+interface VariantPickerProps {
+  variations: VariationSet;
+  onKeep: (indices: number[]) => void;
+  onDiscard: () => void;
+}
+
+const VariantTile: React.FC<{ file: File, index: number, isSelected: boolean, onToggle: () => void, onKeepOnly: () => void }> = ({ file, index, isSelected, onToggle, onKeepOnly }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  return (
+    <button
+      onClick={onToggle}
+      onDoubleClick={onKeepOnly}
+      aria-pressed={isSelected}
+      className={`relative bg-black/30 rounded-lg overflow-hidden border-2 transition-all duration-200 aspect-square flex items-center justify-center ${isSelected ? 'border-blue-500 shadow-lg shadow-blue-500/30' : 'border-transparent hover:border-gray-500'}`}
+    >
+      {url && <img src={url} alt={`Variation ${index + 1}`} className="max-w-full max-h-full object-contain" />}
+      <span className={`absolute top-2 left-2 text-xs font-bold px-2 py-1 rounded-md ${isSelected ? 'bg-blue-600 text-white' : 'bg-black/60 text-gray-200'}`}>
+        {index + 1}
+      </span>
+    </button>
+  );
+};
+
+const VariantPicker: React.FC<VariantPickerProps> = ({ variations, onKeep, onDiscard }) => {
+  const { files, failedCount, operation } = variations;
+  const [selected, setSelected] = useState<number[]>([]);
+
+  const toggle = (index: number) => {
+    setSelected(prev => prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index].sort((a, b) => a - b));
+  };
+
+  // Results cost a model call each, so only an explicit choice closes the picker; no Esc or click-outside.
+  return (
+    <div
+        className="fixed inset-0 bg-black/70 z-50 flex items-center justify-center animate-fade-in p-4"
+        aria-modal="true"
+        role="dialog"
+    >
+      <div className="bg-gray-800 border border-gray-700 rounded-xl shadow-2xl p-6 w-full max-w-5xl flex flex-col gap-5 max-h-full overflow-y-auto">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-100">Pick a Variation</h2>
+          <p className="text-sm text-gray-400 mt-1">
+            Click to select, double-click to keep just that one. Keeping several adds each as its own branch in the history.
+          </p>
+          {operation.prompt && <p className="text-xs text-gray-500 mt-1 truncate" title={operation.prompt}>"{operation.prompt}"</p>}
+          <p className="text-xs text-gray-500 mt-1">
+            {files.length} result{files.length === 1 ? '' : 's'}
+            {operation.durationMs !== undefined && ` in ${formatDuration(operation.durationMs)}`}
+            {failedCount > 0 && <span className="text-yellow-400"> · {failedCount} request{failedCount === 1 ? '' : 's'} failed</span>}
+          </p>
+        </div>
+
+        <div className={`grid gap-4 ${files.length > 2 ? 'grid-cols-2 lg:grid-cols-4' : 'grid-cols-2'}`}>
+          {files.map((file, index) => (
+            <VariantTile
+              key={index}
+              file={file}
+              index={index}
+              isSelected={selected.includes(index)}
+              onToggle={() => toggle(index)}
+              onKeepOnly={() => onKeep([index])}
+            />
+          ))}
+        </div>
+
+        <div className="flex items-center justify-end gap-3">
+            <button
+                onClick={onDiscard}
+                className="text-center bg-white/10 border border-white/20 text-gray-200 font-semibold py-3 px-5 rounded-md transition-all duration-200 ease-in-out hover:bg-white/20 hover:border-white/30 active:scale-95 text-base"
+            >
+                Discard All
+            </button>
+            <button
+                onClick={() => onKeep(selected)}
+                disabled={selected.length === 0}
+                className="bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-3 px-5 rounded-md transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 text-base disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
+            >
+                {selected.length > 1 ? `Keep ${selected.length} as Branches` : 'Keep Selected'}
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VariantPicker;
@@ -39,7 +39,7 @@ const ViewportToolbar: React.FC<ViewportToolbarProps> = ({
             onClick={() => onSetInteractionMode('select')} 
             className={`p-2 rounded-md transition-colors ${interactionMode === 'select' ? 'text-white bg-blue-600' : 'text-gray-300 hover:text-white hover:bg-white/10'}`} 
             aria-label="Select tool"
-            title="Select Tool (for hotspots)"
+            title="Select Tool (paint masks, place hotspots)"
           >
             <BullseyeIcon className="w-5 h-5" />
           </button>
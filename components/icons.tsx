@@ -161,3 +161,46 @@ export const HandPanIcon: React.FC<{ className?: string }> = ({ className }) =>
         <path strokeLinecap="round" strokeLinejoin="round" d="M17.25 9.75V4.5a2.25 2.25 0 00-2.25-2.25H9A2.25 2.25 0 006.75 4.5v8.25a2.25 2.25 0 002.25 2.25h2.25m4.5 3.75v-3.75m0 0c0-1.24-.97-2.25-2.17-2.25H18a2.25 2.25 0 012.25 2.25v4.5A2.25 2.25 0 0118 21.75h-2.25a2.25 2.25 0 01-2.25-2.25v-1.5Z" />
     </svg>
 );
+
+export const BrushIcon: React.FC<{ className?: string }> = ({ className }) => (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={className}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M9.53 16.122a3 3 0 0 0-5.78 1.128 2.25 2.25 0 0 1-2.4 2.245 4.5 4.5 0 0 0 8.4-2.245c0-.399-.078-.78-.22-1.128Zm0 0a15.998 15.998 0 0 0 3.388-1.62m-5.043-.025a15.994 15.994 0 0 1 1.622-3.395m3.42 3.42a15.995 15.995 0 0 0 4.764-4.648l3.876-5.814a1.151 1.151 0 0 0-1.597-1.597L14.146 6.32a15.996 15.996 0 0 0-4.649 4.763m3.42 3.42a6.776 6.776 0 0 0-3.42-3.42" />
+    </svg>
+);
+
+export const LassoIcon: React.FC<{ className?: string }> = ({ className }) => (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={className}>
+      <path strokeLinecap="round" strokeLinejoin="round" strokeDasharray="2 2" d="M12 4.5c4.97 0 9 2.35 9 5.25S16.97 15 12 15s-9-2.35-9-5.25S7.03 4.5 12 4.5Z" />
+      <path strokeLinecap="round" strokeLinejoin="round" d="M7.5 14c-.8 1.2-.6 2.6.6 3.3 1.1.6 1.2 1.9.4 2.95" />
+    </svg>
+);
+
+export const RectangleSelectIcon: React.FC<{ className?: string }> = ({ className }) => (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={className}>
+      <path strokeLinecap="round" strokeLinejoin="round" strokeDasharray="2.5 2.5" d="M3.75 5.25h16.5v13.5H3.75z" />
+    </svg>
+);
+
+export const RotateLeftIcon: React.FC<{ className?: string }> = ({ className }) => (
+  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={className}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="M4.5 9.5A8 8 0 1 1 4 14M4.5 4v5.5H10" />
+  </svg>
+);
+
+export const RotateRightIcon: React.FC<{ className?: string }> = ({ className }) => (
+  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={className}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 9.5A8 8 0 1 0 20 14M19.5 4v5.5H14" />
+  </svg>
+);
+
+export const FlipHorizontalIcon: React.FC<{ className?: string }> = ({ className }) => (
+  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={className}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="M12 3v18M9 6 3 18h6V6Zm6 0 6 12h-6V6Z" />
+  </svg>
+);
+
+export const FlipVerticalIcon: React.FC<{ className?: string }> = ({ className }) => (
+  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={className}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="M3 12h18M6 9 18 3v6H6Zm0 6 12 6v-6H6Z" />
+  </svg>
+);
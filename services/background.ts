@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { BackgroundFill } from '../types';
+import { runInWorker } from './imageWorker';
+import { dataURLtoFile } from './imageUtils';
+import { generateEditedImage } from './geminiService';
+
+// A background fill, or a scene the model generates around the subject
+export type BackgroundChoice = BackgroundFill | { type: 'scene'; prompt: string };
+
+// How far from the segmentation edge, in pixels, the matte may soften to follow hair and fine detail
+export const DEFAULT_EDGE_RADIUS = 8;
+export const MAX_EDGE_RADIUS = 32;
+
+/**
+ * Softens an AI subject mask along the image's own edges.
+ * @param image The image the mask belongs to.
+ * @param mask Data URL of the black-and-white subject mask.
+ * @param radius How far from the mask edge the matte may soften, in pixels; 0 keeps the mask hard.
+ * @returns A promise that resolves to the data URL of the greyscale matte.
+ */
+export const refineSubjectMatte = (image: File, mask: string, radius: number): Promise<string> =>
+    runInWorker({ type: 'refine-matte', image, mask, radius });
+
+/**
+ * Cuts the subject out onto a transparent background.
+ * @param image The image to cut out.
+ * @param matte Data URL of the subject matte.
+ * @returns A promise that resolves to the data URL of the cutout as a PNG with alpha.
+ */
+export const createCutout = (image: File, matte: string): Promise<string> =>
+    runInWorker({ type: 'apply-background', image, matte, fill: { type: 'transparent' } });
+
+/**
+ * Puts a new background behind the subject. Scenes are generated by the model around the subject,
+ * then the matte is applied again so the subject and its refined edges come through unchanged.
+ * @param image The image whose background to replace.
+ * @param matte Data URL of the subject matte.
+ * @param choice What to put behind the subject.
+ * @returns A promise that resolves to the data URL of the new image.
+ */
+export const replaceBackground = async (image: File, matte: string, choice: BackgroundChoice): Promise<string> => {
+    if (choice.type !== 'scene') return runInWorker({ type: 'apply-background', image, matte, fill: choice });
+
+    const mask = await dataURLtoFile(await runInWorker({ type: 'background-mask', matte }), 'background-mask.png');
+    const prompt = `Replace the background with: ${choice.prompt}. Match the lighting, perspective and shadows to the subject.`;
+    const sceneUrl = await generateEditedImage(image, prompt, mask, 0);
+    const scene = await dataURLtoFile(sceneUrl, 'scene.png');
+    return runInWorker({ type: 'apply-background', image, matte, fill: { type: 'image', image: scene } });
+};
+
+/**
+ * Summarizes a background choice for the history, leaving out uploaded image data.
+ * @param choice The background choice.
+ * @returns The settings worth recording.
+ */
+export const describeBackgroundChoice = (choice: BackgroundChoice): Record<string, unknown> => {
+    switch (choice.type) {
+        case 'image': return { fill: 'image' };
+        case 'scene': return { fill: 'scene' };
+        default: {
+            const { type, ...settings } = choice;
+            return { fill: type, ...settings };
+        }
+    }
+};
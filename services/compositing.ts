@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { runInWorker } from './imageWorker';
+
+/**
+ * Composites an edited image onto the original, only inside the (feathered) mask, in the image worker.
+ * The edited image is scaled to the original's dimensions, and every pixel outside
+ * the mask is copied verbatim from the original.
+ * @param originalImage The unedited source image.
+ * @param editedImageUrl Data URL of the full-frame edited image.
+ * @param mask Black-and-white mask image; white marks the editable region.
+ * @param feather Width of the soft edge inside the mask, in pixels.
+ * @returns A promise that resolves to the data URL of the composited image.
+ */
+export const compositeWithMask = (originalImage: File, editedImageUrl: string, mask: File, feather: number): Promise<string> =>
+    runInWorker({ type: 'composite-mask', original: originalImage, edited: editedImageUrl, mask, feather });
+
+/**
+ * Brings a model result back to the size an operation expects. Models often answer at their own
+ * resolution or aspect ratio; a result with the right shape is rescaled, and one with a different
+ * shape is matched against the source to find the framing that lines up before it is scaled.
+ * @param resultUrl Data URL of the model's output.
+ * @param source The image the operation started from.
+ * @param target The expected output size and where the source sits inside it; defaults to the source's own size.
+ * @returns A promise that resolves to the data URL of the aligned result.
+ */
+export const alignToSource = async (
+    resultUrl: string,
+    source: File,
+    target?: { width: number; height: number; sourceRect?: { x: number; y: number; width: number; height: number } },
+): Promise<string> => {
+    const { dataUrl, correction } = await runInWorker({ type: 'align-result', result: resultUrl, source, ...target });
+    if (correction !== 'none') console.log(`Model result ${correction} to match ${target ? `${target.width}x${target.height}` : 'the source'}.`);
+    return dataUrl;
+};
+
+/**
+ * Copies an original image back onto a generated result, so its pixels come through bit-exact.
+ * @param resultUrl Data URL of the generated image.
+ * @param original The image to copy back.
+ * @param offset Where the original's top-left corner sits on the result.
+ * @returns A promise that resolves to the data URL of the combined image.
+ */
+export const restoreOriginal = (resultUrl: string, original: File, offset: { x: number; y: number }): Promise<string> =>
+    runInWorker({ type: 'place-image', base: resultUrl, image: original, x: offset.x, y: offset.y });
@@ -0,0 +1,102 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { PercentCrop } from 'react-image-crop';
+
+// A crop rectangle in source image pixels
+export interface CropRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// Composition lines drawn inside the crop selection
+export type CropGuide = 'none' | 'thirds' | 'golden';
+
+// Common ratios, with where they are typically required
+export const CROP_RATIOS: { label: string, value: number | undefined, hint: string }[] = [
+    { label: 'Free', value: undefined, hint: 'Any shape' },
+    { label: '1:1', value: 1, hint: 'Square posts and most product listings' },
+    { label: '4:5', value: 4 / 5, hint: 'Instagram portrait posts' },
+    { label: '3:2', value: 3 / 2, hint: 'Classic 35mm photo and 4×6 prints' },
+    { label: '16:9', value: 16 / 9, hint: 'Video thumbnails and banners' },
+    { label: '9:16', value: 9 / 16, hint: 'Stories, Reels and Shorts' },
+];
+
+// Where each guide places its lines, as fractions of the selection
+export const GUIDE_LINES: Record<Exclude<CropGuide, 'none'>, number[]> = {
+    thirds: [1 / 3, 2 / 3],
+    golden: [1 - 1 / 1.618, 1 / 1.618],
+};
+
+/**
+ * Finds the largest rectangle of an aspect ratio centered in an image.
+ * @param aspect Width divided by height.
+ * @param width The image width.
+ * @param height The image height.
+ * @returns The rectangle in source pixels.
+ */
+export const getCenteredCrop = (aspect: number, width: number, height: number): CropRect => {
+    const cropWidth = Math.min(width, height * aspect);
+    const cropHeight = Math.min(height, width / aspect);
+    return { x: (width - cropWidth) / 2, y: (height - cropHeight) / 2, width: cropWidth, height: cropHeight };
+};
+
+/**
+ * Converts a selection in percent of the image into whole source pixels, kept inside the image.
+ * @param crop The selection as percentages.
+ * @param width The image width.
+ * @param height The image height.
+ * @returns The rectangle in source pixels.
+ */
+export const percentToRect = (crop: Pick<PercentCrop, 'x' | 'y' | 'width' | 'height'>, width: number, height: number): CropRect => {
+    const x = Math.max(0, Math.round((crop.x / 100) * width));
+    const y = Math.max(0, Math.round((crop.y / 100) * height));
+    return {
+        x,
+        y,
+        width: Math.max(1, Math.min(width - x, Math.round((crop.width / 100) * width))),
+        height: Math.max(1, Math.min(height - y, Math.round((crop.height / 100) * height))),
+    };
+};
+
+/**
+ * Converts a rectangle in source pixels into a selection in percent of the image.
+ * @param rect The rectangle in source pixels.
+ * @param width The image width.
+ * @param height The image height.
+ * @returns The selection as percentages.
+ */
+export const rectToPercent = (rect: CropRect, width: number, height: number): PercentCrop => ({
+    unit: '%',
+    x: (rect.x / width) * 100,
+    y: (rect.y / height) * 100,
+    width: (rect.width / width) * 100,
+    height: (rect.height / height) * 100,
+});
+
+/**
+ * Keeps a typed-in rectangle inside the image, holding the aspect ratio when one is set.
+ * @param rect The rectangle the user entered.
+ * @param width The image width.
+ * @param height The image height.
+ * @param aspect The locked aspect ratio, if any; the width wins over the height.
+ * @returns The corrected rectangle.
+ */
+export const clampRect = (rect: CropRect, width: number, height: number, aspect?: number): CropRect => {
+    let w = Math.max(1, Math.min(width, Math.round(rect.width)));
+    let h = Math.max(1, Math.min(height, Math.round(rect.height)));
+    if (aspect) {
+        h = Math.round(w / aspect);
+        if (h > height) {
+            h = height;
+            w = Math.round(h * aspect);
+        }
+    }
+    const x = Math.max(0, Math.min(width - w, Math.round(rect.x)));
+    const y = Math.max(0, Math.min(height - h, Math.round(rect.y)));
+    return { x, y, width: w, height: h };
+};
@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { CurveSet, SavedCurve } from '../types';
+
+const STORAGE_KEY = 'pixshop.savedCurves';
+
+/**
+ * Reads the user's saved curves from local storage.
+ * @returns The saved curves, oldest first. Unreadable data yields an empty list.
+ */
+export const loadSavedCurves = (): SavedCurve[] => {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        if (!raw) return [];
+        const parsed = JSON.parse(raw);
+        return Array.isArray(parsed) ? parsed : [];
+    } catch (err) {
+        console.error('Failed to read saved curves.', err);
+        return [];
+    }
+};
+
+const writeSavedCurves = (curves: SavedCurve[]): void => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(curves));
+};
+
+/**
+ * Saves a curve set under a name. A curve with the same name is overwritten.
+ * @param name The display name of the curve.
+ * @param curves The curve set to save.
+ * @returns The updated list of saved curves.
+ */
+export const saveCurve = (name: string, curves: CurveSet): SavedCurve[] => {
+    const existing = loadSavedCurves();
+    const match = existing.find(c => c.name === name);
+    const entry: SavedCurve = { id: match?.id ?? `curve-${Date.now()}`, name, curves };
+    const updated = match
+        ? existing.map(c => (c.id === match.id ? entry : c))
+        : [...existing, entry];
+    writeSavedCurves(updated);
+    return updated;
+};
+
+/**
+ * Removes a saved curve.
+ * @param id The id of the curve to remove.
+ * @returns The updated list of saved curves.
+ */
+export const deleteSavedCurve = (id: string): SavedCurve[] => {
+    const updated = loadSavedCurves().filter(c => c.id !== id);
+    writeSavedCurves(updated);
+    return updated;
+};
@@ -0,0 +1,36 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Saves a blob to the user's downloads through a temporary link.
+ * @param blob The contents of the file.
+ * @param filename The suggested file name.
+ */
+export const downloadBlob = (blob: Blob, filename: string): void => {
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+};
+
+/**
+ * Formats a byte count for display.
+ * @param bytes The size in bytes.
+ * @returns The size, e.g. "840 B", "3.2 MB" or "12 GB".
+ */
+export const formatBytes = (bytes: number): string => {
+    if (bytes < 1024) return `${bytes} B`;
+    const units = ['KB', 'MB', 'GB'];
+    let value = bytes / 1024;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+};
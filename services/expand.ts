@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ExpandAnchor } from '../types';
+
+// Offset of the original's top-left corner on the expanded canvas, in whole pixels
+export type ExpandOffset = { x: number; y: number };
+
+// The nine anchors in reading order, as laid out in the anchor picker
+export const EXPAND_ANCHORS: ExpandAnchor[] = [
+    'top-left', 'top', 'top-right',
+    'left', 'center', 'right',
+    'bottom-left', 'bottom', 'bottom-right',
+];
+
+export const isExpandAnchor = (value: unknown): value is ExpandAnchor =>
+    EXPAND_ANCHORS.includes(value as ExpandAnchor);
+
+// Where along each axis an anchor puts the original: 0 at the start, 0.5 centered, 1 at the end
+const anchorPosition = (anchor: ExpandAnchor): { x: number, y: number } => ({
+    x: anchor.endsWith('left') ? 0 : anchor.endsWith('right') ? 1 : 0.5,
+    y: anchor.startsWith('top') ? 0 : anchor.startsWith('bottom') ? 1 : 0.5,
+});
+
+/**
+ * Works out where an anchor places the original on an expanded canvas.
+ * Offsets are whole pixels so the original can be copied back without resampling.
+ * @param anchor Where the original should sit.
+ * @param width The original width.
+ * @param height The original height.
+ * @param newWidth The expanded canvas width.
+ * @param newHeight The expanded canvas height.
+ * @returns The offset of the original's top-left corner.
+ */
+export const getAnchorOffset = (anchor: ExpandAnchor, width: number, height: number, newWidth: number, newHeight: number): ExpandOffset => {
+    const position = anchorPosition(anchor);
+    return {
+        x: Math.floor(Math.max(0, newWidth - width) * position.x),
+        y: Math.floor(Math.max(0, newHeight - height) * position.y),
+    };
+};
+
+/**
+ * Describes an anchor for display, e.g. "top left".
+ * @param anchor The anchor to describe.
+ * @returns The anchor in words.
+ */
+export const describeAnchor = (anchor: ExpandAnchor): string => anchor.replace('-', ' ');
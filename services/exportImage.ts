@@ -0,0 +1,171 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { loadImage, createCanvas } from './imageUtils';
+import { embedJpegMetadata, withoutLocation } from './metadata';
+import type { ImageMetadata } from '../types';
+
+export type ExportFormat = 'png' | 'jpeg' | 'webp' | 'avif';
+
+export interface ExportOptions {
+    format: ExportFormat;
+    // Encoder quality from 0 to 1; ignored for PNG, which is lossless
+    quality: number;
+    // Longest edge of the output in pixels; null keeps the original size
+    maxDimension: number | null;
+    // File name without extension; see FILENAME_TOKENS for the placeholders
+    filenameTemplate: string;
+    // Write the image's EXIF and IPTC fields into JPEG files
+    includeMetadata: boolean;
+    // Leave the GPS position out of the embedded metadata
+    stripLocation: boolean;
+}
+
+export const EXPORT_FORMATS: { format: ExportFormat, label: string, mimeType: string, extension: string }[] = [
+    { format: 'png', label: 'PNG', mimeType: 'image/png', extension: 'png' },
+    { format: 'jpeg', label: 'JPEG', mimeType: 'image/jpeg', extension: 'jpg' },
+    { format: 'webp', label: 'WebP', mimeType: 'image/webp', extension: 'webp' },
+    { format: 'avif', label: 'AVIF', mimeType: 'image/avif', extension: 'avif' },
+];
+
+export const FILENAME_TOKENS: { token: string, description: string }[] = [
+    { token: '{name}', description: 'original file name' },
+    { token: '{index}', description: 'position in the batch, from 1' },
+    { token: '{date}', description: 'today, as YYYY-MM-DD' },
+    { token: '{width}', description: 'output width' },
+    { token: '{height}', description: 'output height' },
+];
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+    format: 'png',
+    quality: 0.9,
+    maxDimension: null,
+    filenameTemplate: '{name}-pixshop-edited',
+    includeMetadata: true,
+    stripLocation: true,
+};
+
+const STORAGE_KEY = 'pixshop.exportOptions';
+
+const formatInfo = (format: ExportFormat) => EXPORT_FORMATS.find(f => f.format === format) ?? EXPORT_FORMATS[0];
+
+/**
+ * Reads the export settings used last time. A saved format this browser can't encode,
+ * e.g. when the settings came from another browser, is replaced by the default format.
+ * @returns The stored settings, or the defaults.
+ */
+export const loadExportOptions = (): ExportOptions => {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        if (!raw) return DEFAULT_EXPORT_OPTIONS;
+        const options: ExportOptions = { ...DEFAULT_EXPORT_OPTIONS, ...JSON.parse(raw) };
+        const known = EXPORT_FORMATS.some(f => f.format === options.format);
+        return known && isFormatSupported(options.format) ? options : { ...options, format: DEFAULT_EXPORT_OPTIONS.format };
+    } catch (err) {
+        console.error('Failed to read export options.', err);
+        return DEFAULT_EXPORT_OPTIONS;
+    }
+};
+
+export const saveExportOptions = (options: ExportOptions): void => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(options));
+    } catch (err) {
+        console.error('Failed to save export options.', err);
+    }
+};
+
+const supportCache = new Map<ExportFormat, boolean>();
+
+/**
+ * Reports whether this browser can encode a format. Browsers that can't encode a
+ * type silently fall back to PNG, which is what this detects.
+ * @param format The format to check.
+ * @returns True when canvas encoding to the format works.
+ */
+export const isFormatSupported = (format: ExportFormat): boolean => {
+    const cached = supportCache.get(format);
+    if (cached !== undefined) return cached;
+    const { mimeType } = formatInfo(format);
+    const { canvas } = createCanvas(1, 1);
+    const supported = canvas.toDataURL(mimeType).startsWith(`data:${mimeType}`);
+    supportCache.set(format, supported);
+    return supported;
+};
+
+/**
+ * Computes the output size for a longest-edge limit; images are never enlarged.
+ * @param width The source width.
+ * @param height The source height.
+ * @param maxDimension The longest edge allowed, or null for no limit.
+ * @returns The output dimensions.
+ */
+export const getExportDimensions = (width: number, height: number, maxDimension: number | null): { width: number, height: number } => {
+    const ratio = maxDimension ? Math.min(1, maxDimension / Math.max(width, height)) : 1;
+    return { width: Math.max(1, Math.round(width * ratio)), height: Math.max(1, Math.round(height * ratio)) };
+};
+
+/**
+ * Encodes an image with the given export settings.
+ * @param file The image to export.
+ * @param options The export settings.
+ * @param metadata The image's metadata, embedded into JPEG output when the settings ask for it.
+ * @returns A promise that resolves to the encoded image and its dimensions.
+ */
+export const renderExport = async (
+    file: Blob,
+    options: ExportOptions,
+    metadata: ImageMetadata | null = null,
+): Promise<{ blob: Blob, width: number, height: number }> => {
+    const image = await loadImage(file);
+    const { width, height } = getExportDimensions(image.naturalWidth, image.naturalHeight, options.maxDimension);
+    const { mimeType } = formatInfo(options.format);
+
+    // An unscaled PNG is already exactly what was asked for, so its bytes pass through untouched
+    if (options.format === 'png' && file.type === 'image/png' && width === image.naturalWidth && height === image.naturalHeight) {
+        return { blob: file, width, height };
+    }
+
+    const { canvas, ctx } = createCanvas(width, height);
+    if (options.format === 'jpeg') {
+        // JPEG has no alpha channel; flatten transparency onto white instead of black
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, width, height);
+    }
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(image, 0, 0, width, height);
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, mimeType, options.quality));
+    // Browsers that can't encode a type hand back PNG instead, which must not be saved under another extension
+    if (!blob || blob.type !== mimeType) throw new Error(`This browser can't encode images as ${formatInfo(options.format).label}.`);
+    if (options.format === 'jpeg' && options.includeMetadata && metadata) {
+        const embedded = await embedJpegMetadata(blob, options.stripLocation ? withoutLocation(metadata) : metadata);
+        return { blob: embedded, width, height };
+    }
+    return { blob, width, height };
+};
+
+/**
+ * Fills in a file name template and appends the format's extension.
+ * @param template The template, e.g. "{name}-{index}".
+ * @param values The values for the placeholders.
+ * @param format The export format.
+ * @returns A file name safe to offer for download.
+ */
+export const buildFilename = (
+    template: string,
+    values: { name: string, index: number, width: number, height: number },
+    format: ExportFormat,
+): string => {
+    const baseName = values.name.replace(/\.[^/.]+$/, '') || 'image';
+    const filled = (template.trim() || DEFAULT_EXPORT_OPTIONS.filenameTemplate)
+        .replace(/\{name\}/g, baseName)
+        .replace(/\{index\}/g, String(values.index))
+        .replace(/\{date\}/g, new Date().toISOString().slice(0, 10))
+        .replace(/\{width\}/g, String(values.width))
+        .replace(/\{height\}/g, String(values.height))
+        .replace(/[\\/:*?"<>|]+/g, '-');
+    return `${filled}.${formatInfo(format).extension}`;
+};
@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Turns a hard selection mask into soft blend weights for compositing edits. Runs inside the image worker.
+
+// Blurs a single-channel buffer with three box passes, a close approximation of a gaussian.
+const blurChannel = (channel: Float32Array, width: number, height: number, radius: number): Float32Array => {
+    if (radius < 1) return channel;
+    let src = Float32Array.from(channel);
+    let dst = new Float32Array(channel.length);
+    const r = Math.max(1, Math.round(radius / 3));
+    const windowSize = r * 2 + 1;
+
+    for (let pass = 0; pass < 3; pass++) {
+        // Horizontal pass
+        for (let y = 0; y < height; y++) {
+            const row = y * width;
+            let sum = 0;
+            for (let k = -r; k <= r; k++) sum += src[row + Math.min(width - 1, Math.max(0, k))];
+            for (let x = 0; x < width; x++) {
+                dst[row + x] = sum / windowSize;
+                sum += src[row + Math.min(width - 1, x + r + 1)] - src[row + Math.max(0, x - r)];
+            }
+        }
+        [src, dst] = [dst, src];
+
+        // Vertical pass
+        for (let x = 0; x < width; x++) {
+            let sum = 0;
+            for (let k = -r; k <= r; k++) sum += src[Math.min(height - 1, Math.max(0, k)) * width + x];
+            for (let y = 0; y < height; y++) {
+                dst[y * width + x] = sum / windowSize;
+                sum += src[Math.min(height - 1, y + r + 1) * width + x] - src[Math.max(0, y - r) * width + x];
+            }
+        }
+        [src, dst] = [dst, src];
+    }
+    return src;
+};
+
+/**
+ * Builds a per-pixel blend weight (0..1) from a black-and-white mask, feathered inwards.
+ * Pixels outside the mask always get a weight of exactly 0.
+ * @param mask Mask pixels; any channel above mid-grey counts as selected.
+ * @param feather Width of the soft edge in pixels.
+ * @returns The blend weight for every pixel.
+ */
+export const buildFeatheredAlpha = (mask: ImageData, feather: number): Float32Array => {
+    const { width, height, data } = mask;
+    const binary = new Float32Array(width * height);
+    for (let i = 0; i < binary.length; i++) {
+        binary[i] = data[i * 4] > 127 && data[i * 4 + 3] > 127 ? 1 : 0;
+    }
+    if (feather < 1) return binary;
+
+    // Blurring spreads the edge across both sides; remapping the inner half to 0..1
+    // keeps the ramp inside the selection.
+    const blurred = blurChannel(binary, width, height, feather * 2);
+    for (let i = 0; i < blurred.length; i++) {
+        blurred[i] = binary[i] === 0 ? 0 : Math.min(1, Math.max(0, (blurred[i] - 0.5) * 2));
+    }
+    return blurred;
+};
@@ -0,0 +1,283 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import type { ImageProvider, Hotspot } from './imageProvider';
+import { fileToPart, getImageDimensions } from './imageUtils';
+import { runInWorker } from './imageWorker';
+import type { ExpandOffset } from './expand';
+
+type Part = { inlineData: { mimeType: string; data: string; } } | { text: string };
+
+/**
+ * Awaits a promise and retries it on failure with exponential backoff.
+ * This is useful for handling transient network errors or temporary server issues (like 500 errors).
+ * @param fn The async function to execute.
+ * @param retries Number of retries.
+ * @param initialDelay Initial delay in ms.
+ * @returns The result of the async function.
+ */
+const withRetry = async <T>(
+    fn: () => Promise<T>,
+    retries = 3,
+    initialDelay = 1000
+): Promise<T> => {
+    let lastError: Error | undefined;
+    let delay = initialDelay;
+    for (let i = 0; i < retries; i++) {
+        try {
+            return await fn();
+        } catch (error) {
+            lastError = error as Error;
+            // Don't retry on client-side errors that won't resolve on their own.
+            // This is a basic check; a more sophisticated check might inspect a status code if available.
+            if (error instanceof Error && error.message.includes("blocked")) {
+                console.error("Request blocked, not retrying.", error);
+                throw error;
+            }
+            console.warn(`API call attempt ${i + 1} of ${retries} failed. Retrying in ${delay}ms...`, error);
+            await new Promise(resolve => setTimeout(resolve, delay));
+            delay *= 2; // Exponential backoff
+        }
+    }
+    console.error("All retry attempts failed.");
+    throw lastError ?? new Error("All retry attempts failed.");
+};
+
+const handleApiResponse = (
+    response: GenerateContentResponse,
+    context: string // e.g., "edit", "filter", "adjustment"
+): string => {
+    // 1. Check for prompt blocking first
+    if (response.promptFeedback?.blockReason) {
+        const { blockReason, blockReasonMessage } = response.promptFeedback;
+        const errorMessage = `Request was blocked. Reason: ${blockReason}. ${blockReasonMessage || ''}`;
+        console.error(errorMessage, { response });
+        throw new Error(errorMessage);
+    }
+
+    // 2. Try to find the image part
+    const imagePartFromResponse = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
+
+    if (imagePartFromResponse?.inlineData) {
+        const { mimeType, data } = imagePartFromResponse.inlineData;
+        console.log(`Received image data (${mimeType}) for ${context}`);
+        return `data:${mimeType};base64,${data}`;
+    }
+
+    // 3. If no image, check for other reasons
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (finishReason && finishReason !== 'STOP') {
+        const errorMessage = `Image generation for ${context} stopped unexpectedly. Reason: ${finishReason}. This often relates to safety settings.`;
+        console.error(errorMessage, { response });
+        throw new Error(errorMessage);
+    }
+
+    const textFeedback = response.text?.trim();
+    const errorMessage = `The AI model did not return an image for the ${context}. ` +
+        (textFeedback
+            ? `The model responded with text: "${textFeedback}"`
+            : "This can happen due to safety filters or if the request is too complex. Please try rephrasing your prompt to be more direct.");
+
+    console.error(`Model response did not contain an image part for ${context}.`, { response });
+    throw new Error(errorMessage);
+};
+
+/**
+ * Creates an image provider backed by the Gemini image model.
+ * @param apiKey The Gemini API key.
+ * @param model The image-capable Gemini model to call.
+ * @returns An ImageProvider that sends every operation to Gemini.
+ */
+export const createGeminiProvider = (apiKey: string, model: string): ImageProvider => {
+    const ai = new GoogleGenAI({ apiKey });
+
+    // Sends the given parts to the model and extracts the returned image.
+    const generate = async (parts: Part[], context: string): Promise<string> => {
+        const apiCall = () => ai.models.generateContent({
+            model,
+            contents: { parts },
+        });
+
+        const response: GenerateContentResponse = await withRetry(apiCall);
+        console.log(`Received response from model for ${context}.`, response);
+
+        return handleApiResponse(response, context);
+    };
+
+    return {
+        name: 'gemini',
+        model,
+
+        async editImage(originalImage: File, userPrompt: string, mask: File) {
+            console.log('Starting masked generative edit...');
+            const originalImagePart = await fileToPart(originalImage);
+            const maskPart = await fileToPart(mask);
+            const prompt = `You are an expert photo editor AI. Your task is to perform a natural, localized edit on the provided image based on the user's request.
+The first image is the photo to edit. The second image is a black-and-white mask of the same size: white pixels mark the region you must edit, black pixels must stay unchanged.
+User Request: "${userPrompt}"
+
+Editing Guidelines:
+- Apply the edit only inside the white region of the mask.
+- The edit must be realistic and blend seamlessly with the surrounding area.
+- Everything in the black region of the mask must remain identical to the original.
+- Your output must have the same dimensions as the first image.
+
+Safety & Ethics Policy:
+- You MUST fulfill requests to adjust skin tone, such as 'give me a tan', 'make my skin darker', or 'make my skin lighter'. These are considered standard photo enhancements.
+- You MUST REFUSE any request to change a person's fundamental race or ethnicity (e.g., 'make me look Asian', 'change this person to be Black'). Do not perform these edits. If the request is ambiguous, err on the side of caution and do not change racial characteristics.
+
+Output: Return ONLY the final edited image. Do not return text.`;
+
+            console.log('Sending image, mask and prompt to the model...');
+            return generate([originalImagePart, maskPart, { text: prompt }], 'edit');
+        },
+
+        async filterImage(originalImage: File, filterPrompt: string) {
+            console.log(`Starting filter generation: ${filterPrompt}`);
+            const originalImagePart = await fileToPart(originalImage);
+            const prompt = `You are an expert photo editor AI. Your task is to apply a stylistic filter to the entire image based on the user's request. Do not change the composition or content, only apply the style.
+Filter Request: "${filterPrompt}"
+
+Safety & Ethics Policy:
+- Filters may subtly shift colors, but you MUST ensure they do not alter a person's fundamental race or ethnicity.
+- You MUST REFUSE any request that explicitly asks to change a person's race (e.g., 'apply a filter to make me look Chinese').
+
+Output: Return ONLY the final filtered image. Do not return text.`;
+
+            console.log('Sending image and filter prompt to the model...');
+            return generate([originalImagePart, { text: prompt }], 'filter');
+        },
+
+        async adjustImage(originalImage: File, adjustmentPrompt: string) {
+            console.log(`Starting global adjustment generation: ${adjustmentPrompt}`);
+            const originalImagePart = await fileToPart(originalImage);
+            const prompt = `You are an expert photo editor AI. Your task is to perform a natural, global adjustment to the entire image based on the user's request.
+User Request: "${adjustmentPrompt}"
+
+Editing Guidelines:
+- The adjustment must be applied across the entire image.
+- The result must be photorealistic.
+
+Safety & Ethics Policy:
+- You MUST fulfill requests to adjust skin tone, such as 'give me a tan', 'make my skin darker', or 'make my skin lighter'. These are considered standard photo enhancements.
+- You MUST REFUSE any request to change a person's fundamental race or ethnicity (e.g., 'make me look Asian', 'change this person to be Black'). Do not perform these edits. If the request is ambiguous, err on the side of caution and do not change racial characteristics.
+
+Output: Return ONLY the final adjusted image. Do not return text.`;
+
+            console.log('Sending image and adjustment prompt to the model...');
+            return generate([originalImagePart, { text: prompt }], 'adjustment');
+        },
+
+        async autoEnhanceImage(originalImage: File) {
+            console.log(`Starting auto-enhance generation...`);
+            const originalImagePart = await fileToPart(originalImage);
+            const prompt = `You are an expert photo editor AI. Your task is to automatically enhance the provided image.
+
+Instructions:
+- Analyze the image and apply professional-grade adjustments to improve its overall quality.
+- Subtly improve brightness, contrast, saturation, and sharpness.
+- Ensure the result is photorealistic and natural-looking.
+- Do NOT change the content, composition, or crop of the image. Just enhance what is already there.
+
+Safety & Ethics Policy:
+- Enhancements may subtly shift colors, but you MUST ensure they do not alter a person's fundamental race or ethnicity.
+- You MUST REFUSE any request that explicitly asks to change a person's race.
+
+Output: Return ONLY the final enhanced image. Do not return text.`;
+
+            console.log('Sending image for auto-enhancement...');
+            return generate([originalImagePart, { text: prompt }], 'auto-enhance');
+        },
+
+        async expandImage(originalImage: File, newWidth: number, newHeight: number, userPrompt: string, offset: ExpandOffset) {
+            console.log(`Starting magic expand to ${newWidth}x${newHeight} at ${offset.x},${offset.y}`);
+            const { width, height } = await getImageDimensions(originalImage);
+
+            // Place the original on the larger canvas and mark everything around it for filling, both in the image worker
+            const [compositeImageDataUrl, maskDataUrl] = await Promise.all([
+                runInWorker({ type: 'expand-canvas', image: originalImage, width: newWidth, height: newHeight, x: offset.x, y: offset.y }),
+                runInWorker({ type: 'outpaint-mask', width: newWidth, height: newHeight, rect: { x: offset.x, y: offset.y, width, height } }),
+            ]);
+
+            // Convert the composite and mask to Parts
+            const compositeImagePart = { inlineData: { mimeType: 'image/png', data: compositeImageDataUrl.split(',')[1] } };
+            const maskPart = { inlineData: { mimeType: 'image/png', data: maskDataUrl.split(',')[1] } };
+
+            const prompt = `You are an expert photo editor AI. The user has expanded the canvas of the provided image (${newWidth}x${newHeight}px). The original picture occupies the ${width}x${height}px area whose top-left corner is at (${offset.x}, ${offset.y}); everything else is transparent.
+The second image is a mask of the same size: white marks the area you must fill, black marks the original picture, which must stay exactly as it is.
+Your task is to generatively fill the white area to create a seamless, larger picture. The filled area must logically extend the existing scene.
+User's guidance for the new areas: "${userPrompt}".
+If the user guidance is empty, just extend the existing background and scene naturally. Your output must be the same dimensions as the input image (${newWidth}x${newHeight}px).
+Return ONLY the final, fully filled image. Do not return text.`;
+
+            console.log('Sending composite image, fill mask and expand prompt to the model...');
+            return generate([compositeImagePart, maskPart, { text: prompt }], 'expansion');
+        },
+
+        async upscaleImage(originalImage: File, scaleFactor: number) {
+            console.log(`Starting AI upscale by ${scaleFactor}x`);
+            const { width: originalWidth, height: originalHeight } = await getImageDimensions(originalImage);
+            const targetWidth = originalWidth * scaleFactor;
+            const targetHeight = originalHeight * scaleFactor;
+
+            const originalImagePart = await fileToPart(originalImage);
+            const prompt = `You are an expert in image processing and AI upscaling. Your task is to increase the resolution of the provided image by a factor of ${scaleFactor}.
+The final output image MUST be exactly ${targetWidth}x${targetHeight} pixels.
+
+Your goal is to intelligently add realistic details, enhance textures, and sharpen edges without introducing artifacts or unnatural patterns. The upscaled image should be a high-fidelity, photorealistic version of the original.
+
+Output: Return ONLY the final upscaled image. Do not return text.`;
+
+            console.log(`Sending image to model for ${scaleFactor}x upscale...`);
+            return generate([originalImagePart, { text: prompt }], 'upscale');
+        },
+
+        async composeImages(baseImage: File, complementImage: File, userPrompt: string, hotspot: Hotspot | null) {
+            console.log(`Starting image composition: ${userPrompt}`);
+            const baseImagePart = await fileToPart(baseImage);
+            const complementImagePart = await fileToPart(complementImage);
+
+            const locationInstruction = hotspot
+                ? `Place the second image with its center near the specified coordinates (x: ${hotspot.x}, y: ${hotspot.y}) on the base image.`
+                : `Intelligently determine the best placement for the second image based on the user's instruction.`;
+
+            const prompt = `You are an expert photo editor AI. Your task is to seamlessly combine two images.
+- The first image is the base scene.
+- The second image is the object or element to be added to the base scene.
+
+User's instruction: "${userPrompt}"
+
+Placement: ${locationInstruction}
+
+Instructions:
+- Analyze both images and the user's prompt.
+- Integrate the second image into the first image in a photorealistic way that matches the lighting, perspective, and style of the base scene.
+- The result must be a single, coherent image.
+
+Output: Return ONLY the final composed image. Do not return text.`;
+
+            console.log('Sending images and composition prompt to the model...');
+            return generate([baseImagePart, complementImagePart, { text: prompt }], 'composition');
+        },
+
+        async segmentSubject(originalImage: File) {
+            console.log('Starting subject segmentation');
+            const { width, height } = await getImageDimensions(originalImage);
+            const originalImagePart = await fileToPart(originalImage);
+            const prompt = `You are an expert at image segmentation for product photography. Create a segmentation mask of the main subject of the provided image.
+- Paint every pixel that belongs to the main subject (the product, person or object in focus, including its held or attached parts) pure white.
+- Paint everything else, including the background, floor, and cast shadows, pure black.
+- Follow the subject's outline as precisely as possible, including fine details such as hair, straps, and thin edges.
+- Do not include any text, gradients, or other colors.
+The mask must be exactly ${width}x${height} pixels and line up with the input image.
+
+Output: Return ONLY the black-and-white mask image. Do not return text.`;
+
+            console.log('Sending image and segmentation prompt to the model...');
+            return generate([originalImagePart, { text: prompt }], 'segmentation');
+        },
+    };
+};
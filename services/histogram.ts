@@ -0,0 +1,157 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { loadImage, createCanvas } from './imageUtils';
+
+// Per-channel counts of how many pixels have each 0-255 value
+export interface Histogram {
+    red: Uint32Array;
+    green: Uint32Array;
+    blue: Uint32Array;
+    luminance: Uint32Array;
+    pixelCount: number;
+}
+
+/**
+ * Counts the values of every pixel. Fully transparent pixels are ignored.
+ * @param imageData The pixels to analyse.
+ * @returns The histogram of the red, green, blue and luminance channels.
+ */
+export const computeHistogram = (imageData: ImageData): Histogram => {
+    const red = new Uint32Array(256);
+    const green = new Uint32Array(256);
+    const blue = new Uint32Array(256);
+    const luminance = new Uint32Array(256);
+    const data = imageData.data;
+    let pixelCount = 0;
+    for (let i = 0; i < data.length; i += 4) {
+        if (data[i + 3] === 0) continue;
+        const r = data[i], g = data[i + 1], b = data[i + 2];
+        red[r]++;
+        green[g]++;
+        blue[b]++;
+        // Rec. 709 luma weights
+        luminance[Math.round(0.2126 * r + 0.7152 * g + 0.0722 * b)]++;
+        pixelCount++;
+    }
+    return { red, green, blue, luminance, pixelCount };
+};
+
+// Summary numbers shown next to the histogram
+export interface ImageStats {
+    width: number;
+    height: number;
+    mean: { red: number, green: number, blue: number, luminance: number };
+    // Percentage of pixels with at least one channel at 0 or 255
+    shadowClipping: number;
+    highlightClipping: number;
+    // Most common colors as hex strings with their share of the image in percent
+    dominantColors: { color: string, share: number }[];
+}
+
+// Mean value of a histogram channel
+const histogramMean = (counts: Uint32Array, total: number): number => {
+    if (total === 0) return 0;
+    let sum = 0;
+    for (let i = 0; i < 256; i++) sum += i * counts[i];
+    return sum / total;
+};
+
+const toHex = (value: number): string => Math.round(value).toString(16).padStart(2, '0');
+
+/**
+ * Computes the statistics of sampled pixel data.
+ * @param imageData The sampled pixels.
+ * @param histogram The histogram of the same pixels.
+ * @param width The width of the full-resolution image.
+ * @param height The height of the full-resolution image.
+ * @param colorCount How many dominant colors to report.
+ * @returns The image statistics.
+ */
+export const computeImageStats = (imageData: ImageData, histogram: Histogram, width: number, height: number, colorCount = 5): ImageStats => {
+    const data = imageData.data;
+    let shadowPixels = 0;
+    let highlightPixels = 0;
+
+    // Dominant colors: bucket by the top 4 bits of each channel, then average the members of each bucket
+    const buckets = new Map<number, { count: number, r: number, g: number, b: number }>();
+    for (let i = 0; i < data.length; i += 4) {
+        if (data[i + 3] === 0) continue;
+        const r = data[i], g = data[i + 1], b = data[i + 2];
+        if (r === 0 || g === 0 || b === 0) shadowPixels++;
+        if (r === 255 || g === 255 || b === 255) highlightPixels++;
+        const key = ((r >> 4) << 8) | ((g >> 4) << 4) | (b >> 4);
+        const bucket = buckets.get(key);
+        if (bucket) {
+            bucket.count++;
+            bucket.r += r;
+            bucket.g += g;
+            bucket.b += b;
+        } else {
+            buckets.set(key, { count: 1, r, g, b });
+        }
+    }
+
+    const total = histogram.pixelCount;
+    const dominantColors = [...buckets.values()]
+        .sort((a, b) => b.count - a.count)
+        .slice(0, colorCount)
+        .map(bucket => ({
+            color: `#${toHex(bucket.r / bucket.count)}${toHex(bucket.g / bucket.count)}${toHex(bucket.b / bucket.count)}`,
+            share: (bucket.count / total) * 100,
+        }));
+
+    return {
+        width,
+        height,
+        mean: {
+            red: histogramMean(histogram.red, total),
+            green: histogramMean(histogram.green, total),
+            blue: histogramMean(histogram.blue, total),
+            luminance: histogramMean(histogram.luminance, total),
+        },
+        shadowClipping: total ? (shadowPixels / total) * 100 : 0,
+        highlightClipping: total ? (highlightPixels / total) * 100 : 0,
+        dominantColors,
+    };
+};
+
+/**
+ * Computes the histogram and statistics of an image file from a downscaled copy, which
+ * is accurate enough for display and keeps large images fast.
+ * @param file The image to analyse.
+ * @param maxDimension The longest edge of the copy that is sampled.
+ * @returns A promise that resolves to the histogram and the statistics.
+ */
+export const analyzeImage = async (file: File, maxDimension = 512): Promise<{ histogram: Histogram, stats: ImageStats }> => {
+    const image = await loadImage(file);
+    const ratio = Math.min(1, maxDimension / Math.max(image.naturalWidth, image.naturalHeight));
+    const { canvas, ctx } = createCanvas(
+        Math.max(1, Math.round(image.naturalWidth * ratio)),
+        Math.max(1, Math.round(image.naturalHeight * ratio))
+    );
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const histogram = computeHistogram(imageData);
+    return { histogram, stats: computeImageStats(imageData, histogram, image.naturalWidth, image.naturalHeight) };
+};
+
+/**
+ * Builds a closed SVG path outlining a histogram channel in a 255x255 box. Counts are
+ * scaled by their square root so sparse tones stay visible next to large peaks.
+ * @param counts The 256 counts of the channel.
+ * @returns The path data, or an empty string for an empty channel.
+ */
+export const buildHistogramPath = (counts: Uint32Array): string => {
+    let peak = 0;
+    for (let i = 0; i < 256; i++) peak = Math.max(peak, counts[i]);
+    if (peak === 0) return '';
+    const scale = Math.sqrt(peak);
+    let path = 'M0,255';
+    for (let i = 0; i < 256; i++) {
+        path += ` L${i},${255 - (Math.sqrt(counts[i]) / scale) * 255}`;
+    }
+    return `${path} L255,255 Z`;
+};
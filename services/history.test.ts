@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import {
+    addHistoryEntry, createImageState, getActiveBranch, getChildren, getCurrentEntry,
+    jumpToEntry, linkLinearHistory, redoEntry, undoEntry,
+} from './history';
+
+const file = (name: string) => new File([name], `${name}.png`, { type: 'image/png' });
+
+// original -> a -> b, then a branch c made from a
+const buildTree = () => {
+    let image = createImageState('image', file('original'));
+    image = addHistoryEntry(image, file('a'), { type: 'filter' });
+    const a = image.currentEntryId;
+    image = addHistoryEntry(image, file('b'), { type: 'adjustment' });
+    const b = image.currentEntryId;
+    image = addHistoryEntry(image, file('c'), { type: 'crop' }, a);
+    const c = image.currentEntryId;
+    return { image, root: image.history[0].id, a, b, c };
+};
+
+describe('history tree', () => {
+    it('starts a branch beside later versions instead of replacing them', () => {
+        const { image, a, b, c } = buildTree();
+        expect(image.history).toHaveLength(4);
+        expect(getChildren(image, a).map(entry => entry.id)).toEqual([b, c]);
+        expect(image.headEntryId).toBe(c);
+    });
+
+    it('undoes to the parent and redoes along the active branch', () => {
+        const { image, root, a, c } = buildTree();
+        const undone = undoEntry(image);
+        expect(undone.currentEntryId).toBe(a);
+        expect(undoEntry(undoEntry(undone)).currentEntryId).toBe(root);
+        expect(redoEntry(undone).currentEntryId).toBe(c);
+        expect(redoEntry(image)).toBe(image);
+    });
+
+    it('follows the newest descendant when jumping off the active branch', () => {
+        const { image, root, a, b } = buildTree();
+        const jumped = jumpToEntry(image, b);
+        expect(jumped.currentEntryId).toBe(b);
+        expect(getActiveBranch(jumped).map(entry => entry.id)).toEqual([root, a, b]);
+
+        // Jumping back to a shared ancestor keeps the branch that was active
+        const back = jumpToEntry(jumped, a);
+        expect(back.headEntryId).toBe(b);
+        expect(redoEntry(back).currentEntryId).toBe(b);
+    });
+
+    it('ignores jumps to unknown versions', () => {
+        const { image } = buildTree();
+        expect(jumpToEntry(image, 'missing')).toBe(image);
+    });
+});
+
+describe('linear histories', () => {
+    const linear = (historyIndex: number) => ({
+        history: ['one', 'two', 'three'].map((id, i) => ({ id, file: file(id), operation: { type: 'filter' as const }, timestamp: i })),
+        historyIndex,
+    });
+
+    it('link each version to the one before it', () => {
+        const tree = linkLinearHistory(linear(1));
+        expect(tree.history.map(entry => entry.parentId)).toEqual([null, 'one', 'two']);
+        expect(getCurrentEntry(tree).id).toBe('two');
+        expect(tree.headEntryId).toBe('three');
+    });
+
+    it('clamp an out-of-range position and fall back to the newest version for a broken one', () => {
+        expect(linkLinearHistory(linear(7)).currentEntryId).toBe('three');
+        expect(linkLinearHistory(linear(-2)).currentEntryId).toBe('one');
+        expect(linkLinearHistory(linear(Number.NaN)).currentEntryId).toBe('three');
+    });
+});
@@ -0,0 +1,215 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { HistoryEntry, HistoryOperation, ImageState, OperationType } from '../types';
+import { describeTransform, isImageTransform } from './transform';
+
+// The parts of an image state the read-only helpers need, so stored sessions can use them too
+export type HistoryTree = Pick<ImageState, 'history' | 'currentEntryId' | 'headEntryId'>;
+
+const OPERATION_NAMES: Record<OperationType, string> = {
+    'upload': 'Original',
+    'retouch': 'Retouch',
+    'filter': 'Filter',
+    'adjustment': 'Adjustment',
+    'pixel-adjustment': 'Adjustment',
+    'auto-enhance': 'Auto-Enhance',
+    'compose': 'Compose',
+    'crop': 'Crop',
+    'transform': 'Transform',
+    'resize': 'Resize',
+    'expand': 'Magic Expand',
+    'upscale': 'Upscale',
+    'background': 'Background',
+    'recipe': 'Recipe',
+};
+
+/**
+ * Wraps a newly produced file in a history entry.
+ * @param file The image file of this version.
+ * @param operation How the file was produced.
+ * @param parentId The version the file was made from, or null for an original.
+ * @returns The new history entry.
+ */
+export const createHistoryEntry = (file: File, operation: HistoryOperation, parentId: string | null = null): HistoryEntry => ({
+    id: `entry-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    parentId,
+    file,
+    operation,
+    timestamp: Date.now(),
+});
+
+/**
+ * Creates the state of a freshly uploaded image with a single-version history.
+ * @param id The id of the image.
+ * @param file The uploaded file.
+ * @returns The new image state.
+ */
+export const createImageState = (id: string, file: File): ImageState => {
+    const root = createHistoryEntry(file, { type: 'upload' });
+    return {
+        id,
+        name: file.name,
+        history: [root],
+        currentEntryId: root.id,
+        headEntryId: root.id,
+        isProcessing: false,
+        error: null,
+        metadata: null,
+    };
+};
+
+/**
+ * Finds a version of an image by id.
+ * @param image The image state.
+ * @param entryId The id of the version.
+ * @returns The entry, or undefined if the image has no such version.
+ */
+export const getEntry = (image: HistoryTree, entryId: string): HistoryEntry | undefined =>
+    image.history.find(entry => entry.id === entryId);
+
+/**
+ * Returns the version currently shown for an image.
+ * @param image The image state.
+ * @returns The current entry.
+ */
+export const getCurrentEntry = (image: HistoryTree): HistoryEntry =>
+    getEntry(image, image.currentEntryId) ?? image.history[0];
+
+// How version 1 sessions and projects kept their versions: a list with the shown version's position.
+// Everything saved in version 1 has this shape and is linked into a tree when it is read.
+export type LinearHistory = {
+    history: Omit<HistoryEntry, 'parentId'>[];
+    historyIndex: number;
+};
+
+/**
+ * Converts a linear history into a tree. Each version becomes the child of the one before it,
+ * the saved position becomes the current version and the newest version the branch tip.
+ * @param image The linear history; must hold at least one version.
+ * @returns The same versions as a history tree.
+ */
+export const linkLinearHistory = ({ history, historyIndex }: LinearHistory): HistoryTree => {
+    const linked = history.map((entry, i) => ({ ...entry, parentId: i === 0 ? null : history[i - 1].id }));
+    const index = Number.isInteger(historyIndex) ? Math.min(Math.max(0, historyIndex), linked.length - 1) : linked.length - 1;
+    return { history: linked, currentEntryId: linked[index].id, headEntryId: linked[linked.length - 1].id };
+};
+
+/**
+ * Lists the versions made directly from a version, oldest first.
+ * @param image The image state.
+ * @param entryId The id of the parent version.
+ * @returns The child entries.
+ */
+export const getChildren = (image: HistoryTree, entryId: string): HistoryEntry[] =>
+    image.history.filter(entry => entry.parentId === entryId);
+
+/**
+ * Walks from the original to a version.
+ * @param image The image state.
+ * @param entryId The id of the last version on the path.
+ * @returns The entries from the root to the given version, inclusive.
+ */
+export const getPathTo = (image: HistoryTree, entryId: string): HistoryEntry[] => {
+    const path: HistoryEntry[] = [];
+    let entry = getEntry(image, entryId);
+    while (entry) {
+        path.unshift(entry);
+        entry = entry.parentId ? getEntry(image, entry.parentId) : undefined;
+    }
+    return path;
+};
+
+/**
+ * Returns the active branch: every version from the original to the branch tip.
+ * @param image The image state.
+ * @returns The entries of the active branch, root first.
+ */
+export const getActiveBranch = (image: HistoryTree): HistoryEntry[] => getPathTo(image, image.headEntryId);
+
+/**
+ * Adds a version made from an existing one. If that version already has later
+ * versions, the new one starts a branch beside them rather than replacing them.
+ * @param image The image state.
+ * @param file The new image file.
+ * @param operation How the file was produced.
+ * @param parentId The version the file was made from; defaults to the current one.
+ * @returns The updated image state, showing the new version.
+ */
+export const addHistoryEntry = (image: ImageState, file: File, operation: HistoryOperation, parentId = image.currentEntryId): ImageState => {
+    const entry = createHistoryEntry(file, operation, parentId);
+    return { ...image, history: [...image.history, entry], currentEntryId: entry.id, headEntryId: entry.id };
+};
+
+/**
+ * Shows another version. When it lies off the active branch, that version's most
+ * recent descendant becomes the new branch tip so redo keeps working.
+ * @param image The image state.
+ * @param entryId The version to show.
+ * @returns The updated image state.
+ */
+export const jumpToEntry = (image: ImageState, entryId: string): ImageState => {
+    if (!getEntry(image, entryId)) return image;
+    const isOnActiveBranch = getActiveBranch(image).some(entry => entry.id === entryId);
+    let headEntryId = image.headEntryId;
+    if (!isOnActiveBranch) {
+        headEntryId = entryId;
+        let children = getChildren(image, headEntryId);
+        while (children.length > 0) {
+            headEntryId = children[children.length - 1].id;
+            children = getChildren(image, headEntryId);
+        }
+    }
+    return { ...image, currentEntryId: entryId, headEntryId };
+};
+
+/**
+ * Steps back to the parent of the current version.
+ * @param image The image state.
+ * @returns The updated image state, or the same state at the original.
+ */
+export const undoEntry = (image: ImageState): ImageState => {
+    const parentId = getCurrentEntry(image).parentId;
+    return parentId ? { ...image, currentEntryId: parentId } : image;
+};
+
+/**
+ * Steps forward along the active branch.
+ * @param image The image state.
+ * @returns The updated image state, or the same state at the branch tip.
+ */
+export const redoEntry = (image: ImageState): ImageState => {
+    const branch = getActiveBranch(image);
+    const index = branch.findIndex(entry => entry.id === image.currentEntryId);
+    const next = branch[index + 1];
+    return next ? { ...image, currentEntryId: next.id } : image;
+};
+
+/**
+ * Returns a short human-readable title for a history entry, preferring the user's label.
+ * @param entry The history entry.
+ * @returns The title shown in the history panel.
+ */
+export const describeEntry = (entry: HistoryEntry): string => {
+    if (entry.label) return entry.label;
+    const { type, params } = entry.operation;
+    let name = OPERATION_NAMES[type];
+    if (type === 'pixel-adjustment' && typeof params?.type === 'string') {
+        name = params.type.split('-').map(word => word[0].toUpperCase() + word.slice(1)).join(' ');
+    } else if (type === 'transform' && isImageTransform(params)) {
+        name = describeTransform(params);
+    } else if (type === 'recipe' && typeof params?.name === 'string') {
+        name = `Recipe: ${params.name}`;
+    }
+    return typeof params?.variant === 'number' ? `${name} (variation ${params.variant})` : name;
+};
+
+/**
+ * Formats an operation duration for display.
+ * @param durationMs The duration in milliseconds.
+ * @returns The duration, e.g. "850 ms" or "12.4 s".
+ */
+export const formatDuration = (durationMs: number): string =>
+    durationMs < 1000 ? `${Math.round(durationMs)} ms` : `${(durationMs / 1000).toFixed(1)} s`;
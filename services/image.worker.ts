@@ -0,0 +1,26 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Entry point of the image worker: runs each request and reports progress back by request id.
+
+import { runImageTask, type WorkerRequest, type WorkerResponse } from './imageTasks';
+
+const post = (response: WorkerResponse) => self.postMessage(response);
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+    const { id, task } = event.data;
+    let lastReported = 0;
+    try {
+        const result = await runImageTask(task, (fraction) => {
+            // Whole percent steps are enough for a progress display and keep the message count low
+            if (fraction < 1 && fraction - lastReported < 0.01) return;
+            lastReported = fraction;
+            post({ id, type: 'progress', fraction });
+        });
+        post({ id, type: 'done', result });
+    } catch (err) {
+        post({ id, type: 'error', message: err instanceof Error ? err.message : 'The image worker failed.' });
+    }
+};
@@ -0,0 +1,242 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ImageMetadata } from '../types';
+import { loadImage, createCanvas } from './imageUtils';
+import { readFileMetadata } from './metadata';
+import { readIfd, readTiffHeader, type TiffValue } from './tiff';
+
+// What the upload inputs accept: anything the browser decodes, plus HEIC and camera RAW files
+export const IMPORT_ACCEPT = 'image/*,.heic,.heif,.dng,.cr2,.cr3,.nef,.nrw,.arw,.orf,.rw2,.raf,.pef,.srw';
+
+// An uploaded file made ready for the editor
+export interface ImportedImage {
+    file: File;
+    metadata: ImageMetadata | null;
+}
+
+// A file that could not be imported; the message names the file and is meant for the user
+export interface ImportFailure {
+    fileName: string;
+    message: string;
+}
+
+type SourceKind = 'browser' | 'heic' | 'raw';
+
+const HEIF_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'hevm', 'hevs'];
+const RAF_SIGNATURE = 'FUJIFILMCCD-RAW';
+
+// Quality of the JPEGs written when a file has to be re-encoded
+const REENCODE_QUALITY = 0.95;
+
+const ascii = (bytes: Uint8Array, start: number, end: number): string => String.fromCharCode(...bytes.subarray(start, end));
+
+const detectKind = (bytes: Uint8Array): SourceKind => {
+    if (ascii(bytes, 4, 8) === 'ftyp') {
+        const brand = ascii(bytes, 8, 12);
+        if (brand === 'crx ') return 'raw';
+        // Generic HEIF brands also cover AVIF, which browsers decode themselves
+        const boxSize = new DataView(bytes.buffer, bytes.byteOffset).getUint32(0);
+        const compatible = ascii(bytes, 16, Math.min(boxSize, 64));
+        if (HEIF_BRANDS.includes(brand) || ((brand === 'mif1' || brand === 'msf1') && HEIF_BRANDS.some(b => compatible.includes(b)))) {
+            return 'heic';
+        }
+        return 'browser';
+    }
+    if (ascii(bytes, 0, RAF_SIGNATURE.length) === RAF_SIGNATURE) return 'raw';
+    if (readTiffHeader(new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength))) return 'raw';
+    return 'browser';
+};
+
+// Lossless JPEG (how DNG and CR2 store raw sensor data) starts like any JPEG but no browser can show it
+const isDisplayableJpeg = (bytes: Uint8Array, offset: number, length: number): boolean => {
+    const end = Math.min(offset + length, bytes.length);
+    if (bytes[offset] !== 0xff || bytes[offset + 1] !== 0xd8) return false;
+    let at = offset + 2;
+    while (at + 4 <= end && bytes[at] === 0xff) {
+        const marker = bytes[at + 1];
+        if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+            return marker <= 0xc2;
+        }
+        at += 2 + ((bytes[at + 2] << 8) | bytes[at + 3]);
+    }
+    return false;
+};
+
+const firstNumber = (value: TiffValue | undefined): number | undefined =>
+    typeof value === 'number' ? value : Array.isArray(value) ? value[0] : undefined;
+
+// Walks every directory of a TIFF-based RAW file (DNG, CR2, NEF, ARW, ORF, RW2, PEF) for embedded JPEGs
+const findTiffPreviews = (bytes: Uint8Array): { offset: number, length: number }[] => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const header = readTiffHeader(view);
+    if (!header) return [];
+    const candidates: { offset: number, length: number }[] = [];
+    const visited = new Set<number>();
+    const pending = [header.firstIfd];
+    while (pending.length > 0 && visited.size < 32) {
+        const offset = pending.shift()!;
+        if (!offset || visited.has(offset)) continue;
+        visited.add(offset);
+        const { tags, next } = readIfd(view, offset, header.little);
+        // JPEGInterchangeFormat and its length
+        const jpegOffset = firstNumber(tags.get(0x0201));
+        const jpegLength = firstNumber(tags.get(0x0202));
+        if (jpegOffset && jpegLength) candidates.push({ offset: jpegOffset, length: jpegLength });
+        // A single JPEG-compressed strip
+        const compression = firstNumber(tags.get(0x0103));
+        const strip = tags.get(0x0111);
+        const stripLength = tags.get(0x0117);
+        if ((compression === 6 || compression === 7) && typeof strip === 'number' && typeof stripLength === 'number') {
+            candidates.push({ offset: strip, length: stripLength });
+        }
+        // SubIFDs, where NEF and DNG keep their larger previews
+        const subIfds = tags.get(0x014a);
+        if (subIfds !== undefined) pending.push(...(Array.isArray(subIfds) ? subIfds : [subIfds as number]));
+        pending.push(next);
+    }
+    return candidates;
+};
+
+/**
+ * Finds the largest JPEG preview a camera embedded in a RAW file.
+ * @param bytes The RAW file.
+ * @returns The preview, or null if the file has none a browser can show.
+ */
+const extractRawPreview = (bytes: Uint8Array): Blob | null => {
+    let candidates: { offset: number, length: number }[];
+    if (ascii(bytes, 0, RAF_SIGNATURE.length) === RAF_SIGNATURE) {
+        const view = new DataView(bytes.buffer, bytes.byteOffset);
+        candidates = [{ offset: view.getUint32(84), length: view.getUint32(88) }];
+    } else if (ascii(bytes, 8, 12) === 'crx ') {
+        // CR3 keeps its preview in a PRVW box; the JPEG size is stored right before the JPEG
+        candidates = [];
+        for (let at = 0; at + 4 < bytes.length; at++) {
+            if (bytes[at] !== 0x50 || ascii(bytes, at, at + 4) !== 'PRVW') continue;
+            const soi = bytes.subarray(at, at + 32).findIndex((b, i, arr) => b === 0xff && arr[i + 1] === 0xd8);
+            if (soi >= 4) {
+                const start = at + soi;
+                candidates.push({ offset: start, length: new DataView(bytes.buffer, bytes.byteOffset).getUint32(start - 4) });
+            }
+            break;
+        }
+    } else {
+        candidates = findTiffPreviews(bytes);
+    }
+    const best = candidates
+        .filter(({ offset, length }) => length > 0 && offset + length <= bytes.length && isDisplayableJpeg(bytes, offset, length))
+        .sort((a, b) => b.length - a.length)[0];
+    return best ? new Blob([bytes.subarray(best.offset, best.offset + best.length)], { type: 'image/jpeg' }) : null;
+};
+
+const decodeHeic = async (file: Blob): Promise<Blob> => {
+    // The decoder ships a sizable WASM build, so it is only fetched once a HEIC file shows up
+    const { heicTo } = await import('heic-to');
+    return heicTo({ blob: file, type: 'image/jpeg', quality: REENCODE_QUALITY });
+};
+
+/**
+ * Draws an image upright. The browser already applies the image's own EXIF orientation when
+ * decoding; `orientation` is an extra one to apply on top, for previews whose rotation is
+ * recorded in the RAW container instead.
+ * @param source The encoded image.
+ * @param orientation The EXIF orientation to apply, 1 to 8.
+ * @param type The MIME type to encode the result as.
+ * @returns A promise that resolves to the upright image.
+ */
+const renderUpright = async (source: Blob, orientation: number, type: string): Promise<Blob> => {
+    const image = await loadImage(source);
+    const w = image.naturalWidth;
+    const h = image.naturalHeight;
+    const swaps = orientation >= 5;
+    const { canvas, ctx } = createCanvas(swaps ? h : w, swaps ? w : h);
+    const transforms: Record<number, [number, number, number, number, number, number]> = {
+        1: [1, 0, 0, 1, 0, 0],
+        2: [-1, 0, 0, 1, w, 0],
+        3: [-1, 0, 0, -1, w, h],
+        4: [1, 0, 0, -1, 0, h],
+        5: [0, 1, 1, 0, 0, 0],
+        6: [0, 1, -1, 0, h, 0],
+        7: [0, -1, -1, 0, h, w],
+        8: [0, -1, 1, 0, 0, w],
+    };
+    ctx.setTransform(...transforms[orientation]);
+    ctx.drawImage(image, 0, 0);
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, REENCODE_QUALITY));
+    if (!blob) throw new Error('Could not re-encode the image.');
+    return blob;
+};
+
+const withExtension = (name: string, extension: string): string => `${name.replace(/\.[^/.]+$/, '') || 'image'}.${extension}`;
+
+/**
+ * Prepares an uploaded file for editing: HEIC is decoded, RAW files are replaced by their
+ * embedded JPEG preview, and rotated photos are turned upright so the model sees them the
+ * way the user does. The metadata is read from the original file first, as re-encoding
+ * drops it.
+ * @param file The uploaded file.
+ * @returns A promise that resolves to the file to edit and its metadata.
+ */
+export const importImage = async (file: File): Promise<ImportedImage> => {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const kind = detectKind(bytes);
+    const { metadata, orientation } = await readFileMetadata(file);
+
+    if (kind === 'heic') {
+        let decoded: Blob;
+        try {
+            decoded = await decodeHeic(file);
+        } catch (err) {
+            console.error(err);
+            throw new Error(`"${file.name}" could not be decoded as HEIC.`);
+        }
+        // libheif applies the HEIF rotation itself, so the EXIF orientation is ignored here
+        return { file: new File([decoded], withExtension(file.name, 'jpg'), { type: 'image/jpeg', lastModified: file.lastModified }), metadata };
+    }
+
+    if (kind === 'raw') {
+        const preview = extractRawPreview(bytes);
+        if (!preview) throw new Error(`"${file.name}" has no embedded preview that can be shown.`);
+        // Most previews carry no orientation of their own; the RAW file's applies to them
+        const previewOrientation = (await readFileMetadata(preview)).orientation;
+        const upright = await renderUpright(preview, previewOrientation === 1 ? orientation : 1, 'image/jpeg');
+        return { file: new File([upright], withExtension(file.name, 'jpg'), { type: 'image/jpeg', lastModified: file.lastModified }), metadata };
+    }
+
+    try {
+        await loadImage(file);
+    } catch {
+        throw new Error(`"${file.name}" is not an image this browser can open.`);
+    }
+    if (orientation === 1) return { file, metadata };
+
+    const type = file.type === 'image/jpeg' ? 'image/jpeg' : 'image/png';
+    const upright = await renderUpright(file, 1, type);
+    return { file: new File([upright], withExtension(file.name, type === 'image/jpeg' ? 'jpg' : 'png'), { type, lastModified: file.lastModified }), metadata };
+};
+
+/**
+ * Imports several files one after another, collecting failures instead of stopping at the first.
+ * @param files The uploaded files.
+ * @param onProgress Called before each file with its position and name.
+ * @returns A promise that resolves to the imported images and the files that failed.
+ */
+export const importImages = async (
+    files: File[],
+    onProgress?: (index: number, fileName: string) => void,
+): Promise<{ images: ImportedImage[], failures: ImportFailure[] }> => {
+    const images: ImportedImage[] = [];
+    const failures: ImportFailure[] = [];
+    for (let i = 0; i < files.length; i++) {
+        onProgress?.(i, files[i].name);
+        try {
+            images.push(await importImage(files[i]));
+        } catch (err) {
+            console.error(err);
+            failures.push({ fileName: files[i].name, message: err instanceof Error ? err.message : 'An unknown error occurred.' });
+        }
+    }
+    return { images, failures };
+};
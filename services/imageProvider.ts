@@ -0,0 +1,71 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+import type { ExpandOffset } from './expand';
+
+export type Hotspot = { x: number, y: number };
+
+/**
+ * A backend that performs the editor's image operations.
+ * Every method resolves to the data URL of the resulting image.
+ */
+export interface ImageProvider {
+    /** Identifier of the provider, e.g. 'gemini' or 'mock'. */
+    readonly name: ImageProviderName;
+    /** The model that produces the images, surfaced for logging and diagnostics. */
+    readonly model: string;
+    /** The mask is a black-and-white image of the same size; white marks the region to change. */
+    editImage(originalImage: File, userPrompt: string, mask: File): Promise<string>;
+    filterImage(originalImage: File, filterPrompt: string): Promise<string>;
+    adjustImage(originalImage: File, adjustmentPrompt: string): Promise<string>;
+    autoEnhanceImage(originalImage: File): Promise<string>;
+    /** The original is placed with its top-left corner at offset on the new canvas; the rest is generated. */
+    expandImage(originalImage: File, newWidth: number, newHeight: number, userPrompt: string, offset: ExpandOffset): Promise<string>;
+    upscaleImage(originalImage: File, scaleFactor: number): Promise<string>;
+    composeImages(baseImage: File, complementImage: File, userPrompt: string, hotspot: Hotspot | null): Promise<string>;
+    /** Resolves to a black-and-white mask of the same size where white marks the main subject. */
+    segmentSubject(originalImage: File): Promise<string>;
+}
+
+export type ImageProviderName = 'gemini' | 'mock';
+
+const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash-image-preview';
+
+let activeProvider: ImageProvider | null = null;
+
+/**
+ * Returns the image provider selected by configuration, creating it on first use.
+ * Set IMAGE_PROVIDER=mock in .env.local to work offline with deterministic canvas
+ * transformations; IMAGE_MODEL overrides the Gemini model.
+ * @returns The configured image provider.
+ */
+export const getImageProvider = (): ImageProvider => {
+    if (activeProvider) return activeProvider;
+
+    const providerName = (process.env.IMAGE_PROVIDER || 'gemini').toLowerCase();
+    switch (providerName) {
+        case 'mock':
+            activeProvider = createMockProvider();
+            break;
+        case 'gemini':
+            activeProvider = createGeminiProvider(process.env.API_KEY!, process.env.IMAGE_MODEL || DEFAULT_GEMINI_MODEL);
+            break;
+        default:
+            throw new Error(`Unknown image provider "${providerName}". Expected "gemini" or "mock".`);
+    }
+
+    console.log(`Using image provider: ${activeProvider.name} (${activeProvider.model})`);
+    return activeProvider;
+};
+
+/**
+ * Replaces the active image provider. Intended for tests and development tooling.
+ * @param provider The provider to use, or null to fall back to configuration.
+ */
+export const setImageProvider = (provider: ImageProvider | null): void => {
+    activeProvider = provider;
+};
@@ -0,0 +1,631 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Pixel work that can run either in the image worker or, where workers are unavailable, on the main thread.
+// Everything here draws on task canvases and ImageBitmaps, so inside the worker it never touches the DOM.
+
+import type { BackgroundFill, ComposeLayer, ImageTransform, PixelAdjustment, ResampleMethod } from '../types';
+import { resamplePixels } from './resampleKernels';
+import { refineMatte } from './matte';
+import { applyAdjustment } from './pixelPipeline';
+import { getInscribedSize } from './transform';
+import { buildFeatheredAlpha } from './feather';
+import { drawComposite, drawLayer } from './layerRender';
+import { createTaskCanvas, taskCanvasToBlob, type TaskCanvas, type TaskContext } from './taskCanvas';
+
+type Rect = { x: number; y: number; width: number; height: number };
+type ImageLayer = Extract<ComposeLayer, { type: 'image' }>;
+
+// One unit of work for the image worker
+export type ImageTask =
+    | { type: 'crop'; image: Blob; rect: Rect }
+    // Without a method the browser's own high-quality smoothing is used
+    | { type: 'resize'; image: Blob; width: number; height: number; method?: ResampleMethod }
+    | { type: 'pixel-adjustment'; image: Blob; adjustment: PixelAdjustment }
+    | { type: 'transform'; image: Blob; transform: ImageTransform }
+    // Blends an edited image into the original inside a feathered mask; white marks the editable region
+    | { type: 'composite-mask'; original: Blob; edited: string; mask: Blob; feather: number }
+    // Places the image at x, y on a larger transparent canvas, ready for generative fill
+    | { type: 'expand-canvas'; image: Blob; width: number; height: number; x: number; y: number }
+    // A black-and-white mask for that canvas; white marks the area the model should fill
+    | { type: 'outpaint-mask'; width: number; height: number; rect: Rect }
+    // Copies the image unchanged onto a generated result at x, y
+    | { type: 'place-image'; base: string; image: Blob; x: number; y: number }
+    // Brings a model result back to the expected size, undoing any reframing; sourceRect is where the
+    // source appears in the target frame and defaults to all of it
+    | { type: 'align-result'; result: string; source: Blob; width?: number; height?: number; sourceRect?: Rect }
+    // Assembles upscaled tiles into one image of exactly width × height
+    | { type: 'stitch-tiles'; width: number; height: number; tiles: StitchTile[] }
+    // Softens a subject mask along the image's edges into a greyscale matte; white is fully subject
+    | { type: 'refine-matte'; image: Blob; mask: string; radius: number }
+    // Keeps the subject where the matte is white and puts the fill behind it
+    | { type: 'apply-background'; image: Blob; matte: string; fill: BackgroundFill }
+    // A black-and-white mask of everything that isn't solid subject; white marks the background
+    | { type: 'background-mask'; matte: string }
+    // Draws the compose layers over the base image into one image; a frame draws just that region instead
+    | { type: 'flatten-layers'; base: Blob; layers: ComposeLayer[]; frame?: LayerFrame }
+    // A black-and-white mask of where one layer covers the frame; white marks the layer
+    | { type: 'layer-mask'; frame: LayerFrame; layer: ComposeLayer }
+    // Reads an image layer's pixels back out of a composite of the frame, keeping its own size and transparency
+    | { type: 'extract-layer'; composite: string; frame: LayerFrame; layer: ImageLayer }
+    | { type: 'encode-base64'; blob: Blob }
+    | { type: 'decode-data-url'; dataUrl: string };
+
+// A region of the base image, in base image pixels, drawn at scale times its size. It may reach past the
+// base image's edges, which stay transparent.
+export interface LayerFrame {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    scale: number;
+}
+
+// A tile placed in the output. The blend widths are how far it overlaps the tiles to its left and above,
+// which it fades in across so seams don't show.
+export interface StitchTile {
+    dataUrl: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    blendLeft: number;
+    blendTop: number;
+}
+
+// What each kind of task resolves to; images come back as PNG data URLs like every other operation
+export interface ImageTaskResults {
+    'crop': string;
+    'resize': string;
+    'pixel-adjustment': string;
+    'transform': string;
+    'composite-mask': string;
+    'expand-canvas': string;
+    'outpaint-mask': string;
+    'place-image': string;
+    'align-result': AlignedResult;
+    'stitch-tiles': string;
+    'refine-matte': string;
+    'apply-background': string;
+    'background-mask': string;
+    'flatten-layers': string;
+    'layer-mask': string;
+    'extract-layer': string;
+    'encode-base64': { mimeType: string; data: string };
+    'decode-data-url': Blob;
+}
+
+// How a model result was changed to fit: not at all, scaled to size, or re-framed after an aspect change
+export type ResultCorrection = 'none' | 'rescaled' | 'realigned';
+
+export interface AlignedResult {
+    dataUrl: string;
+    correction: ResultCorrection;
+}
+
+export type ImageTaskResult<T extends ImageTask> = ImageTaskResults[T['type']];
+
+// Messages sent to the worker
+export interface WorkerRequest {
+    id: number;
+    task: ImageTask;
+}
+
+// Messages sent back by the worker; a request gets any number of progress messages, then one done or error
+export type WorkerResponse =
+    | { id: number; type: 'progress'; fraction: number }
+    | { id: number; type: 'done'; result: ImageTaskResults[keyof ImageTaskResults] }
+    | { id: number; type: 'error'; message: string };
+
+const createContext = createTaskCanvas;
+
+// Builds the base64 string in chunks; spreading a whole large buffer into fromCharCode overflows the stack
+const toBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    const chunkSize = 0x8000;
+    for (let i = 0; i < bytes.length; i += chunkSize) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+    }
+    return btoa(binary);
+};
+
+const encodeBase64 = async (blob: Blob): Promise<{ mimeType: string; data: string }> => ({
+    mimeType: blob.type || 'application/octet-stream',
+    data: toBase64(new Uint8Array(await blob.arrayBuffer())),
+});
+
+const toDataUrl = async (canvas: TaskCanvas): Promise<string> => {
+    const { mimeType, data } = await encodeBase64(await taskCanvasToBlob(canvas));
+    return `data:${mimeType};base64,${data}`;
+};
+
+const decodeDataUrl = (dataUrl: string): Blob => {
+    const arr = dataUrl.split(',');
+    if (arr.length < 2) throw new Error("Invalid data URL");
+    const mimeMatch = arr[0].match(/:(.*?);/);
+    if (!mimeMatch || !mimeMatch[1]) throw new Error("Could not parse MIME type from data URL");
+
+    const binary = atob(arr[1]);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return new Blob([bytes], { type: mimeMatch[1] });
+};
+
+const crop = async (image: Blob, rect: Rect): Promise<string> => {
+    const bitmap = await createImageBitmap(image);
+    const { canvas, ctx } = createContext(Math.max(1, Math.round(rect.width)), Math.max(1, Math.round(rect.height)));
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(bitmap, rect.x, rect.y, rect.width, rect.height, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return toDataUrl(canvas);
+};
+
+const resize = async (image: Blob, width: number, height: number, method: ResampleMethod | undefined, onProgress: (fraction: number) => void): Promise<string> => {
+    const bitmap = await createImageBitmap(image);
+    const { canvas, ctx } = createContext(width, height);
+    if (!method) {
+        ctx.imageSmoothingQuality = 'high';
+        ctx.drawImage(bitmap, 0, 0, width, height);
+        bitmap.close();
+        return toDataUrl(canvas);
+    }
+
+    const source = createContext(bitmap.width, bitmap.height);
+    source.ctx.drawImage(bitmap, 0, 0);
+    const { data } = source.ctx.getImageData(0, 0, bitmap.width, bitmap.height);
+    const pixels = resamplePixels(data, bitmap.width, bitmap.height, width, height, method, onProgress);
+    bitmap.close();
+    ctx.putImageData(new ImageData(pixels, width, height), 0, 0);
+    return toDataUrl(canvas);
+};
+
+const adjustPixels = async (image: Blob, adjustment: PixelAdjustment): Promise<string> => {
+    const bitmap = await createImageBitmap(image);
+    const { canvas, ctx } = createContext(bitmap.width, bitmap.height);
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    applyAdjustment(imageData, adjustment);
+    ctx.putImageData(imageData, 0, 0);
+    return toDataUrl(canvas);
+};
+
+// Rotates or flips without any loss beyond straightening's resampling
+const transformImage = async (image: Blob, transform: ImageTransform): Promise<string> => {
+    const bitmap = await createImageBitmap(image);
+    const { width: w, height: h } = bitmap;
+    try {
+        if (transform.type === 'rotate') {
+            const sideways = transform.quarterTurns !== 2;
+            const { canvas, ctx } = createContext(sideways ? h : w, sideways ? w : h);
+            ctx.translate(canvas.width / 2, canvas.height / 2);
+            ctx.rotate((transform.quarterTurns * Math.PI) / 2);
+            ctx.drawImage(bitmap, -w / 2, -h / 2);
+            return toDataUrl(canvas);
+        }
+
+        if (transform.type === 'flip') {
+            const { canvas, ctx } = createContext(w, h);
+            if (transform.axis === 'horizontal') ctx.setTransform(-1, 0, 0, 1, w, 0);
+            else ctx.setTransform(1, 0, 0, -1, 0, h);
+            ctx.drawImage(bitmap, 0, 0);
+            return toDataUrl(canvas);
+        }
+
+        const size = getInscribedSize(w, h, transform.angle);
+        if (size.width < 1 || size.height < 1) throw new Error('The angle leaves nothing to crop.');
+        const { canvas, ctx } = createContext(size.width, size.height);
+        ctx.imageSmoothingQuality = 'high';
+        ctx.translate(size.width / 2, size.height / 2);
+        ctx.rotate((transform.angle * Math.PI) / 180);
+        ctx.drawImage(bitmap, -w / 2, -h / 2);
+        return toDataUrl(canvas);
+    } finally {
+        bitmap.close();
+    }
+};
+
+// Every pixel outside the mask is copied verbatim from the original
+const compositeMask = async (originalImage: Blob, editedUrl: string, maskImage: Blob, feather: number): Promise<string> => {
+    const [original, edited, mask] = await Promise.all([
+        createImageBitmap(originalImage),
+        createImageBitmap(decodeDataUrl(editedUrl)),
+        createImageBitmap(maskImage),
+    ]);
+    const { width, height } = original;
+    const { canvas, ctx } = createContext(width, height);
+    ctx.drawImage(original, 0, 0);
+    const output = ctx.getImageData(0, 0, width, height);
+
+    ctx.clearRect(0, 0, width, height);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(edited, 0, 0, width, height);
+    const editedPixels = ctx.getImageData(0, 0, width, height).data;
+
+    ctx.clearRect(0, 0, width, height);
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(mask, 0, 0, width, height);
+    const alpha = buildFeatheredAlpha(ctx.getImageData(0, 0, width, height), feather);
+    original.close();
+    edited.close();
+    mask.close();
+
+    const out = output.data;
+    for (let p = 0; p < alpha.length; p++) {
+        const a = alpha[p];
+        if (a === 0) continue;
+        const i = p * 4;
+        out[i] = out[i] + (editedPixels[i] - out[i]) * a;
+        out[i + 1] = out[i + 1] + (editedPixels[i + 1] - out[i + 1]) * a;
+        out[i + 2] = out[i + 2] + (editedPixels[i + 2] - out[i + 2]) * a;
+        out[i + 3] = out[i + 3] + (editedPixels[i + 3] - out[i + 3]) * a;
+    }
+
+    ctx.putImageData(output, 0, 0);
+    return toDataUrl(canvas);
+};
+
+const expandCanvas = async (image: Blob, width: number, height: number, x: number, y: number): Promise<string> => {
+    const bitmap = await createImageBitmap(image);
+    const { canvas, ctx } = createContext(width, height);
+    ctx.drawImage(bitmap, x, y);
+    bitmap.close();
+    return toDataUrl(canvas);
+};
+
+const outpaintMask = (width: number, height: number, rect: Rect): Promise<string> => {
+    const { canvas, ctx } = createContext(width, height);
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+    return toDataUrl(canvas);
+};
+
+// Clears the area first so the image's own pixels, transparency included, replace whatever was generated there
+const placeImage = async (base: string, image: Blob, x: number, y: number): Promise<string> => {
+    const [baseBitmap, bitmap] = await Promise.all([createImageBitmap(decodeDataUrl(base)), createImageBitmap(image)]);
+    const { canvas, ctx } = createContext(baseBitmap.width, baseBitmap.height);
+    ctx.drawImage(baseBitmap, 0, 0);
+    ctx.clearRect(x, y, bitmap.width, bitmap.height);
+    ctx.drawImage(bitmap, x, y);
+    baseBitmap.close();
+    bitmap.close();
+    return toDataUrl(canvas);
+};
+
+// Longest side of the previews compared when looking for the framing that matches the source
+const ALIGN_PREVIEW_SIZE = 96;
+// Aspect ratios closer than this are treated as the same and only rescaled
+const ASPECT_TOLERANCE = 0.01;
+// How many positions are tried along the axis where the result has extra room
+const ALIGN_STEPS = 9;
+
+const toLuminance = (data: Uint8ClampedArray, indices: Int32Array): Float32Array => {
+    const out = new Float32Array(indices.length);
+    for (let k = 0; k < indices.length; k++) {
+        const i = indices[k] * 4;
+        out[k] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    }
+    return out;
+};
+
+// Normalized cross-correlation: compares structure while ignoring the brightness and contrast an edit may change
+const correlate = (a: Float32Array, b: Float32Array): number => {
+    let meanA = 0, meanB = 0;
+    for (let i = 0; i < a.length; i++) { meanA += a[i]; meanB += b[i]; }
+    meanA /= a.length;
+    meanB /= b.length;
+    let dot = 0, varA = 0, varB = 0;
+    for (let i = 0; i < a.length; i++) {
+        const da = a[i] - meanA;
+        const db = b[i] - meanB;
+        dot += da * db;
+        varA += da * da;
+        varB += db * db;
+    }
+    return varA === 0 || varB === 0 ? 0 : dot / Math.sqrt(varA * varB);
+};
+
+// The parts of the result that could correspond to the full target frame
+const candidateRegions = (resultWidth: number, resultHeight: number, targetAspect: number): Rect[] => {
+    // Stretching the whole result is always a candidate
+    const regions: Rect[] = [{ x: 0, y: 0, width: resultWidth, height: resultHeight }];
+    if (resultWidth / resultHeight > targetAspect) {
+        const width = Math.round(resultHeight * targetAspect);
+        for (let i = 0; i < ALIGN_STEPS; i++) regions.push({ x: Math.round((resultWidth - width) * i / (ALIGN_STEPS - 1)), y: 0, width, height: resultHeight });
+    } else {
+        const height = Math.round(resultWidth / targetAspect);
+        for (let i = 0; i < ALIGN_STEPS; i++) regions.push({ x: 0, y: Math.round((resultHeight - height) * i / (ALIGN_STEPS - 1)), width: resultWidth, height });
+    }
+    return regions;
+};
+
+const findBestRegion = (result: ImageBitmap, source: ImageBitmap, width: number, height: number, sourceRect: Rect): Rect => {
+    const scale = ALIGN_PREVIEW_SIZE / Math.max(width, height);
+    const previewWidth = Math.max(1, Math.round(width * scale));
+    const previewHeight = Math.max(1, Math.round(height * scale));
+    const { ctx } = createContext(previewWidth, previewHeight);
+
+    // Only pixels covered by the source take part in the comparison
+    const left = Math.max(0, Math.floor(sourceRect.x * scale));
+    const top = Math.max(0, Math.floor(sourceRect.y * scale));
+    const right = Math.min(previewWidth, Math.ceil((sourceRect.x + sourceRect.width) * scale));
+    const bottom = Math.min(previewHeight, Math.ceil((sourceRect.y + sourceRect.height) * scale));
+    const indices = new Int32Array(Math.max(0, right - left) * Math.max(0, bottom - top));
+    let n = 0;
+    for (let y = top; y < bottom; y++) {
+        for (let x = left; x < right; x++) indices[n++] = y * previewWidth + x;
+    }
+
+    ctx.drawImage(source, sourceRect.x * scale, sourceRect.y * scale, sourceRect.width * scale, sourceRect.height * scale);
+    const reference = toLuminance(ctx.getImageData(0, 0, previewWidth, previewHeight).data, indices);
+
+    const regions = candidateRegions(result.width, result.height, width / height);
+    let best = { region: regions[0], score: -Infinity };
+    for (const region of regions) {
+        ctx.clearRect(0, 0, previewWidth, previewHeight);
+        ctx.drawImage(result, region.x, region.y, region.width, region.height, 0, 0, previewWidth, previewHeight);
+        const score = correlate(reference, toLuminance(ctx.getImageData(0, 0, previewWidth, previewHeight).data, indices));
+        if (score > best.score) best = { region, score };
+    }
+    return best.region;
+};
+
+const alignResult = async (resultUrl: string, sourceBlob: Blob, targetWidth?: number, targetHeight?: number, targetSourceRect?: Rect): Promise<AlignedResult> => {
+    const [result, source] = await Promise.all([createImageBitmap(decodeDataUrl(resultUrl)), createImageBitmap(sourceBlob)]);
+    try {
+        const width = targetWidth ?? source.width;
+        const height = targetHeight ?? source.height;
+        if (result.width === width && result.height === height) return { dataUrl: resultUrl, correction: 'none' };
+
+        const aspectMatches = Math.abs((result.width / result.height) / (width / height) - 1) < ASPECT_TOLERANCE;
+        const sourceRect = targetSourceRect ?? { x: 0, y: 0, width, height };
+        const region = aspectMatches
+            ? { x: 0, y: 0, width: result.width, height: result.height }
+            : findBestRegion(result, source, width, height, sourceRect);
+
+        const { ctx: regionCtx } = createContext(region.width, region.height);
+        regionCtx.drawImage(result, region.x, region.y, region.width, region.height, 0, 0, region.width, region.height);
+        const pixels = resamplePixels(regionCtx.getImageData(0, 0, region.width, region.height).data, region.width, region.height, width, height, 'lanczos');
+        const { canvas, ctx } = createContext(width, height);
+        ctx.putImageData(new ImageData(pixels, width, height), 0, 0);
+        return { dataUrl: await toDataUrl(canvas), correction: aspectMatches ? 'rescaled' : 'realigned' };
+    } finally {
+        result.close();
+        source.close();
+    }
+};
+
+// Tiles are drawn in reading order; each one's left and top overlaps ramp from transparent to opaque,
+// so drawing it over its neighbours cross-fades the two linearly.
+const stitchTiles = async (width: number, height: number, tiles: StitchTile[], onProgress: (fraction: number) => void): Promise<string> => {
+    const { canvas, ctx } = createContext(width, height);
+    for (let t = 0; t < tiles.length; t++) {
+        const tile = tiles[t];
+        const bitmap = await createImageBitmap(decodeDataUrl(tile.dataUrl));
+        const piece = createContext(tile.width, tile.height);
+        piece.ctx.drawImage(bitmap, 0, 0, tile.width, tile.height);
+        bitmap.close();
+
+        if (tile.blendLeft > 0 || tile.blendTop > 0) {
+            const image = piece.ctx.getImageData(0, 0, tile.width, tile.height);
+            const { data } = image;
+            for (let y = 0; y < tile.height; y++) {
+                const rampY = tile.blendTop > 0 && y < tile.blendTop ? (y + 0.5) / tile.blendTop : 1;
+                for (let x = 0; x < tile.width; x++) {
+                    const rampX = tile.blendLeft > 0 && x < tile.blendLeft ? (x + 0.5) / tile.blendLeft : 1;
+                    const weight = rampX * rampY;
+                    if (weight < 1) data[(y * tile.width + x) * 4 + 3] *= weight;
+                }
+            }
+            piece.ctx.putImageData(image, 0, 0);
+        }
+
+        ctx.drawImage(piece.canvas, tile.x, tile.y);
+        onProgress((t + 1) / tiles.length);
+    }
+    return toDataUrl(canvas);
+};
+
+// Draws a data URL image stretched to the given size and returns its pixels
+const readPixels = async (dataUrl: string, width: number, height: number): Promise<Uint8ClampedArray> => {
+    const bitmap = await createImageBitmap(decodeDataUrl(dataUrl));
+    const { ctx } = createContext(width, height);
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+    return ctx.getImageData(0, 0, width, height).data;
+};
+
+const refineMatteTask = async (image: Blob, mask: string, radius: number): Promise<string> => {
+    const bitmap = await createImageBitmap(image);
+    const { width, height } = bitmap;
+    const { canvas, ctx } = createContext(width, height);
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    const imageData = ctx.getImageData(0, 0, width, height);
+    const matte = refineMatte(imageData.data, await readPixels(mask, width, height), width, height, radius);
+
+    const out = imageData.data;
+    for (let i = 0; i < matte.length; i++) {
+        const value = Math.round(matte[i] * 255);
+        out[i * 4] = value;
+        out[i * 4 + 1] = value;
+        out[i * 4 + 2] = value;
+        out[i * 4 + 3] = 255;
+    }
+    ctx.putImageData(imageData, 0, 0);
+    return toDataUrl(canvas);
+};
+
+const paintFill = async (ctx: TaskContext, width: number, height: number, fill: BackgroundFill): Promise<void> => {
+    switch (fill.type) {
+        case 'transparent':
+            return;
+        case 'color':
+            ctx.fillStyle = fill.color;
+            ctx.fillRect(0, 0, width, height);
+            return;
+        case 'gradient': {
+            // The gradient line passes through the center and just reaches the corners, as in CSS
+            const radians = (fill.angle * Math.PI) / 180;
+            const dx = Math.sin(radians);
+            const dy = -Math.cos(radians);
+            const half = (Math.abs(width * dx) + Math.abs(height * dy)) / 2;
+            const gradient = ctx.createLinearGradient(width / 2 - dx * half, height / 2 - dy * half, width / 2 + dx * half, height / 2 + dy * half);
+            gradient.addColorStop(0, fill.from);
+            gradient.addColorStop(1, fill.to);
+            ctx.fillStyle = gradient;
+            ctx.fillRect(0, 0, width, height);
+            return;
+        }
+        case 'image': {
+            const bitmap = await createImageBitmap(fill.image);
+            const scale = Math.max(width / bitmap.width, height / bitmap.height);
+            const drawWidth = bitmap.width * scale;
+            const drawHeight = bitmap.height * scale;
+            ctx.imageSmoothingQuality = 'high';
+            ctx.drawImage(bitmap, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+            bitmap.close();
+            return;
+        }
+    }
+};
+
+const applyBackground = async (image: Blob, matte: string, fill: BackgroundFill): Promise<string> => {
+    const bitmap = await createImageBitmap(image);
+    const { width, height } = bitmap;
+    const subject = createContext(width, height);
+    subject.ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    const subjectData = subject.ctx.getImageData(0, 0, width, height);
+    const alpha = await readPixels(matte, width, height);
+    for (let i = 3; i < subjectData.data.length; i += 4) {
+        subjectData.data[i] = Math.round((subjectData.data[i] * alpha[i - 3]) / 255);
+    }
+    subject.ctx.putImageData(subjectData, 0, 0);
+
+    const { canvas, ctx } = createContext(width, height);
+    await paintFill(ctx, width, height, fill);
+    ctx.drawImage(subject.canvas, 0, 0);
+    return toDataUrl(canvas);
+};
+
+// Anything less than nearly solid subject is handed to the model, so soft edges are regenerated too
+const backgroundMask = async (matte: string): Promise<string> => {
+    const bitmap = await createImageBitmap(decodeDataUrl(matte));
+    const { width, height } = bitmap;
+    const { canvas, ctx } = createContext(width, height);
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    const imageData = ctx.getImageData(0, 0, width, height);
+    const { data } = imageData;
+    for (let i = 0; i < data.length; i += 4) {
+        const value = data[i] < 250 ? 255 : 0;
+        data[i] = value;
+        data[i + 1] = value;
+        data[i + 2] = value;
+        data[i + 3] = 255;
+    }
+    ctx.putImageData(imageData, 0, 0);
+    return toDataUrl(canvas);
+};
+
+// Decodes the image of every image layer, by layer id
+const decodeLayerImages = async (layers: ComposeLayer[]): Promise<Map<string, ImageBitmap>> => {
+    const images = new Map<string, ImageBitmap>();
+    for (const layer of layers) {
+        if (layer.type === 'image') images.set(layer.id, await createImageBitmap(layer.image));
+    }
+    return images;
+};
+
+// A canvas for a frame, with its context set up to draw in base image pixels
+const createFrameContext = (frame: LayerFrame) => {
+    const context = createContext(Math.max(1, Math.round(frame.width * frame.scale)), Math.max(1, Math.round(frame.height * frame.scale)));
+    context.ctx.scale(frame.scale, frame.scale);
+    context.ctx.translate(-frame.x, -frame.y);
+    return context;
+};
+
+const flattenLayers = async (base: Blob, layers: ComposeLayer[], frame?: LayerFrame): Promise<string> => {
+    const bitmap = await createImageBitmap(base);
+    const images = await decodeLayerImages(layers);
+    const { canvas, ctx } = createFrameContext(frame ?? { x: 0, y: 0, width: bitmap.width, height: bitmap.height, scale: 1 });
+    drawComposite(ctx, bitmap, layers, images);
+    bitmap.close();
+    images.forEach(image => image.close());
+    return toDataUrl(canvas);
+};
+
+const layerMask = async (frame: LayerFrame, layer: ComposeLayer): Promise<string> => {
+    const images = await decodeLayerImages([layer]);
+    const { canvas, ctx } = createFrameContext(frame);
+    drawLayer(ctx, { ...layer, opacity: 1, blendMode: 'normal' }, images.get(layer.id));
+    images.forEach(image => image.close());
+    // Whatever the layer covers turns white, then black goes in behind it
+    const { width, height } = canvas;
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.globalCompositeOperation = 'source-in';
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+    ctx.globalCompositeOperation = 'destination-over';
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, width, height);
+    return toDataUrl(canvas);
+};
+
+const extractLayer = async (composite: string, frame: LayerFrame, layer: ImageLayer): Promise<string> => {
+    const source = await createImageBitmap(decodeDataUrl(composite));
+    const image = await createImageBitmap(layer.image);
+    const { canvas, ctx } = createContext(layer.width, layer.height);
+    // The inverse of the layer's transform maps the composite back onto the layer's own pixels
+    ctx.translate(layer.width / 2, layer.height / 2);
+    ctx.scale(1 / layer.scale, 1 / layer.scale);
+    ctx.rotate((-layer.rotation * Math.PI) / 180);
+    ctx.translate(-layer.x, -layer.y);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(source, frame.x, frame.y, frame.width, frame.height);
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.globalCompositeOperation = 'destination-in';
+    ctx.drawImage(image, 0, 0, layer.width, layer.height);
+    source.close();
+    image.close();
+    return toDataUrl(canvas);
+};
+
+/**
+ * Runs one image task to completion.
+ * @param task The work to do.
+ * @param onProgress Called with the fraction of the work done, for tasks that can tell.
+ * @returns A promise that resolves to the task's result.
+ */
+export const runImageTask = async <T extends ImageTask>(task: T, onProgress: (fraction: number) => void = () => {}): Promise<ImageTaskResult<T>> => {
+    // The switch narrows the task but not T, so each result is widened back to the mapped type
+    const result = await (async (): Promise<ImageTaskResults[keyof ImageTaskResults]> => {
+        switch (task.type) {
+            case 'crop': return crop(task.image, task.rect);
+            case 'resize': return resize(task.image, task.width, task.height, task.method, onProgress);
+            case 'pixel-adjustment': return adjustPixels(task.image, task.adjustment);
+            case 'transform': return transformImage(task.image, task.transform);
+            case 'composite-mask': return compositeMask(task.original, task.edited, task.mask, task.feather);
+            case 'expand-canvas': return expandCanvas(task.image, task.width, task.height, task.x, task.y);
+            case 'outpaint-mask': return outpaintMask(task.width, task.height, task.rect);
+            case 'place-image': return placeImage(task.base, task.image, task.x, task.y);
+            case 'align-result': return alignResult(task.result, task.source, task.width, task.height, task.sourceRect);
+            case 'stitch-tiles': return stitchTiles(task.width, task.height, task.tiles, onProgress);
+            case 'refine-matte': return refineMatteTask(task.image, task.mask, task.radius);
+            case 'apply-background': return applyBackground(task.image, task.matte, task.fill);
+            case 'background-mask': return backgroundMask(task.matte);
+            case 'flatten-layers': return flattenLayers(task.base, task.layers, task.frame);
+            case 'layer-mask': return layerMask(task.frame, task.layer);
+            case 'extract-layer': return extractLayer(task.composite, task.frame, task.layer);
+            case 'encode-base64': return encodeBase64(task.blob);
+            case 'decode-data-url': return decodeDataUrl(task.dataUrl);
+        }
+    })();
+    onProgress(1);
+    return result as ImageTaskResult<T>;
+};
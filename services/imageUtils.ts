@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ImageTransform, PixelAdjustment } from '../types';
+import { runInWorker } from './imageWorker';
+
+// Helper function to convert a File object to a Gemini API Part; the base64 encoding runs in the image worker
+export const fileToPart = async (file: File): Promise<{ inlineData: { mimeType: string; data: string; } }> => {
+    const inlineData = await runInWorker({ type: 'encode-base64', blob: file });
+    return { inlineData };
+};
+
+// Helper to convert a data URL string to a File object, decoding off the main thread
+export const dataURLtoFile = async (dataUrl: string, filename: string): Promise<File> => {
+    const blob = await runInWorker({ type: 'decode-data-url', dataUrl });
+    return new File([blob], filename, { type: blob.type });
+};
+
+// Helper to decode a File (or Blob) into a loaded HTMLImageElement
+export const loadImage = async (file: Blob): Promise<HTMLImageElement> => {
+    const imageUrl = URL.createObjectURL(file);
+    const image = new Image();
+    image.src = imageUrl;
+    try {
+        await new Promise((resolve, reject) => {
+            image.onload = resolve;
+            image.onerror = reject;
+        });
+    } finally {
+        URL.revokeObjectURL(imageUrl);
+    }
+    return image;
+};
+
+// Helper to get image dimensions from a File object
+export const getImageDimensions = async (file: File): Promise<{ width: number; height: number }> => {
+    const image = await loadImage(file);
+    return { width: image.naturalWidth, height: image.naturalHeight };
+};
+
+// Helper to create a canvas and its 2D context in one step
+export const createCanvas = (width: number, height: number): { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context');
+    return { canvas, ctx };
+};
+
+// Helper to render a small JPEG preview of an image as a data URL
+export const createThumbnail = async (file: Blob, maxDimension = 160): Promise<string> => {
+    const image = await loadImage(file);
+    const ratio = Math.min(1, maxDimension / Math.max(image.naturalWidth, image.naturalHeight));
+    const { canvas, ctx } = createCanvas(
+        Math.max(1, Math.round(image.naturalWidth * ratio)),
+        Math.max(1, Math.round(image.naturalHeight * ratio))
+    );
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', 0.8);
+};
+
+// Helper to cut a rectangle, given in source pixels, out of an image as a PNG data URL
+export const cropImage = (file: Blob, rect: { x: number; y: number; width: number; height: number }): Promise<string> =>
+    runInWorker({ type: 'crop', image: file, rect });
+
+// Helper to scale an image to an exact size as a PNG data URL
+export const resizeImage = (file: Blob, width: number, height: number): Promise<string> =>
+    runInWorker({ type: 'resize', image: file, width, height });
+
+// Helper to apply a numeric adjustment to every pixel of an image, as a PNG data URL
+export const applyPixelAdjustment = (file: Blob, adjustment: PixelAdjustment): Promise<string> =>
+    runInWorker({ type: 'pixel-adjustment', image: file, adjustment });
+
+// Helper to rotate, flip or straighten an image, as a PNG data URL
+export const applyTransform = (file: Blob, transform: ImageTransform): Promise<string> =>
+    runInWorker({ type: 'transform', image: file, transform });
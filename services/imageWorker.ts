@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { runImageTask, type ImageTask, type ImageTaskResult, type WorkerRequest, type WorkerResponse } from './imageTasks';
+
+interface PendingTask {
+    resolve: (result: unknown) => void;
+    reject: (error: Error) => void;
+    onProgress?: (fraction: number) => void;
+}
+
+let worker: Worker | null = null;
+let nextId = 1;
+const pending = new Map<number, PendingTask>();
+
+const supportsWorker = (): boolean => typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+
+const getWorker = (): Worker => {
+    if (worker) return worker;
+    worker = new Worker(new URL('./image.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+        const message = event.data;
+        const task = pending.get(message.id);
+        if (!task) return;
+        if (message.type === 'progress') {
+            task.onProgress?.(message.fraction);
+            return;
+        }
+        pending.delete(message.id);
+        if (message.type === 'done') task.resolve(message.result);
+        else task.reject(new Error(message.message));
+    };
+    worker.onerror = (event) => {
+        // A worker that crashed or never loaded fails everything in flight; the next task starts a fresh one
+        const error = new Error(event.message || 'The image worker stopped unexpectedly.');
+        pending.forEach(task => task.reject(error));
+        pending.clear();
+        worker?.terminate();
+        worker = null;
+    };
+    return worker;
+};
+
+/**
+ * Runs an image task on the shared image worker, or on the main thread in browsers without
+ * worker-side OffscreenCanvas support, where the tasks draw on canvas elements instead.
+ * @param task The work to do.
+ * @param onProgress Called with the fraction of the work done, for tasks that can tell.
+ * @returns A promise that resolves to the task's result.
+ */
+export const runInWorker = <T extends ImageTask>(task: T, onProgress?: (fraction: number) => void): Promise<ImageTaskResult<T>> => {
+    if (!supportsWorker()) return runImageTask(task, onProgress);
+
+    return new Promise((resolve, reject) => {
+        const id = nextId++;
+        pending.set(id, { resolve: resolve as (result: unknown) => void, reject, onProgress });
+        const request: WorkerRequest = { id, task };
+        getWorker().postMessage(request);
+    });
+};
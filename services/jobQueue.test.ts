@@ -0,0 +1,113 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createJobQueue, type JobStatus } from './jobQueue';
+
+// A job that stays running until the test settles it
+const deferred = () => {
+    let resolve!: () => void;
+    let reject!: (error: unknown) => void;
+    const promise = new Promise<void>((res, rej) => { resolve = res; reject = rej; });
+    return { promise, resolve, reject };
+};
+
+describe('createJobQueue', () => {
+    beforeEach(() => { vi.useFakeTimers(); });
+    afterEach(() => { vi.useRealTimers(); });
+
+    it('runs no more jobs at once than the concurrency allows', async () => {
+        const jobs = [deferred(), deferred(), deferred()];
+        const queue = createJobQueue({ concurrency: 2, ratePerMinute: 0 }, () => {});
+        jobs.forEach((job, i) => queue.add(`job-${i}`, () => job.promise));
+        expect(queue.getState()).toMatchObject({ running: 2, queued: 1 });
+
+        jobs[0].resolve();
+        await vi.runAllTimersAsync();
+        expect(queue.getState()).toMatchObject({ running: 2, queued: 0, done: 1 });
+
+        jobs[1].resolve();
+        jobs[2].resolve();
+        await queue.whenIdle();
+        expect(queue.getState()).toMatchObject({ total: 3, running: 0, done: 3 });
+    });
+
+    it('spaces job starts to the rate limit', async () => {
+        const started: string[] = [];
+        const queue = createJobQueue({ concurrency: 3, ratePerMinute: 60 }, (id, status) => {
+            if (status === 'running') started.push(id);
+        });
+        ['a', 'b', 'c'].forEach(id => queue.add(id, async () => {}));
+        expect(started).toEqual(['a']);
+
+        await vi.advanceTimersByTimeAsync(999);
+        expect(started).toEqual(['a']);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(started).toEqual(['a', 'b']);
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(started).toEqual(['a', 'b', 'c']);
+    });
+
+    it('reports failed jobs with their error and keeps going', async () => {
+        const events: [string, JobStatus, unknown][] = [];
+        const queue = createJobQueue({ concurrency: 1, ratePerMinute: 0 }, (id, status, _state, error) => events.push([id, status, error]));
+        const error = new Error('quota');
+        queue.add('bad', () => Promise.reject(error));
+        queue.add('good', async () => {});
+        await queue.whenIdle();
+
+        expect(events).toContainEqual(['bad', 'failed', error]);
+        expect(events).toContainEqual(['good', 'done', undefined]);
+        expect(queue.getState()).toMatchObject({ done: 1, failed: 1 });
+    });
+
+    it('holds queued jobs while paused', async () => {
+        const queue = createJobQueue({ concurrency: 1, ratePerMinute: 0 }, () => {});
+        queue.pause();
+        const run = vi.fn(async () => {});
+        queue.add('job', run);
+        await vi.runAllTimersAsync();
+        expect(run).not.toHaveBeenCalled();
+        expect(queue.getState()).toMatchObject({ queued: 1, isPaused: true });
+
+        queue.resume();
+        await queue.whenIdle();
+        expect(run).toHaveBeenCalledOnce();
+    });
+
+    it('cancels only the jobs that have not started', async () => {
+        const running = deferred();
+        const events: [string, JobStatus][] = [];
+        const queue = createJobQueue({ concurrency: 1, ratePerMinute: 0 }, (id, status) => events.push([id, status]));
+        queue.add('first', () => running.promise);
+        queue.add('second', async () => {});
+        queue.cancel();
+        expect(events).toContainEqual(['second', 'cancelled']);
+
+        running.resolve();
+        await queue.whenIdle();
+        expect(queue.getState()).toMatchObject({ done: 1, cancelled: 1, queued: 0 });
+    });
+
+    it('applies new settings to jobs still waiting', async () => {
+        const started: string[] = [];
+        const queue = createJobQueue({ concurrency: 1, ratePerMinute: 1 }, (id, status) => {
+            if (status === 'running') started.push(id);
+        });
+        queue.add('a', async () => {});
+        queue.add('b', async () => {});
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(started).toEqual(['a']);
+
+        queue.updateOptions({ concurrency: 1, ratePerMinute: 0 });
+        await vi.runAllTimersAsync();
+        expect(started).toEqual(['a', 'b']);
+    });
+
+    it('resolves whenIdle right away when nothing is queued', async () => {
+        const queue = createJobQueue({ concurrency: 1, ratePerMinute: 0 }, () => {});
+        await expect(queue.whenIdle()).resolves.toBeUndefined();
+    });
+});
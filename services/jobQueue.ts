@@ -0,0 +1,152 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+// Where one job stands, with its progress from 0 to 1 while it runs
+export type JobProgress = { status: JobStatus, progress: number };
+
+export interface JobQueueOptions {
+    // How many jobs may run at the same time
+    concurrency: number;
+    // Upper bound on job starts per minute, to stay within provider quotas; 0 means unlimited
+    ratePerMinute: number;
+}
+
+// Counts of every job the queue has seen, for progress displays
+export interface JobQueueState {
+    total: number;
+    queued: number;
+    running: number;
+    done: number;
+    failed: number;
+    cancelled: number;
+    isPaused: boolean;
+}
+
+export interface JobQueue {
+    /** Adds a job; it starts as soon as concurrency and the rate limit allow. */
+    add(id: string, run: () => Promise<void>): void;
+    /** Stops starting new jobs. Jobs already running finish normally. */
+    pause(): void;
+    resume(): void;
+    /** Drops every job that hasn't started yet. Jobs already running finish and keep their results. */
+    cancel(): void;
+    /** Applies new settings to the jobs that haven't started yet. */
+    updateOptions(options: JobQueueOptions): void;
+    /** Resolves once nothing is queued or running. */
+    whenIdle(): Promise<void>;
+    getState(): JobQueueState;
+}
+
+/**
+ * Creates a queue that runs async jobs with limited concurrency and a start-rate limit.
+ * @param options The concurrency and rate limit.
+ * @param onChange Called whenever a job changes status, with the queue state after the change.
+ * @returns The job queue.
+ */
+export const createJobQueue = (
+    options: JobQueueOptions,
+    onChange: (id: string, status: JobStatus, state: JobQueueState, error?: unknown) => void,
+): JobQueue => {
+    let settings = options;
+    const pending: { id: string, run: () => Promise<void> }[] = [];
+    const state: JobQueueState = { total: 0, queued: 0, running: 0, done: 0, failed: 0, cancelled: 0, isPaused: false };
+    let lastStartedAt = -Infinity;
+    let startTimer: ReturnType<typeof setTimeout> | null = null;
+    let idleWaiters: (() => void)[] = [];
+
+    const emit = (id: string, status: JobStatus, error?: unknown) => onChange(id, status, { ...state }, error);
+
+    const notifyIfIdle = () => {
+        if (state.running > 0 || pending.length > 0) return;
+        idleWaiters.forEach(resolve => resolve());
+        idleWaiters = [];
+    };
+
+    const start = (job: { id: string, run: () => Promise<void> }) => {
+        state.queued--;
+        state.running++;
+        lastStartedAt = Date.now();
+        emit(job.id, 'running');
+        job.run().then(
+            () => {
+                state.running--;
+                state.done++;
+                emit(job.id, 'done');
+            },
+            (error) => {
+                state.running--;
+                state.failed++;
+                emit(job.id, 'failed', error);
+            },
+        ).finally(pump);
+    };
+
+    // Starts as many jobs as the settings allow, scheduling a retry when the rate limit holds one back
+    function pump() {
+        if (startTimer) return;
+        while (!state.isPaused && pending.length > 0 && state.running < Math.max(1, settings.concurrency)) {
+            const minInterval = settings.ratePerMinute > 0 ? 60000 / settings.ratePerMinute : 0;
+            const wait = lastStartedAt + minInterval - Date.now();
+            if (wait > 0) {
+                startTimer = setTimeout(() => {
+                    startTimer = null;
+                    pump();
+                }, wait);
+                return;
+            }
+            start(pending.shift()!);
+        }
+        notifyIfIdle();
+    }
+
+    return {
+        add(id, run) {
+            pending.push({ id, run });
+            state.total++;
+            state.queued++;
+            emit(id, 'queued');
+            pump();
+        },
+        pause() {
+            state.isPaused = true;
+            if (startTimer) {
+                clearTimeout(startTimer);
+                startTimer = null;
+            }
+        },
+        resume() {
+            state.isPaused = false;
+            pump();
+        },
+        cancel() {
+            if (startTimer) {
+                clearTimeout(startTimer);
+                startTimer = null;
+            }
+            const dropped = pending.splice(0);
+            state.queued -= dropped.length;
+            state.cancelled += dropped.length;
+            dropped.forEach(job => emit(job.id, 'cancelled'));
+            notifyIfIdle();
+        },
+        updateOptions(newOptions) {
+            settings = newOptions;
+            if (startTimer) {
+                clearTimeout(startTimer);
+                startTimer = null;
+            }
+            pump();
+        },
+        whenIdle() {
+            return new Promise(resolve => {
+                idleWaiters.push(resolve);
+                notifyIfIdle();
+            });
+        },
+        getState: () => ({ ...state }),
+    };
+};
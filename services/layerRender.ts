@@ -0,0 +1,142 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Draws compose layers. Shared by the live preview on the viewport and the image worker that flattens
+// them, so what is previewed is exactly what goes into history.
+
+import type { ComposeLayer } from '../types';
+import { createTaskCanvas, type TaskContext } from './taskCanvas';
+
+// Line spacing of text layers, as a multiple of the font size
+const LINE_HEIGHT = 1.2;
+
+let measureContext: TaskContext | null = null;
+
+const getFont = (layer: Extract<ComposeLayer, { type: 'text' }>): string =>
+    `${layer.bold ? 'bold' : 'normal'} ${layer.fontSize}px ${layer.fontFamily}`;
+
+/**
+ * Measures a layer before scaling.
+ * @param layer The layer.
+ * @returns Its width and height in base image pixels at a scale of 1.
+ */
+export const getLayerSize = (layer: ComposeLayer): { width: number, height: number } => {
+    if (layer.type !== 'text') return { width: layer.width, height: layer.height };
+    measureContext ??= createTaskCanvas(1, 1).ctx;
+    measureContext.font = getFont(layer);
+    const lines = layer.text.split('\n');
+    const width = Math.max(...lines.map(line => measureContext!.measureText(line).width));
+    return { width: Math.max(1, Math.ceil(width)), height: Math.ceil(lines.length * layer.fontSize * LINE_HEIGHT) };
+};
+
+/**
+ * Finds the smallest upright rectangle that holds a layer after scaling and rotation.
+ * @param layer The layer.
+ * @returns The rectangle in base image pixels; it may reach past the base image.
+ */
+export const getLayerBounds = (layer: ComposeLayer): { x: number, y: number, width: number, height: number } => {
+    const { width, height } = getLayerSize(layer);
+    const radians = (layer.rotation * Math.PI) / 180;
+    const cos = Math.abs(Math.cos(radians));
+    const sin = Math.abs(Math.sin(radians));
+    const boundsWidth = (width * cos + height * sin) * layer.scale;
+    const boundsHeight = (width * sin + height * cos) * layer.scale;
+    return { x: layer.x - boundsWidth / 2, y: layer.y - boundsHeight / 2, width: boundsWidth, height: boundsHeight };
+};
+
+/**
+ * Converts a point on the base image into a layer's own coordinates, centered on the layer and unscaled.
+ * @param layer The layer.
+ * @param x The point's x in base image pixels.
+ * @param y The point's y in base image pixels.
+ * @returns The point relative to the layer's center.
+ */
+export const toLayerPoint = (layer: ComposeLayer, x: number, y: number): { x: number, y: number } => {
+    const radians = (-layer.rotation * Math.PI) / 180;
+    const dx = x - layer.x;
+    const dy = y - layer.y;
+    return {
+        x: (dx * Math.cos(radians) - dy * Math.sin(radians)) / layer.scale,
+        y: (dx * Math.sin(radians) + dy * Math.cos(radians)) / layer.scale,
+    };
+};
+
+/**
+ * Finds the topmost visible layer whose box contains a point.
+ * @param layers The layers, bottom first.
+ * @param x The point's x in base image pixels.
+ * @param y The point's y in base image pixels.
+ * @returns The layer, or null when the point only hits the base image.
+ */
+export const hitTestLayers = (layers: ComposeLayer[], x: number, y: number): ComposeLayer | null => {
+    for (let i = layers.length - 1; i >= 0; i--) {
+        const layer = layers[i];
+        if (!layer.visible) continue;
+        const { width, height } = getLayerSize(layer);
+        const point = toLayerPoint(layer, x, y);
+        if (Math.abs(point.x) <= width / 2 && Math.abs(point.y) <= height / 2) return layer;
+    }
+    return null;
+};
+
+/**
+ * Draws one layer with its transform, opacity and blend mode.
+ * @param ctx The context to draw into, in base image pixels.
+ * @param layer The layer.
+ * @param image The decoded image of an image layer; other layer types don't need one.
+ */
+export const drawLayer = (ctx: TaskContext, layer: ComposeLayer, image?: CanvasImageSource): void => {
+    const { width, height } = getLayerSize(layer);
+    ctx.save();
+    ctx.globalAlpha = layer.opacity;
+    ctx.globalCompositeOperation = layer.blendMode === 'normal' ? 'source-over' : layer.blendMode;
+    ctx.translate(layer.x, layer.y);
+    ctx.rotate((layer.rotation * Math.PI) / 180);
+    ctx.scale(layer.scale, layer.scale);
+
+    switch (layer.type) {
+        case 'image':
+            if (image) {
+                ctx.imageSmoothingQuality = 'high';
+                ctx.drawImage(image, -width / 2, -height / 2, width, height);
+            }
+            break;
+        case 'text': {
+            ctx.font = getFont(layer);
+            ctx.fillStyle = layer.color;
+            ctx.textAlign = 'center';
+            ctx.textBaseline = 'middle';
+            const lines = layer.text.split('\n');
+            lines.forEach((line, i) => ctx.fillText(line, 0, (i - (lines.length - 1) / 2) * layer.fontSize * LINE_HEIGHT));
+            break;
+        }
+        case 'shape': {
+            ctx.beginPath();
+            if (layer.shape === 'ellipse') ctx.ellipse(0, 0, width / 2, height / 2, 0, 0, Math.PI * 2);
+            else ctx.rect(-width / 2, -height / 2, width, height);
+            ctx.fillStyle = layer.fill;
+            ctx.fill();
+            if (layer.strokeWidth > 0) {
+                ctx.strokeStyle = layer.stroke;
+                ctx.lineWidth = layer.strokeWidth;
+                ctx.stroke();
+            }
+            break;
+        }
+    }
+    ctx.restore();
+};
+
+/**
+ * Draws the base image and every visible layer over it, bottom first.
+ * @param ctx The context to draw into, in base image pixels.
+ * @param base The decoded base image.
+ * @param layers The layers, bottom first.
+ * @param images The decoded images of the image layers, by layer id.
+ */
+export const drawComposite = (ctx: TaskContext, base: CanvasImageSource, layers: ComposeLayer[], images: Map<string, CanvasImageSource>): void => {
+    ctx.drawImage(base, 0, 0);
+    layers.filter(layer => layer.visible).forEach(layer => drawLayer(ctx, layer, images.get(layer.id)));
+};
@@ -0,0 +1,146 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { BlendMode, ComposeLayer } from '../types';
+import { runInWorker } from './imageWorker';
+import { dataURLtoFile, getImageDimensions } from './imageUtils';
+import { generateEditedImage } from './geminiService';
+import { getLayerBounds } from './layerRender';
+import type { LayerFrame } from './imageTasks';
+
+export const BLEND_MODES: { value: BlendMode, label: string }[] = [
+    { value: 'normal', label: 'Normal' },
+    { value: 'multiply', label: 'Multiply' },
+    { value: 'screen', label: 'Screen' },
+    { value: 'overlay', label: 'Overlay' },
+    { value: 'darken', label: 'Darken' },
+    { value: 'lighten', label: 'Lighten' },
+    { value: 'color-dodge', label: 'Color Dodge' },
+    { value: 'color-burn', label: 'Color Burn' },
+    { value: 'hard-light', label: 'Hard Light' },
+    { value: 'soft-light', label: 'Soft Light' },
+    { value: 'difference', label: 'Difference' },
+    { value: 'exclusion', label: 'Exclusion' },
+    { value: 'hue', label: 'Hue' },
+    { value: 'saturation', label: 'Saturation' },
+    { value: 'color', label: 'Color' },
+    { value: 'luminosity', label: 'Luminosity' },
+];
+
+// Generic families only, since the worker that flattens layers can't see fonts loaded by the page
+export const FONT_FAMILIES: { value: string, label: string }[] = [
+    { value: 'sans-serif', label: 'Sans' },
+    { value: 'serif', label: 'Serif' },
+    { value: 'monospace', label: 'Mono' },
+    { value: 'cursive', label: 'Script' },
+];
+
+const HARMONIZE_PROMPT = 'Relight the inserted element so its lighting direction, color temperature, contrast and shadows match the surrounding scene. Keep its shape, position, and details exactly the same.';
+
+// Longest side of the canvas sent to the model when harmonizing; larger layers are relit at reduced size
+const MAX_HARMONIZE_SIZE = 4096;
+
+const createLayerId = (): string => `layer-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const defaults = (name: string, baseWidth: number, baseHeight: number) => ({
+    id: createLayerId(),
+    name,
+    visible: true,
+    opacity: 1,
+    blendMode: 'normal' as const,
+    x: baseWidth / 2,
+    y: baseHeight / 2,
+    scale: 1,
+    rotation: 0,
+});
+
+/**
+ * Creates a layer from an image, centered and scaled to fit within half the base image.
+ * @param image The image to place.
+ * @param baseWidth The base image width.
+ * @param baseHeight The base image height.
+ * @returns A promise that resolves to the new layer.
+ */
+export const createImageLayer = async (image: File, baseWidth: number, baseHeight: number): Promise<ComposeLayer> => {
+    const { width, height } = await getImageDimensions(image);
+    const scale = Math.min(1, (baseWidth / 2) / width, (baseHeight / 2) / height);
+    return { ...defaults(image.name, baseWidth, baseHeight), scale, type: 'image', image, width, height };
+};
+
+export const createTextLayer = (baseWidth: number, baseHeight: number): ComposeLayer => ({
+    ...defaults('Text', baseWidth, baseHeight),
+    type: 'text',
+    text: 'Your text',
+    fontFamily: FONT_FAMILIES[0].value,
+    fontSize: Math.max(12, Math.round(Math.min(baseWidth, baseHeight) / 10)),
+    bold: true,
+    color: '#ffffff',
+});
+
+export const createShapeLayer = (shape: 'rectangle' | 'ellipse', baseWidth: number, baseHeight: number): ComposeLayer => {
+    const size = Math.round(Math.min(baseWidth, baseHeight) / 3);
+    return {
+        ...defaults(shape === 'ellipse' ? 'Ellipse' : 'Rectangle', baseWidth, baseHeight),
+        type: 'shape',
+        shape,
+        width: size,
+        height: size,
+        fill: '#3b82f6',
+        stroke: '#ffffff',
+        strokeWidth: 0,
+    };
+};
+
+/**
+ * Summarizes layers for the history, leaving out image data.
+ * @param layers The layers, bottom first.
+ * @returns The settings worth recording for each layer.
+ */
+export const describeLayers = (layers: ComposeLayer[]): Record<string, unknown>[] =>
+    layers.filter(layer => layer.visible).map(layer => {
+        const { id, visible, ...settings } = layer;
+        if (settings.type !== 'image') return settings;
+        const { image, ...rest } = settings;
+        return rest;
+    });
+
+/**
+ * Draws the layers over the base image into one image, in the image worker.
+ * @param base The base image.
+ * @param layers The layers, bottom first.
+ * @returns A promise that resolves to the data URL of the flattened image.
+ */
+export const flattenLayers = (base: File, layers: ComposeLayer[]): Promise<string> =>
+    runInWorker({ type: 'flatten-layers', base, layers });
+
+/**
+ * Relights an image layer to match the scene around it. The model works on a canvas around the whole
+ * layer at the layer's own resolution, including any part past the base image's edges, and only edits
+ * where the layer is. The result is read back into the layer, so it can still be moved and blended afterwards.
+ * @param base The base image.
+ * @param layers The layers, bottom first.
+ * @param layerId The image layer to relight.
+ * @returns A promise that resolves to the layer's new image, with the same pixel size as before.
+ */
+export const harmonizeLayer = async (base: File, layers: ComposeLayer[], layerId: string): Promise<File> => {
+    const index = layers.findIndex(layer => layer.id === layerId);
+    const layer = layers[index];
+    if (!layer || layer.type !== 'image') throw new Error('Only image layers can be harmonized.');
+
+    // Layers above would cover it in the read-back, and its own opacity and blending would mix in the base
+    const target = { ...layer, visible: true, opacity: 1, blendMode: 'normal' as const };
+    const scene = [...layers.slice(0, index), target];
+    const bounds = getLayerBounds(target);
+    const scale = Math.min(1 / target.scale, MAX_HARMONIZE_SIZE / Math.max(bounds.width, bounds.height));
+    const frame: LayerFrame = { ...bounds, scale };
+    const [composite, mask] = await Promise.all([
+        runInWorker({ type: 'flatten-layers', base, layers: scene, frame }).then(url => dataURLtoFile(url, 'composite.png')),
+        runInWorker({ type: 'layer-mask', frame, layer: target }).then(url => dataURLtoFile(url, 'layer-mask.png')),
+    ]);
+
+    const relit = await generateEditedImage(composite, HARMONIZE_PROMPT, mask, 0);
+    const pixels = await runInWorker({ type: 'extract-layer', composite: relit, frame, layer: target });
+    return dataURLtoFile(pixels, `${layer.name.replace(/\.[^/.]+$/, '')}-harmonized.png`);
+};
@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Turns a rough subject mask into a soft alpha matte that follows the image's own edges. Runs inside the image worker.
+
+// How closely the matte follows the guide image; smaller values keep more of the image's edge detail
+const GUIDED_FILTER_EPSILON = 1e-3;
+
+// Mean over a (2r+1)² window, clamped at the borders, in two sliding-window passes
+const boxMean = (src: Float32Array, width: number, height: number, r: number): Float32Array => {
+    const tmp = new Float32Array(src.length);
+    const out = new Float32Array(src.length);
+    const windowSize = r * 2 + 1;
+
+    for (let y = 0; y < height; y++) {
+        const row = y * width;
+        let sum = 0;
+        for (let k = -r; k <= r; k++) sum += src[row + Math.min(width - 1, Math.max(0, k))];
+        for (let x = 0; x < width; x++) {
+            tmp[row + x] = sum / windowSize;
+            sum += src[row + Math.min(width - 1, x + r + 1)] - src[row + Math.max(0, x - r)];
+        }
+    }
+    for (let x = 0; x < width; x++) {
+        let sum = 0;
+        for (let k = -r; k <= r; k++) sum += tmp[Math.min(height - 1, Math.max(0, k)) * width + x];
+        for (let y = 0; y < height; y++) {
+            out[y * width + x] = sum / windowSize;
+            sum += tmp[Math.min(height - 1, y + r + 1) * width + x] - tmp[Math.max(0, y - r) * width + x];
+        }
+    }
+    return out;
+};
+
+/**
+ * Refines a subject mask with a guided filter on the image's luminance. Only a band of the given
+ * radius around the mask edge changes; everything well inside or outside stays fully opaque or clear.
+ * @param image The image pixels, four bytes per pixel.
+ * @param mask The mask pixels at the same size; any channel above mid-grey counts as subject.
+ * @param width The image width.
+ * @param height The image height.
+ * @param radius How far from the mask edge, in pixels, the matte may soften.
+ * @returns The alpha of every pixel, from 0 to 1.
+ */
+export const refineMatte = (image: Uint8ClampedArray, mask: Uint8ClampedArray, width: number, height: number, radius: number): Float32Array => {
+    const count = width * height;
+    const p = new Float32Array(count);
+    for (let i = 0; i < count; i++) p[i] = mask[i * 4] > 127 && mask[i * 4 + 3] > 127 ? 1 : 0;
+    const r = Math.round(radius);
+    if (r < 1) return p;
+
+    const guide = new Float32Array(count);
+    for (let i = 0; i < count; i++) {
+        guide[i] = (0.299 * image[i * 4] + 0.587 * image[i * 4 + 1] + 0.114 * image[i * 4 + 2]) / 255;
+    }
+
+    const meanI = boxMean(guide, width, height, r);
+    const meanP = boxMean(p, width, height, r);
+    const product = new Float32Array(count);
+    for (let i = 0; i < count; i++) product[i] = guide[i] * guide[i];
+    const a = boxMean(product, width, height, r);
+    for (let i = 0; i < count; i++) product[i] = guide[i] * p[i];
+    const b = boxMean(product, width, height, r);
+
+    // Per-window linear model alpha = a * I + b, fitted by least squares
+    for (let i = 0; i < count; i++) {
+        const variance = a[i] - meanI[i] * meanI[i];
+        const covariance = b[i] - meanI[i] * meanP[i];
+        a[i] = covariance / (variance + GUIDED_FILTER_EPSILON);
+        b[i] = meanP[i] - a[i] * meanI[i];
+    }
+    const meanA = boxMean(a, width, height, r);
+    const meanB = boxMean(b, width, height, r);
+
+    const matte = new Float32Array(count);
+    for (let i = 0; i < count; i++) {
+        // A window that is all subject or all background has nothing to refine
+        const nearEdge = meanP[i] > 1e-4 && meanP[i] < 1 - 1e-4;
+        matte[i] = nearEdge ? Math.min(1, Math.max(0, meanA[i] * guide[i] + meanB[i])) : p[i];
+    }
+    return matte;
+};
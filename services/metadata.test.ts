@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { embedJpegMetadata, readFileMetadata, withoutLocation } from './metadata';
+import type { ImageMetadata } from '../types';
+
+// The smallest file the reader and writer treat as a JPEG: SOI, a JFIF APP0 segment, SOS and EOI
+const JFIF = [0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0x01, 0x00, 0x00, 0x01, 0x00, 0x01, 0x00, 0x00];
+const jpeg = () => new Blob([new Uint8Array([0xff, 0xd8, ...JFIF, 0xff, 0xda, 0x00, 0x02, 0xff, 0xd9])], { type: 'image/jpeg' });
+
+const METADATA: ImageMetadata = {
+    title: 'Harbour at dawn',
+    description: 'Boats — and fog',
+    author: 'A. Photographer',
+    copyright: '© 2026 A. Photographer',
+    make: 'Canon',
+    model: 'EOS R5',
+    lens: 'RF 24-70mm F2.8',
+    dateTaken: '2026:03:14 06:12:00',
+    exposureTime: 1 / 250,
+    fNumber: 2.8,
+    iso: 200,
+    focalLength: 35,
+    location: { latitude: 59.91387, longitude: -10.75225, altitude: 12.5 },
+};
+
+const segmentMarkers = async (blob: Blob): Promise<number[]> => {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const markers: number[] = [];
+    for (let offset = 2; bytes[offset] === 0xff && bytes[offset + 1] !== 0xda; offset += 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3])) {
+        markers.push(bytes[offset + 1]);
+    }
+    return markers;
+};
+
+describe('embedJpegMetadata', () => {
+    it('writes metadata that reads back the same', async () => {
+        const { metadata, orientation } = await readFileMetadata(await embedJpegMetadata(jpeg(), METADATA));
+        const { location, ...fields } = metadata!;
+        expect(fields).toEqual(withoutLocation(METADATA));
+        expect(location!.latitude).toBeCloseTo(METADATA.location!.latitude, 5);
+        expect(location!.longitude).toBeCloseTo(METADATA.location!.longitude, 5);
+        expect(location!.altitude).toBeCloseTo(12.5, 2);
+        expect(orientation).toBe(1);
+    });
+
+    it('inserts the segments after the JFIF header and keeps the image data', async () => {
+        const embedded = await embedJpegMetadata(jpeg(), METADATA);
+        expect(await segmentMarkers(embedded)).toEqual([0xe0, 0xe1, 0xed]);
+        const bytes = new Uint8Array(await embedded.arrayBuffer());
+        expect([...bytes.subarray(-6)]).toEqual([0xff, 0xda, 0x00, 0x02, 0xff, 0xd9]);
+    });
+
+    it('leaves out IPTC when there are no descriptive fields', async () => {
+        const embedded = await embedJpegMetadata(jpeg(), { make: 'Canon' });
+        expect(await segmentMarkers(embedded)).toEqual([0xe0, 0xe1]);
+        expect((await readFileMetadata(embedded)).metadata).toEqual({ make: 'Canon' });
+    });
+
+    it('refuses files that are not JPEG', async () => {
+        await expect(embedJpegMetadata(new Blob([new Uint8Array([0x89, 0x50, 0x4e, 0x47])]), METADATA)).rejects.toThrow();
+    });
+});
@@ -0,0 +1,502 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ImageMetadata } from '../types';
+import { readIfd, readTiffHeader, TYPE_ASCII, TYPE_BYTE, TYPE_LONG, TYPE_RATIONAL, TYPE_SHORT, type TiffValue } from './tiff';
+
+// The fields the metadata panel lets the user edit
+export const EDITABLE_FIELDS: { key: 'title' | 'description' | 'author' | 'copyright', label: string }[] = [
+    { key: 'title', label: 'Title' },
+    { key: 'description', label: 'Description' },
+    { key: 'author', label: 'Author' },
+    { key: 'copyright', label: 'Copyright' },
+];
+
+// TIFF tags, by the IFD they live in
+const TAG = {
+    imageDescription: 0x010e,
+    make: 0x010f,
+    model: 0x0110,
+    orientation: 0x0112,
+    software: 0x0131,
+    artist: 0x013b,
+    copyright: 0x8298,
+    exifPointer: 0x8769,
+    gpsPointer: 0x8825,
+    xpTitle: 0x9c9b,
+};
+const EXIF_TAG = {
+    exposureTime: 0x829a,
+    fNumber: 0x829d,
+    iso: 0x8827,
+    dateTimeOriginal: 0x9003,
+    focalLength: 0x920a,
+    lensModel: 0xa434,
+};
+const GPS_TAG = {
+    versionId: 0x0000,
+    latitudeRef: 0x0001,
+    latitude: 0x0002,
+    longitudeRef: 0x0003,
+    longitude: 0x0004,
+    altitudeRef: 0x0005,
+    altitude: 0x0006,
+};
+
+// IPTC application record datasets
+const IPTC = {
+    objectName: 5,
+    byline: 80,
+    copyright: 116,
+    caption: 120,
+};
+
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00]; // "Exif\0\0"
+const PHOTOSHOP_HEADER = 'Photoshop 3.0\0';
+const IRB_SIGNATURE = 0x3842494d; // "8BIM"
+const IRB_IPTC = 0x0404;
+
+const utf8 = new TextDecoder('utf-8');
+const encoder = new TextEncoder();
+
+const startsWith = (bytes: Uint8Array, offset: number, prefix: ArrayLike<number> | string): boolean => {
+    const expected = typeof prefix === 'string' ? encoder.encode(prefix) : prefix;
+    if (offset + expected.length > bytes.length) return false;
+    for (let i = 0; i < expected.length; i++) {
+        if (bytes[offset + i] !== expected[i]) return false;
+    }
+    return true;
+};
+
+const asText = (value: TiffValue | undefined): string | undefined =>
+    typeof value === 'string' && value ? value : undefined;
+
+const asNumber = (value: TiffValue | undefined): number | undefined => {
+    const number = Array.isArray(value) ? value[0] : value;
+    return typeof number === 'number' && Number.isFinite(number) && number > 0 ? number : undefined;
+};
+
+// Windows stores its title as UTF-16 bytes
+const asUtf16 = (value: TiffValue | undefined): string | undefined => {
+    if (!Array.isArray(value)) return undefined;
+    return asText(new TextDecoder('utf-16le').decode(new Uint8Array(value)).replace(/\0+$/, '').trim());
+};
+
+const toDegrees = (value: TiffValue | undefined, ref: TiffValue | undefined, negativeRef: string): number | undefined => {
+    if (!Array.isArray(value) || value.length < 3) return undefined;
+    const degrees = value[0] + value[1] / 60 + value[2] / 3600;
+    return ref === negativeRef ? -degrees : degrees;
+};
+
+// Drops the fields that weren't found so merging sources doesn't overwrite values with undefined
+const compact = <T extends ImageMetadata>(metadata: T): T =>
+    Object.fromEntries(Object.entries(metadata).filter(([, value]) => value !== undefined)) as T;
+
+// Metadata plus the EXIF orientation, which only matters while importing
+type ParsedMetadata = ImageMetadata & { orientation?: number };
+
+const parseTiff = (view: DataView): ParsedMetadata => {
+    const header = readTiffHeader(view);
+    if (!header) return {};
+    const { little } = header;
+    const ifd0 = readIfd(view, header.firstIfd, little).tags;
+    const exif = readIfd(view, asNumber(ifd0.get(TAG.exifPointer)) ?? 0, little).tags;
+    const gps = readIfd(view, asNumber(ifd0.get(TAG.gpsPointer)) ?? 0, little).tags;
+
+    const latitude = toDegrees(gps.get(GPS_TAG.latitude), gps.get(GPS_TAG.latitudeRef), 'S');
+    const longitude = toDegrees(gps.get(GPS_TAG.longitude), gps.get(GPS_TAG.longitudeRef), 'W');
+    const altitude = typeof gps.get(GPS_TAG.altitude) === 'number'
+        ? (gps.get(GPS_TAG.altitude) as number) * (gps.get(GPS_TAG.altitudeRef) === 1 ? -1 : 1)
+        : undefined;
+
+    return compact({
+        orientation: asNumber(ifd0.get(TAG.orientation)),
+        title: asUtf16(ifd0.get(TAG.xpTitle)),
+        description: asText(ifd0.get(TAG.imageDescription)),
+        author: asText(ifd0.get(TAG.artist)),
+        copyright: asText(ifd0.get(TAG.copyright)),
+        make: asText(ifd0.get(TAG.make)),
+        model: asText(ifd0.get(TAG.model)),
+        lens: asText(exif.get(EXIF_TAG.lensModel)),
+        dateTaken: asText(exif.get(EXIF_TAG.dateTimeOriginal)),
+        exposureTime: asNumber(exif.get(EXIF_TAG.exposureTime)),
+        fNumber: asNumber(exif.get(EXIF_TAG.fNumber)),
+        iso: asNumber(exif.get(EXIF_TAG.iso)),
+        focalLength: asNumber(exif.get(EXIF_TAG.focalLength)),
+        location: latitude !== undefined && longitude !== undefined
+            ? { latitude, longitude, ...(altitude !== undefined && { altitude }) }
+            : undefined,
+    });
+};
+
+const parseIptc = (bytes: Uint8Array): ImageMetadata => {
+    const fields: Record<number, string> = {};
+    let offset = 0;
+    while (offset + 5 <= bytes.length && bytes[offset] === 0x1c) {
+        const record = bytes[offset + 1];
+        const dataset = bytes[offset + 2];
+        const length = (bytes[offset + 3] << 8) | bytes[offset + 4];
+        // Extended-length datasets only occur for binary data we don't read
+        if (length & 0x8000) break;
+        if (record === 2) fields[dataset] = utf8.decode(bytes.subarray(offset + 5, offset + 5 + length)).trim();
+        offset += 5 + length;
+    }
+    return compact({
+        title: fields[IPTC.objectName] || undefined,
+        description: fields[IPTC.caption] || undefined,
+        author: fields[IPTC.byline] || undefined,
+        copyright: fields[IPTC.copyright] || undefined,
+    });
+};
+
+// Finds the IPTC block among the Photoshop image resources of an APP13 segment
+const findIptcResource = (bytes: Uint8Array, start: number, end: number): Uint8Array | null => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset);
+    let offset = start;
+    while (offset + 12 <= end && view.getUint32(offset) === IRB_SIGNATURE) {
+        const id = view.getUint16(offset + 4);
+        // The resource name is a Pascal string padded to an even length
+        const nameLength = bytes[offset + 6];
+        let dataStart = offset + 6 + nameLength + 1;
+        if ((nameLength + 1) % 2) dataStart++;
+        const size = view.getUint32(dataStart);
+        dataStart += 4;
+        if (id === IRB_IPTC) return bytes.subarray(dataStart, Math.min(dataStart + size, end));
+        offset = dataStart + size + (size % 2);
+    }
+    return null;
+};
+
+const readJpeg = (bytes: Uint8Array): ParsedMetadata[] => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const found: ParsedMetadata[] = [];
+    let offset = 2;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+        const marker = bytes[offset + 1];
+        if (marker === 0xff) { offset++; continue; }
+        // Image data starts at SOS; metadata always comes before it
+        if (marker === 0xda || marker === 0xd9) break;
+        const length = view.getUint16(offset + 2);
+        const start = offset + 4;
+        const end = Math.min(offset + 2 + length, bytes.length);
+        if (marker === 0xe1 && startsWith(bytes, start, EXIF_HEADER)) {
+            found.push(parseTiff(new DataView(bytes.buffer, bytes.byteOffset + start + 6, end - start - 6)));
+        } else if (marker === 0xed && startsWith(bytes, start, PHOTOSHOP_HEADER)) {
+            const iptc = findIptcResource(bytes, start + PHOTOSHOP_HEADER.length, end);
+            if (iptc) found.push(parseIptc(iptc));
+        }
+        offset += 2 + length;
+    }
+    return found;
+};
+
+const PNG_TEXT_KEYS: Record<string, keyof ImageMetadata> = {
+    Title: 'title',
+    Description: 'description',
+    Author: 'author',
+    Copyright: 'copyright',
+};
+
+const readPng = (bytes: Uint8Array): ParsedMetadata[] => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const found: ParsedMetadata[] = [];
+    const text: Record<string, string> = {};
+    let offset = 8;
+    while (offset + 12 <= bytes.length) {
+        const length = view.getUint32(offset);
+        const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+        const data = bytes.subarray(offset + 8, Math.min(offset + 8 + length, bytes.length));
+        if (type === 'eXIf') {
+            found.push(parseTiff(new DataView(data.buffer, data.byteOffset, data.byteLength)));
+        } else if (type === 'tEXt' || type === 'iTXt') {
+            const keywordEnd = data.indexOf(0);
+            const key = PNG_TEXT_KEYS[new TextDecoder('latin1').decode(data.subarray(0, keywordEnd))];
+            if (key && type === 'tEXt') {
+                text[key] = new TextDecoder('latin1').decode(data.subarray(keywordEnd + 1));
+            } else if (key && data[keywordEnd + 1] === 0) {
+                // Uncompressed iTXt: flags, then a language tag and translated keyword before the text
+                const languageEnd = data.indexOf(0, keywordEnd + 3);
+                const translatedEnd = data.indexOf(0, languageEnd + 1);
+                text[key] = utf8.decode(data.subarray(translatedEnd + 1));
+            }
+        } else if (type === 'IEND') {
+            break;
+        }
+        offset += 12 + length;
+    }
+    found.push(compact(text as ImageMetadata));
+    return found;
+};
+
+const readWebp = (bytes: Uint8Array): ParsedMetadata[] => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = 12;
+    while (offset + 8 <= bytes.length) {
+        const type = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+        const size = view.getUint32(offset + 4, true);
+        if (type === 'EXIF') {
+            // Some encoders keep the JPEG-style "Exif" prefix in front of the TIFF data
+            const start = offset + 8 + (startsWith(bytes, offset + 8, EXIF_HEADER) ? 6 : 0);
+            return [parseTiff(new DataView(bytes.buffer, bytes.byteOffset + start, offset + 8 + size - start))];
+        }
+        offset += 8 + size + (size % 2);
+    }
+    return [];
+};
+
+const indexOf = (bytes: Uint8Array, pattern: string, from = 0, limit = bytes.length): number => {
+    const needle = encoder.encode(pattern);
+    const end = Math.min(limit, bytes.length) - needle.length;
+    for (let i = from; i <= end; i++) {
+        if (startsWith(bytes, i, needle)) return i;
+    }
+    return -1;
+};
+
+// Canon CR3 keeps its IFD0 in a CMT1 box near the start of the file
+const readCr3 = (bytes: Uint8Array): ParsedMetadata[] => {
+    const box = indexOf(bytes, 'CMT1', 0, 1 << 16);
+    if (box < 4) return [];
+    const size = new DataView(bytes.buffer, bytes.byteOffset).getUint32(box - 4);
+    return [parseTiff(new DataView(bytes.buffer, bytes.byteOffset + box + 4, Math.min(size - 8, bytes.length - box - 4)))];
+};
+
+// HEIF stores EXIF as an item somewhere in the file; the "Exif" marker in front of it is enough to find it
+const readHeif = (bytes: Uint8Array): ParsedMetadata[] => {
+    for (let at = indexOf(bytes, 'Exif\0\0'); at >= 0; at = indexOf(bytes, 'Exif\0\0', at + 6)) {
+        const view = new DataView(bytes.buffer, bytes.byteOffset + at + 6, bytes.length - at - 6);
+        if (readTiffHeader(view)) return [parseTiff(view)];
+    }
+    return [];
+};
+
+/**
+ * Reads the EXIF and IPTC metadata of a JPEG, PNG, WebP, HEIC or RAW file, along with
+ * its EXIF orientation. Where both EXIF and IPTC carry a descriptive field, the IPTC value
+ * wins, as photo managers write that one.
+ * @param file The uploaded file.
+ * @returns A promise that resolves to the metadata (null if the file has none) and the orientation, 1 to 8.
+ */
+export const readFileMetadata = async (file: Blob): Promise<{ metadata: ImageMetadata | null, orientation: number }> => {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    let sources: ParsedMetadata[] = [];
+    try {
+        const brand = String.fromCharCode(...bytes.subarray(8, 12));
+        if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+            sources = readJpeg(bytes);
+        } else if (startsWith(bytes, 0, [0x89, 0x50, 0x4e, 0x47])) {
+            sources = readPng(bytes);
+        } else if (startsWith(bytes, 0, 'RIFF') && startsWith(bytes, 8, 'WEBP')) {
+            sources = readWebp(bytes);
+        } else if (startsWith(bytes, 4, 'ftyp') && brand === 'crx ') {
+            sources = readCr3(bytes);
+        } else if (startsWith(bytes, 4, 'ftyp')) {
+            sources = readHeif(bytes);
+        } else if (readTiffHeader(new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength))) {
+            sources = [parseTiff(new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength))];
+        }
+    } catch (err) {
+        // A truncated or malformed block shouldn't stop the upload; keep what was read
+        console.error('Failed to read image metadata.', err);
+    }
+    const { orientation, ...metadata } = sources.reduce<ParsedMetadata>((merged, source) => ({ ...merged, ...source }), {});
+    return {
+        metadata: Object.keys(metadata).length > 0 ? metadata : null,
+        orientation: orientation && orientation >= 1 && orientation <= 8 ? orientation : 1,
+    };
+};
+
+/**
+ * Removes the GPS position from metadata.
+ * @param metadata The metadata to clean.
+ * @returns A copy without the location.
+ */
+export const withoutLocation = ({ location, ...metadata }: ImageMetadata): ImageMetadata => metadata;
+
+type IfdField = { tag: number, type: number, count: number, data: Uint8Array };
+
+const packNumbers = (values: number[], bytesEach: number): Uint8Array => {
+    const data = new Uint8Array(values.length * bytesEach);
+    const view = new DataView(data.buffer);
+    values.forEach((value, i) => {
+        if (bytesEach === 1) view.setUint8(i, value);
+        else if (bytesEach === 2) view.setUint16(i * 2, value);
+        else view.setUint32(i * 4, value);
+    });
+    return data;
+};
+
+const asciiField = (tag: number, value: string): IfdField => {
+    const data = encoder.encode(`${value}\0`);
+    return { tag, type: TYPE_ASCII, count: data.length, data };
+};
+const byteField = (tag: number, values: number[]): IfdField =>
+    ({ tag, type: TYPE_BYTE, count: values.length, data: packNumbers(values, 1) });
+const shortField = (tag: number, value: number): IfdField =>
+    ({ tag, type: TYPE_SHORT, count: 1, data: packNumbers([value], 2) });
+const longField = (tag: number, value: number): IfdField =>
+    ({ tag, type: TYPE_LONG, count: 1, data: packNumbers([value], 4) });
+// Each rational is a [numerator, denominator] pair
+const rationalField = (tag: number, values: [number, number][]): IfdField =>
+    ({ tag, type: TYPE_RATIONAL, count: values.length, data: packNumbers(values.flat(), 4) });
+
+const toRational = (value: number, denominator: number): [number, number] => [Math.round(value * denominator), denominator];
+
+// Exposure times are conventionally written as 1/x
+const exposureRational = (seconds: number): [number, number] =>
+    seconds < 1 ? [1, Math.round(1 / seconds)] : toRational(seconds, 10);
+
+const toDms = (degrees: number): [number, number][] => {
+    const absolute = Math.abs(degrees);
+    const whole = Math.floor(absolute);
+    const minutes = Math.floor((absolute - whole) * 60);
+    const seconds = ((absolute - whole) * 60 - minutes) * 60;
+    return [[whole, 1], [minutes, 1], toRational(seconds, 1000)];
+};
+
+// Values too large for the 4-byte slot live after the entries, padded to an even offset
+const ifdSize = (fields: IfdField[]): number =>
+    2 + fields.length * 12 + 4 + fields.reduce((sum, f) => sum + (f.data.length > 4 ? f.data.length + (f.data.length % 2) : 0), 0);
+
+const writeIfd = (bytes: Uint8Array, offset: number, fields: IfdField[]): void => {
+    const view = new DataView(bytes.buffer);
+    const sorted = [...fields].sort((a, b) => a.tag - b.tag);
+    view.setUint16(offset, sorted.length);
+    let dataOffset = offset + 2 + sorted.length * 12 + 4;
+    sorted.forEach((field, i) => {
+        const entry = offset + 2 + i * 12;
+        view.setUint16(entry, field.tag);
+        view.setUint16(entry + 2, field.type);
+        view.setUint32(entry + 4, field.count);
+        if (field.data.length <= 4) {
+            bytes.set(field.data, entry + 8);
+        } else {
+            view.setUint32(entry + 8, dataOffset);
+            bytes.set(field.data, dataOffset);
+            dataOffset += field.data.length + (field.data.length % 2);
+        }
+    });
+    view.setUint32(offset + 2 + sorted.length * 12, 0);
+};
+
+// Builds a big-endian TIFF structure with IFD0 and, when needed, the Exif and GPS IFDs
+const buildTiff = (metadata: ImageMetadata): Uint8Array => {
+    // Browsers apply the orientation when decoding, so exported pixels are always upright
+    const ifd0: IfdField[] = [shortField(TAG.orientation, 1), asciiField(TAG.software, 'Pixshop')];
+    if (metadata.description) ifd0.push(asciiField(TAG.imageDescription, metadata.description));
+    if (metadata.make) ifd0.push(asciiField(TAG.make, metadata.make));
+    if (metadata.model) ifd0.push(asciiField(TAG.model, metadata.model));
+    if (metadata.author) ifd0.push(asciiField(TAG.artist, metadata.author));
+    if (metadata.copyright) ifd0.push(asciiField(TAG.copyright, metadata.copyright));
+
+    const exif: IfdField[] = [];
+    if (metadata.exposureTime) exif.push(rationalField(EXIF_TAG.exposureTime, [exposureRational(metadata.exposureTime)]));
+    if (metadata.fNumber) exif.push(rationalField(EXIF_TAG.fNumber, [toRational(metadata.fNumber, 10)]));
+    if (metadata.iso) exif.push(shortField(EXIF_TAG.iso, Math.min(65535, Math.round(metadata.iso))));
+    if (metadata.dateTaken) exif.push(asciiField(EXIF_TAG.dateTimeOriginal, metadata.dateTaken));
+    if (metadata.focalLength) exif.push(rationalField(EXIF_TAG.focalLength, [toRational(metadata.focalLength, 10)]));
+    if (metadata.lens) exif.push(asciiField(EXIF_TAG.lensModel, metadata.lens));
+
+    const gps: IfdField[] = [];
+    if (metadata.location) {
+        const { latitude, longitude, altitude } = metadata.location;
+        gps.push(
+            byteField(GPS_TAG.versionId, [2, 3, 0, 0]),
+            asciiField(GPS_TAG.latitudeRef, latitude < 0 ? 'S' : 'N'),
+            rationalField(GPS_TAG.latitude, toDms(latitude)),
+            asciiField(GPS_TAG.longitudeRef, longitude < 0 ? 'W' : 'E'),
+            rationalField(GPS_TAG.longitude, toDms(longitude)),
+        );
+        if (altitude !== undefined) {
+            gps.push(byteField(GPS_TAG.altitudeRef, [altitude < 0 ? 1 : 0]), rationalField(GPS_TAG.altitude, [toRational(Math.abs(altitude), 100)]));
+        }
+    }
+
+    // The sub-IFD pointers fit in their entries, so IFD0's size is known before their offsets are
+    let offset = 8 + ifdSize(ifd0) + (exif.length ? 12 : 0) + (gps.length ? 12 : 0);
+    const exifOffset = offset;
+    if (exif.length) { ifd0.push(longField(TAG.exifPointer, exifOffset)); offset += ifdSize(exif); }
+    const gpsOffset = offset;
+    if (gps.length) { ifd0.push(longField(TAG.gpsPointer, gpsOffset)); offset += ifdSize(gps); }
+
+    const bytes = new Uint8Array(offset);
+    bytes.set([0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08]); // "MM", 42, IFD0 at 8
+    writeIfd(bytes, 8, ifd0);
+    if (exif.length) writeIfd(bytes, exifOffset, exif);
+    if (gps.length) writeIfd(bytes, gpsOffset, gps);
+    return bytes;
+};
+
+const iptcDataset = (dataset: number, value: Uint8Array, record = 2): number[] => {
+    const data = value.subarray(0, 0x7fff);
+    return [0x1c, record, dataset, data.length >> 8, data.length & 0xff, ...data];
+};
+
+// Builds the Photoshop image resource block that carries IPTC in a JPEG
+const buildIptcResource = (metadata: ImageMetadata): Uint8Array | null => {
+    const datasets: [number, string | undefined][] = [
+        [IPTC.objectName, metadata.title],
+        [IPTC.byline, metadata.author],
+        [IPTC.copyright, metadata.copyright],
+        [IPTC.caption, metadata.description],
+    ];
+    const present = datasets.filter(([, value]) => value);
+    if (present.length === 0) return null;
+
+    const iptc = [
+        // Declares the values as UTF-8
+        ...iptcDataset(90, new Uint8Array([0x1b, 0x25, 0x47]), 1),
+        ...iptcDataset(0, new Uint8Array([0x00, 0x04])),
+        ...present.flatMap(([dataset, value]) => iptcDataset(dataset, encoder.encode(value))),
+    ];
+    const header = [...encoder.encode(PHOTOSHOP_HEADER), 0x38, 0x42, 0x49, 0x4d, IRB_IPTC >> 8, IRB_IPTC & 0xff, 0, 0];
+    const size = packNumbers([iptc.length], 4);
+    return new Uint8Array([...header, ...size, ...iptc, ...(iptc.length % 2 ? [0] : [])]);
+};
+
+const jpegSegment = (marker: number, payload: Uint8Array): Uint8Array => {
+    const length = payload.length + 2;
+    if (length > 0xffff) throw new Error('The image metadata is too large to embed.');
+    const segment = new Uint8Array(length + 2);
+    segment.set([0xff, marker, length >> 8, length & 0xff]);
+    segment.set(payload, 4);
+    return segment;
+};
+
+/**
+ * Writes metadata into a JPEG as an EXIF and an IPTC segment. The canvas encoder writes
+ * neither, so they are inserted after the JFIF header. No color profile is written: the
+ * pixels are sRGB by the time they are encoded, which viewers assume for untagged JPEGs.
+ * @param jpeg The encoded JPEG.
+ * @param metadata The metadata to embed.
+ * @returns A promise that resolves to the JPEG with its metadata.
+ */
+export const embedJpegMetadata = async (jpeg: Blob, metadata: ImageMetadata): Promise<Blob> => {
+    const bytes = new Uint8Array(await jpeg.arrayBuffer());
+    if (bytes[0] !== 0xff || bytes[1] !== 0xd8) throw new Error('Metadata can only be embedded into JPEG files.');
+
+    const segments = [jpegSegment(0xe1, new Uint8Array([...EXIF_HEADER, ...buildTiff(metadata)]))];
+    const iptc = buildIptcResource(metadata);
+    if (iptc) segments.push(jpegSegment(0xed, iptc));
+
+    const insertAt = bytes[2] === 0xff && bytes[3] === 0xe0 ? 4 + ((bytes[4] << 8) | bytes[5]) : 2;
+    return new Blob([bytes.subarray(0, insertAt), ...segments, bytes.subarray(insertAt)], { type: 'image/jpeg' });
+};
+
+/**
+ * Formats the capture settings as a photographer would write them.
+ * @param metadata The metadata.
+ * @returns e.g. "1/250 s · f/2.8 · ISO 200 · 35 mm", or null if none were recorded.
+ */
+export const formatExposure = (metadata: ImageMetadata): string | null => {
+    const parts: string[] = [];
+    if (metadata.exposureTime) {
+        parts.push(metadata.exposureTime < 1 ? `1/${Math.round(1 / metadata.exposureTime)} s` : `${metadata.exposureTime} s`);
+    }
+    if (metadata.fNumber) parts.push(`f/${Number(metadata.fNumber.toFixed(1))}`);
+    if (metadata.iso) parts.push(`ISO ${metadata.iso}`);
+    if (metadata.focalLength) parts.push(`${Number(metadata.focalLength.toFixed(1))} mm`);
+    return parts.length > 0 ? parts.join(' · ') : null;
+};
@@ -0,0 +1,214 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ImageProvider, Hotspot } from './imageProvider';
+import { loadImage, createCanvas } from './imageUtils';
+import type { ExpandOffset } from './expand';
+
+// A 4x5 color matrix (row-major, offsets in 0-255 units) applied to every pixel
+type ColorMatrix = number[];
+
+// Stylistic looks the mock picks from, keyed deterministically by prompt text
+const MOCK_LOOKS: ColorMatrix[] = [
+    // Sepia
+    [0.393, 0.769, 0.189, 0, 0, 0.349, 0.686, 0.168, 0, 0, 0.272, 0.534, 0.131, 0, 0, 0, 0, 0, 1, 0],
+    // High-contrast black and white
+    [0.45, 0.88, 0.17, 0, -96, 0.45, 0.88, 0.17, 0, -96, 0.45, 0.88, 0.17, 0, -96, 0, 0, 0, 1, 0],
+    // Cool cyan/magenta
+    [1.1, 0, 0.2, 0, 10, 0, 0.9, 0.2, 0, 0, 0.2, 0.1, 1.2, 0, 20, 0, 0, 0, 1, 0],
+    // Warm golden
+    [1.15, 0.05, 0, 0, 15, 0, 1.05, 0, 0, 8, 0, 0, 0.85, 0, -10, 0, 0, 0, 1, 0],
+    // Faded film
+    [0.8, 0.1, 0.1, 0, 30, 0.1, 0.8, 0.1, 0, 25, 0.1, 0.1, 0.7, 0, 35, 0, 0, 0, 1, 0],
+    // Channel swap
+    [0, 0, 1, 0, 0, 1, 0, 0, 0, 0, 0, 1, 0, 0, 0, 0, 0, 0, 1, 0],
+];
+
+// FNV-1a hash so the same prompt always produces the same result
+const hashString = (value: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+const clampByte = (value: number): number => value < 0 ? 0 : value > 255 ? 255 : value;
+
+const applyColorMatrix = (imageData: ImageData, matrix: ColorMatrix): void => {
+    const data = imageData.data;
+    for (let i = 0; i < data.length; i += 4) {
+        const r = data[i], g = data[i + 1], b = data[i + 2], a = data[i + 3];
+        data[i] = clampByte(matrix[0] * r + matrix[1] * g + matrix[2] * b + matrix[3] * a + matrix[4]);
+        data[i + 1] = clampByte(matrix[5] * r + matrix[6] * g + matrix[7] * b + matrix[8] * a + matrix[9]);
+        data[i + 2] = clampByte(matrix[10] * r + matrix[11] * g + matrix[12] * b + matrix[13] * a + matrix[14]);
+        data[i + 3] = clampByte(matrix[15] * r + matrix[16] * g + matrix[17] * b + matrix[18] * a + matrix[19]);
+    }
+};
+
+// Builds a brightness/contrast matrix from values in the -100..100 range
+const brightnessContrastMatrix = (brightness: number, contrast: number): ColorMatrix => {
+    const c = 1 + contrast / 100;
+    const offset = 128 * (1 - c) + brightness * 1.28;
+    return [c, 0, 0, 0, offset, 0, c, 0, 0, offset, 0, 0, c, 0, offset, 0, 0, 0, 1, 0];
+};
+
+// Draws the file on a canvas and runs a pixel transform over the whole frame
+const transformPixels = async (file: File, transform: (imageData: ImageData) => void): Promise<string> => {
+    const image = await loadImage(file);
+    const { canvas, ctx } = createCanvas(image.naturalWidth, image.naturalHeight);
+    ctx.drawImage(image, 0, 0);
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    transform(imageData);
+    ctx.putImageData(imageData, 0, 0);
+    return canvas.toDataURL('image/png');
+};
+
+/**
+ * Creates an offline image provider that imitates the AI operations with deterministic
+ * canvas transformations. The same input and prompt always yield the same output, which
+ * makes it suitable for development and testing without network access or API quota.
+ * @returns An ImageProvider that never leaves the browser.
+ */
+export const createMockProvider = (): ImageProvider => ({
+    name: 'mock',
+    model: 'mock-canvas',
+
+    async editImage(originalImage: File, userPrompt: string, mask: File) {
+        console.log(`[mock] Masked edit: ${userPrompt}`);
+        const image = await loadImage(originalImage);
+        const maskImage = await loadImage(mask);
+        const { canvas, ctx } = createCanvas(image.naturalWidth, image.naturalHeight);
+
+        // Build a tint layer in a prompt-derived color whose alpha follows the mask's brightness
+        const hue = hashString(userPrompt) % 360;
+        const { canvas: tint, ctx: tintCtx } = createCanvas(canvas.width, canvas.height);
+        tintCtx.fillStyle = `hsl(${hue}, 80%, 50%)`;
+        tintCtx.fillRect(0, 0, 1, 1);
+        const [r, g, b] = tintCtx.getImageData(0, 0, 1, 1).data;
+        tintCtx.drawImage(maskImage, 0, 0, canvas.width, canvas.height);
+        const tintData = tintCtx.getImageData(0, 0, canvas.width, canvas.height);
+        for (let i = 0; i < tintData.data.length; i += 4) {
+            tintData.data[i + 3] = tintData.data[i];
+            tintData.data[i] = r;
+            tintData.data[i + 1] = g;
+            tintData.data[i + 2] = b;
+        }
+        tintCtx.putImageData(tintData, 0, 0);
+
+        ctx.drawImage(image, 0, 0);
+        ctx.globalCompositeOperation = 'color';
+        ctx.globalAlpha = 0.6;
+        ctx.drawImage(tint, 0, 0);
+        return canvas.toDataURL('image/png');
+    },
+
+    async filterImage(originalImage: File, filterPrompt: string) {
+        console.log(`[mock] Filter: ${filterPrompt}`);
+        const look = MOCK_LOOKS[hashString(filterPrompt) % MOCK_LOOKS.length];
+        return transformPixels(originalImage, imageData => applyColorMatrix(imageData, look));
+    },
+
+    async adjustImage(originalImage: File, adjustmentPrompt: string) {
+        console.log(`[mock] Adjustment: ${adjustmentPrompt}`);
+        const hash = hashString(adjustmentPrompt);
+        const brightness = (hash % 41) - 20;
+        const contrast = ((hash >>> 8) % 41) - 20;
+        return transformPixels(originalImage, imageData => applyColorMatrix(imageData, brightnessContrastMatrix(brightness, contrast)));
+    },
+
+    async autoEnhanceImage(originalImage: File) {
+        console.log('[mock] Auto-enhance');
+        return transformPixels(originalImage, imageData => {
+            // Stretch each channel so its darkest and brightest values span the full range
+            const data = imageData.data;
+            const min = [255, 255, 255];
+            const max = [0, 0, 0];
+            for (let i = 0; i < data.length; i += 4) {
+                for (let c = 0; c < 3; c++) {
+                    if (data[i + c] < min[c]) min[c] = data[i + c];
+                    if (data[i + c] > max[c]) max[c] = data[i + c];
+                }
+            }
+            for (let i = 0; i < data.length; i += 4) {
+                for (let c = 0; c < 3; c++) {
+                    const range = max[c] - min[c];
+                    if (range > 0) data[i + c] = ((data[i + c] - min[c]) * 255) / range;
+                }
+            }
+        });
+    },
+
+    async expandImage(originalImage: File, newWidth: number, newHeight: number, userPrompt: string, offset: ExpandOffset) {
+        console.log(`[mock] Expand to ${newWidth}x${newHeight} at ${offset.x},${offset.y}: ${userPrompt}`);
+        const image = await loadImage(originalImage);
+        const { canvas, ctx } = createCanvas(newWidth, newHeight);
+
+        // Fill the new area with a stretched, darkened copy of the image, then place the original at the offset
+        ctx.drawImage(image, 0, 0, newWidth, newHeight);
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.35)';
+        ctx.fillRect(0, 0, newWidth, newHeight);
+        ctx.drawImage(image, offset.x, offset.y);
+        return canvas.toDataURL('image/png');
+    },
+
+    async upscaleImage(originalImage: File, scaleFactor: number) {
+        console.log(`[mock] Upscale by ${scaleFactor}x`);
+        const image = await loadImage(originalImage);
+        const { canvas, ctx } = createCanvas(image.naturalWidth * scaleFactor, image.naturalHeight * scaleFactor);
+        ctx.imageSmoothingQuality = 'high';
+        ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+        return canvas.toDataURL('image/png');
+    },
+
+    async composeImages(baseImage: File, complementImage: File, userPrompt: string, hotspot: Hotspot | null) {
+        console.log(`[mock] Compose: ${userPrompt}`);
+        const base = await loadImage(baseImage);
+        const complement = await loadImage(complementImage);
+        const { canvas, ctx } = createCanvas(base.naturalWidth, base.naturalHeight);
+        ctx.drawImage(base, 0, 0);
+
+        // Place the complement at a third of the base width, centered on the hotspot (or the middle)
+        const width = canvas.width / 3;
+        const height = width * (complement.naturalHeight / complement.naturalWidth);
+        const center = hotspot ?? { x: canvas.width / 2, y: canvas.height / 2 };
+        ctx.drawImage(complement, center.x - width / 2, center.y - height / 2, width, height);
+        return canvas.toDataURL('image/png');
+    },
+
+    async segmentSubject(originalImage: File) {
+        console.log('[mock] Segment subject');
+        // Everything that differs clearly from the average border color counts as subject
+        return transformPixels(originalImage, (imageData) => {
+            const { width, height, data } = imageData;
+            const border = [0, 0, 0];
+            let count = 0;
+            for (let x = 0; x < width; x++) {
+                for (const y of [0, height - 1]) {
+                    const i = (y * width + x) * 4;
+                    border[0] += data[i]; border[1] += data[i + 1]; border[2] += data[i + 2];
+                    count++;
+                }
+            }
+            for (let y = 0; y < height; y++) {
+                for (const x of [0, width - 1]) {
+                    const i = (y * width + x) * 4;
+                    border[0] += data[i]; border[1] += data[i + 1]; border[2] += data[i + 2];
+                    count++;
+                }
+            }
+            const [r, g, b] = border.map(sum => sum / count);
+            for (let i = 0; i < data.length; i += 4) {
+                const distance = Math.hypot(data[i] - r, data[i + 1] - g, data[i + 2] - b);
+                const value = distance > 60 ? 255 : 0;
+                data[i] = value;
+                data[i + 1] = value;
+                data[i + 2] = value;
+                data[i + 3] = 255;
+            }
+        });
+    },
+});
@@ -0,0 +1,263 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Tone and color adjustments on raw RGBA pixels. Shared by the live preview and the image worker,
+// which applies them at full resolution.
+
+import type { ColorRange, CurvePoint, CurveSet, PixelAdjustment } from '../types';
+
+// Named tone curves offered in the Curves tool
+export const CURVE_PRESETS: { name: string, points: CurvePoint[] }[] = [
+    { name: 'Increase Contrast (S-Curve)', points: [{ x: 0, y: 0 }, { x: 64, y: 44 }, { x: 192, y: 212 }, { x: 255, y: 255 }] },
+    { name: 'Decrease Contrast (Inverted S-Curve)', points: [{ x: 0, y: 0 }, { x: 64, y: 84 }, { x: 192, y: 172 }, { x: 255, y: 255 }] },
+    { name: 'Lighten Shadows', points: [{ x: 0, y: 0 }, { x: 48, y: 80 }, { x: 128, y: 150 }, { x: 255, y: 255 }] },
+    { name: 'Darken Highlights', points: [{ x: 0, y: 0 }, { x: 128, y: 120 }, { x: 208, y: 180 }, { x: 255, y: 235 }] },
+    { name: 'Vintage Fade', points: [{ x: 0, y: 36 }, { x: 64, y: 72 }, { x: 192, y: 196 }, { x: 255, y: 232 }] },
+];
+
+// A straight diagonal curve that leaves values unchanged
+export const IDENTITY_CURVE: CurvePoint[] = [{ x: 0, y: 0 }, { x: 255, y: 255 }];
+
+/**
+ * Creates a curve set where every channel is the identity curve.
+ * @returns A fresh, unmodified curve set.
+ */
+export const createIdentityCurveSet = (): CurveSet => ({
+    rgb: [...IDENTITY_CURVE],
+    red: [...IDENTITY_CURVE],
+    green: [...IDENTITY_CURVE],
+    blue: [...IDENTITY_CURVE],
+});
+
+// Hue (in degrees) at the center of each selective color range
+const COLOR_RANGE_HUES: Record<ColorRange, number> = {
+    reds: 0,
+    yellows: 60,
+    greens: 120,
+    cyans: 180,
+    blues: 240,
+    magentas: 300,
+};
+
+const clamp = (value: number, min: number, max: number): number => value < min ? min : value > max ? max : value;
+
+/**
+ * Builds a 256-entry lookup table from curve control points using monotone cubic
+ * interpolation, so the curve never overshoots between points.
+ * @param points Control points in the 0-255 range, in any order.
+ * @returns The lookup table mapping input to output values.
+ */
+export const buildCurveLut = (points: CurvePoint[]): Uint8Array => {
+    const lut = new Uint8Array(256);
+    const sorted = [...points].sort((a, b) => a.x - b.x).filter((p, i, arr) => i === 0 || p.x !== arr[i - 1].x);
+    if (sorted.length === 0) {
+        for (let i = 0; i < 256; i++) lut[i] = i;
+        return lut;
+    }
+    if (sorted.length === 1) {
+        lut.fill(clamp(Math.round(sorted[0].y), 0, 255));
+        return lut;
+    }
+
+    const n = sorted.length;
+    const xs = sorted.map(p => p.x);
+    const ys = sorted.map(p => p.y);
+
+    // Secant slopes, then tangents adjusted with the Fritsch-Carlson method
+    const deltas: number[] = [];
+    for (let i = 0; i < n - 1; i++) deltas.push((ys[i + 1] - ys[i]) / (xs[i + 1] - xs[i]));
+    const tangents: number[] = [deltas[0]];
+    for (let i = 1; i < n - 1; i++) {
+        tangents.push(deltas[i - 1] * deltas[i] <= 0 ? 0 : (deltas[i - 1] + deltas[i]) / 2);
+    }
+    tangents.push(deltas[n - 2]);
+    for (let i = 0; i < n - 1; i++) {
+        if (deltas[i] === 0) {
+            tangents[i] = 0;
+            tangents[i + 1] = 0;
+            continue;
+        }
+        const a = tangents[i] / deltas[i];
+        const b = tangents[i + 1] / deltas[i];
+        const s = a * a + b * b;
+        if (s > 9) {
+            const t = 3 / Math.sqrt(s);
+            tangents[i] = t * a * deltas[i];
+            tangents[i + 1] = t * b * deltas[i];
+        }
+    }
+
+    let segment = 0;
+    for (let x = 0; x < 256; x++) {
+        let y: number;
+        if (x <= xs[0]) {
+            y = ys[0];
+        } else if (x >= xs[n - 1]) {
+            y = ys[n - 1];
+        } else {
+            while (x > xs[segment + 1]) segment++;
+            const h = xs[segment + 1] - xs[segment];
+            const t = (x - xs[segment]) / h;
+            const t2 = t * t;
+            const t3 = t2 * t;
+            y = (2 * t3 - 3 * t2 + 1) * ys[segment]
+                + (t3 - 2 * t2 + t) * h * tangents[segment]
+                + (-2 * t3 + 3 * t2) * ys[segment + 1]
+                + (t3 - t2) * h * tangents[segment + 1];
+        }
+        lut[x] = clamp(Math.round(y), 0, 255);
+    }
+    return lut;
+};
+
+// Brightness shifts values linearly; contrast scales them around mid-grey.
+const buildBrightnessContrastLut = (brightness: number, contrast: number): Uint8Array => {
+    const lut = new Uint8Array(256);
+    const c = clamp(contrast, -100, 100) * 2.55;
+    const factor = (259 * (c + 255)) / (255 * (259 - c));
+    const offset = clamp(brightness, -100, 100) * 1.275;
+    for (let i = 0; i < 256; i++) {
+        lut[i] = clamp(Math.round(factor * (i - 128) + 128 + offset), 0, 255);
+    }
+    return lut;
+};
+
+// Classic levels: remap the input range, apply gamma, then compress into the output range.
+const buildLevelsLut = (inputBlack: number, inputWhite: number, gamma: number, outputBlack: number, outputWhite: number): Uint8Array => {
+    const lut = new Uint8Array(256);
+    const inRange = Math.max(1, inputWhite - inputBlack);
+    const invGamma = 1 / Math.max(0.01, gamma);
+    for (let i = 0; i < 256; i++) {
+        const normalized = clamp((i - inputBlack) / inRange, 0, 1);
+        const corrected = Math.pow(normalized, invGamma);
+        lut[i] = clamp(Math.round(outputBlack + corrected * (outputWhite - outputBlack)), 0, 255);
+    }
+    return lut;
+};
+
+const applyLut = (imageData: ImageData, lut: Uint8Array): void => {
+    applyChannelLuts(imageData, lut, lut, lut);
+};
+
+const applyChannelLuts = (imageData: ImageData, red: Uint8Array, green: Uint8Array, blue: Uint8Array): void => {
+    const data = imageData.data;
+    for (let i = 0; i < data.length; i += 4) {
+        data[i] = red[data[i]];
+        data[i + 1] = green[data[i + 1]];
+        data[i + 2] = blue[data[i + 2]];
+    }
+};
+
+/**
+ * Builds one lookup table per channel for a curve set. Each channel curve is applied
+ * first and the composite RGB curve on top, as in most photo editors.
+ * @param curves The curve set to bake.
+ * @returns Lookup tables for the red, green and blue channels.
+ */
+export const buildCurveSetLuts = (curves: CurveSet): { red: Uint8Array, green: Uint8Array, blue: Uint8Array } => {
+    const master = buildCurveLut(curves.rgb);
+    const compose = (points: CurvePoint[]): Uint8Array => {
+        const channel = buildCurveLut(points);
+        return channel.map(value => master[value]);
+    };
+    return { red: compose(curves.red), green: compose(curves.green), blue: compose(curves.blue) };
+};
+
+// How strongly a hue (0-360) belongs to a range: fully within ±15°, fading out by ±45°.
+const rangeWeight = (hue: number, range: ColorRange): number => {
+    const distance = Math.abs(((hue - COLOR_RANGE_HUES[range] + 540) % 360) - 180);
+    if (distance <= 15) return 1;
+    if (distance >= 45) return 0;
+    return (45 - distance) / 30;
+};
+
+const hueToRgb = (p: number, q: number, t: number): number => {
+    if (t < 0) t += 1;
+    if (t > 1) t -= 1;
+    if (t < 1 / 6) return p + (q - p) * 6 * t;
+    if (t < 1 / 2) return q;
+    if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
+    return p;
+};
+
+const applySelectiveColor = (imageData: ImageData, range: ColorRange, hueShift: number, saturation: number, lightness: number): void => {
+    const data = imageData.data;
+    for (let i = 0; i < data.length; i += 4) {
+        const r = data[i] / 255, g = data[i + 1] / 255, b = data[i + 2] / 255;
+        const max = Math.max(r, g, b), min = Math.min(r, g, b);
+        const delta = max - min;
+        if (delta === 0) continue; // Greys have no hue to select
+
+        let l = (max + min) / 2;
+        let s = delta / (1 - Math.abs(2 * l - 1));
+        let h: number;
+        if (max === r) h = ((g - b) / delta) % 6;
+        else if (max === g) h = (b - r) / delta + 2;
+        else h = (r - g) / delta + 4;
+        h = (h * 60 + 360) % 360;
+
+        // Weakly saturated pixels are only partially affected
+        const weight = rangeWeight(h, range) * Math.min(1, s / 0.2);
+        if (weight === 0) continue;
+
+        h = (h + hueShift * weight + 360) % 360;
+        const sk = (saturation / 100) * weight;
+        s = clamp(sk > 0 ? s + (1 - s) * sk : s * (1 + sk), 0, 1);
+        const lk = (lightness / 100) * weight;
+        l = clamp(lk > 0 ? l + (1 - l) * lk : l * (1 + lk), 0, 1);
+
+        const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+        const p = 2 * l - q;
+        const hn = h / 360;
+        data[i] = Math.round(hueToRgb(p, q, hn + 1 / 3) * 255);
+        data[i + 1] = Math.round(hueToRgb(p, q, hn) * 255);
+        data[i + 2] = Math.round(hueToRgb(p, q, hn - 1 / 3) * 255);
+    }
+};
+
+/**
+ * Applies a numeric adjustment to pixel data in place.
+ * @param imageData The pixels to modify.
+ * @param adjustment The adjustment to apply.
+ */
+export const applyAdjustment = (imageData: ImageData, adjustment: PixelAdjustment): void => {
+    switch (adjustment.type) {
+        case 'brightness-contrast':
+            applyLut(imageData, buildBrightnessContrastLut(adjustment.brightness, adjustment.contrast));
+            break;
+        case 'levels':
+            applyLut(imageData, buildLevelsLut(adjustment.inputBlack, adjustment.inputWhite, adjustment.gamma, adjustment.outputBlack, adjustment.outputWhite));
+            break;
+        case 'curves': {
+            const { red, green, blue } = buildCurveSetLuts(adjustment.curves);
+            applyChannelLuts(imageData, red, green, blue);
+            break;
+        }
+        case 'selective-color':
+            applySelectiveColor(imageData, adjustment.range, adjustment.hue, adjustment.saturation, adjustment.lightness);
+            break;
+    }
+};
+
+/**
+ * Checks whether an adjustment would leave every pixel unchanged.
+ * @param adjustment The adjustment to check.
+ * @returns True if applying the adjustment is a no-op.
+ */
+export const isIdentityAdjustment = (adjustment: PixelAdjustment): boolean => {
+    switch (adjustment.type) {
+        case 'brightness-contrast':
+            return adjustment.brightness === 0 && adjustment.contrast === 0;
+        case 'levels':
+            return adjustment.inputBlack === 0 && adjustment.inputWhite === 255 && adjustment.gamma === 1
+                && adjustment.outputBlack === 0 && adjustment.outputWhite === 255;
+        case 'curves': {
+            const { red, green, blue } = buildCurveSetLuts(adjustment.curves);
+            return [red, green, blue].every(lut => lut.every((value, index) => value === index));
+        }
+        case 'selective-color':
+            return adjustment.hue === 0 && adjustment.saturation === 0 && adjustment.lightness === 0;
+    }
+};
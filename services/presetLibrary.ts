@@ -0,0 +1,110 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Preset, PresetKind } from '../types';
+
+const STORAGE_KEY = 'pixshop.presets';
+const EXPORT_FORMAT = 'pixshop-presets';
+const EXPORT_VERSION = 1;
+
+// Presets saved without a category are grouped under this name
+export const DEFAULT_CATEGORY = 'General';
+
+/**
+ * Reads the user's presets from local storage.
+ * @returns The presets, oldest first. Unreadable data yields an empty list.
+ */
+export const loadPresets = (): Preset[] => {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        if (!raw) return [];
+        const parsed = JSON.parse(raw);
+        return Array.isArray(parsed) ? parsed : [];
+    } catch (err) {
+        console.error('Failed to read presets.', err);
+        return [];
+    }
+};
+
+const writePresets = (presets: Preset[]): void => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+};
+
+/**
+ * Saves a preset. A preset of the same kind and name is overwritten.
+ * @param preset The preset to save, without an id.
+ * @returns The updated list of presets.
+ */
+export const savePreset = (preset: Omit<Preset, 'id'>): Preset[] => {
+    const existing = loadPresets();
+    const match = existing.find(p => p.kind === preset.kind && p.name === preset.name);
+    const entry: Preset = { ...preset, id: match?.id ?? `preset-${Date.now()}-${Math.random().toString(36).slice(2, 8)}` };
+    const updated = match
+        ? existing.map(p => (p.id === match.id ? entry : p))
+        : [...existing, entry];
+    writePresets(updated);
+    return updated;
+};
+
+/**
+ * Removes a preset.
+ * @param id The id of the preset to remove.
+ * @returns The updated list of presets.
+ */
+export const deletePreset = (id: string): Preset[] => {
+    const updated = loadPresets().filter(p => p.id !== id);
+    writePresets(updated);
+    return updated;
+};
+
+/**
+ * Serializes presets into a JSON preset pack that can be shared and imported elsewhere.
+ * @param presets The presets to export.
+ * @returns The JSON file contents.
+ */
+export const exportPresets = (presets: Preset[]): Blob => {
+    const payload = { format: EXPORT_FORMAT, version: EXPORT_VERSION, presets: presets.map(({ id, ...preset }) => preset) };
+    return new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' });
+};
+
+const isPresetKind = (value: unknown): value is PresetKind => value === 'filter' || value === 'adjustment';
+
+/**
+ * Reads a preset pack and saves its presets. Presets with the same kind and name as an
+ * existing one replace it.
+ * @param file The JSON preset pack.
+ * @returns A promise that resolves to the updated list of presets and how many were imported.
+ */
+export const importPresets = async (file: File): Promise<{ presets: Preset[], count: number }> => {
+    let payload: { format?: unknown, version?: unknown, presets?: unknown };
+    try {
+        payload = JSON.parse(await file.text());
+    } catch {
+        throw new Error(`"${file.name}" is not valid JSON.`);
+    }
+    if (payload.format !== EXPORT_FORMAT || !Array.isArray(payload.presets)) {
+        throw new Error(`"${file.name}" is not a Pixshop preset pack.`);
+    }
+    if (typeof payload.version === 'number' && payload.version > EXPORT_VERSION) {
+        throw new Error(`"${file.name}" was saved by a newer version of Pixshop (format ${payload.version}).`);
+    }
+
+    const imported = payload.presets.map((preset: Record<string, unknown>, index: number): Omit<Preset, 'id'> => {
+        if (!isPresetKind(preset?.kind) || typeof preset.name !== 'string' || typeof preset.prompt !== 'string' || !preset.prompt.trim()) {
+            throw new Error(`Preset ${index + 1} in "${file.name}" is malformed.`);
+        }
+        return {
+            kind: preset.kind,
+            name: preset.name,
+            prompt: preset.prompt,
+            category: typeof preset.category === 'string' && preset.category.trim() ? preset.category : DEFAULT_CATEGORY,
+            thumbnail: typeof preset.thumbnail === 'string' && preset.thumbnail.startsWith('data:image/') ? preset.thumbnail : null,
+        };
+    });
+
+    let presets = loadPresets();
+    imported.forEach(preset => { presets = savePreset(preset); });
+    return { presets, count: imported.length };
+};
@@ -0,0 +1,141 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import JSZip from 'jszip';
+import type { HistoryEntry, ImageMetadata, Tab } from '../types';
+import { TABS, type StoredSession } from './sessionStore';
+import { linkLinearHistory } from './history';
+
+export const PROJECT_EXTENSION = '.pixshop';
+const MANIFEST_FILE = 'manifest.json';
+// Version 1 kept each image's history as a list with a historyIndex; version 2 links the versions into a tree
+const FORMAT_VERSION = 2;
+
+// The workspace a project file carries; the same shape as a stored session, minus its id
+export type ProjectContents = Omit<StoredSession, 'id'>;
+
+// One version of an image with its operation metadata, pointing at its file inside the archive
+interface ManifestHistoryEntry extends Omit<HistoryEntry, 'file'> {
+    path: string;
+    name: string;
+    mimeType: string;
+    lastModified: number;
+}
+
+interface ManifestImage {
+    id: string;
+    name: string;
+    currentEntryId: string;
+    headEntryId: string;
+    // Only in version 1 projects, whose entries have no parentId
+    historyIndex?: number;
+    history: ManifestHistoryEntry[];
+    metadata?: ImageMetadata | null;
+}
+
+// Describes the archive layout; written as manifest.json at the root of the zip
+interface ProjectManifest {
+    format: 'pixshop-project';
+    version: number;
+    createdAt: string;
+    currentImageIndex: number;
+    activeTab: Tab;
+    images: ManifestImage[];
+}
+
+const extensionFor = (file: File): string => {
+    const fromName = file.name.match(/\.([a-z0-9]+)$/i)?.[1];
+    if (fromName) return fromName.toLowerCase();
+    return file.type.split('/')[1] || 'bin';
+};
+
+/**
+ * Packs every image with its full history into a single zip archive.
+ * @param contents The workspace to save.
+ * @param onProgress Called with a 0-1 fraction while the archive is compressed.
+ * @returns A promise that resolves to the archive.
+ */
+export const exportProject = async (contents: ProjectContents, onProgress?: (fraction: number) => void): Promise<Blob> => {
+    const zip = new JSZip();
+    const images: ManifestImage[] = contents.images.map((image, imageIndex) => ({
+        id: image.id,
+        name: image.name,
+        currentEntryId: image.currentEntryId,
+        headEntryId: image.headEntryId,
+        metadata: image.metadata,
+        history: image.history.map(({ file, ...entry }, step) => {
+            const path = `images/${imageIndex}/${step}.${extensionFor(file)}`;
+            zip.file(path, file);
+            return { ...entry, path, name: file.name, mimeType: file.type, lastModified: file.lastModified };
+        }),
+    }));
+
+    const manifest: ProjectManifest = {
+        format: 'pixshop-project',
+        version: FORMAT_VERSION,
+        createdAt: new Date().toISOString(),
+        currentImageIndex: contents.currentImageIndex,
+        activeTab: contents.activeTab,
+        images,
+    };
+    zip.file(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+
+    return zip.generateAsync({ type: 'blob' }, metadata => onProgress?.(metadata.percent / 100));
+};
+
+/**
+ * Reads a project archive back into a workspace.
+ * @param file The .pixshop file.
+ * @returns A promise that resolves to the workspace stored in the archive.
+ */
+export const importProject = async (file: File): Promise<ProjectContents> => {
+    let zip: JSZip;
+    try {
+        zip = await JSZip.loadAsync(file);
+    } catch {
+        throw new Error(`"${file.name}" is not a valid Pixshop project.`);
+    }
+
+    const manifestFile = zip.file(MANIFEST_FILE);
+    if (!manifestFile) throw new Error(`"${file.name}" is missing its project manifest.`);
+
+    const manifest = JSON.parse(await manifestFile.async('string')) as ProjectManifest;
+    if (manifest.format !== 'pixshop-project') throw new Error(`"${file.name}" is not a Pixshop project.`);
+    if (manifest.version > FORMAT_VERSION) {
+        throw new Error(`"${file.name}" was saved by a newer version of Pixshop (format ${manifest.version}).`);
+    }
+    if (!Array.isArray(manifest.images) || manifest.images.length === 0) {
+        throw new Error(`"${file.name}" does not contain any images.`);
+    }
+
+    const images = await Promise.all(manifest.images.map(async image => {
+        const history = await Promise.all(image.history.map(async ({ path, name, mimeType, lastModified, ...entry }): Promise<HistoryEntry> => {
+            const entryFile = zip.file(path);
+            if (!entryFile) throw new Error(`The project is missing "${path}".`);
+            const blob = await entryFile.async('blob');
+            return { ...entry, file: new File([blob], name, { type: mimeType, lastModified }) };
+        }));
+        if (history.length === 0) throw new Error(`"${image.name}" has no saved versions.`);
+        if (manifest.version < 2) {
+            return { id: image.id, name: image.name, ...linkLinearHistory({ history, historyIndex: image.historyIndex ?? history.length - 1 }), metadata: null };
+        }
+        // Fall back to the original and the newest version if the pointers don't resolve
+        const hasEntry = (id: string) => history.some(entry => entry.id === id);
+        return {
+            id: image.id,
+            name: image.name,
+            history,
+            currentEntryId: hasEntry(image.currentEntryId) ? image.currentEntryId : history[0].id,
+            headEntryId: hasEntry(image.headEntryId) ? image.headEntryId : history[history.length - 1].id,
+            metadata: image.metadata && typeof image.metadata === 'object' ? image.metadata : null,
+        };
+    }));
+
+    return {
+        images,
+        currentImageIndex: Number.isInteger(manifest.currentImageIndex) ? Math.min(Math.max(0, manifest.currentImageIndex), images.length - 1) : 0,
+        activeTab: TABS.includes(manifest.activeTab) ? manifest.activeTab : 'retouch',
+    };
+};
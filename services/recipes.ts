@@ -0,0 +1,254 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { HistoryTree } from './history';
+import { describeEntry, getPathTo } from './history';
+import { generateFilteredImage, generateAdjustedImage, generateAutoEnhancedImage, generateExpandedImage, generateUpscaledImage } from './geminiService';
+import { applyPixelAdjustment, applyTransform, cropImage, getImageDimensions, resizeImage } from './imageUtils';
+import { describeTransform, isImageTransform } from './transform';
+import { getCenteredCrop } from './crop';
+import { isResampleMethod, resampleImage } from './resample';
+import { describeAnchor, getAnchorOffset, isExpandAnchor } from './expand';
+import type { PixelAdjustment, Recipe, RecipeStep } from '../types';
+
+const STORAGE_KEY = 'pixshop.recipes';
+const EXPORT_FORMAT = 'pixshop-recipes';
+const EXPORT_VERSION = 1;
+
+const AI_STEPS: RecipeStep['type'][] = ['filter', 'adjustment', 'auto-enhance', 'expand', 'upscale'];
+
+/**
+ * Reads the user's recipes from local storage.
+ * @returns The recipes, oldest first. Unreadable data yields an empty list.
+ */
+export const loadRecipes = (): Recipe[] => {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        if (!raw) return [];
+        const parsed = JSON.parse(raw);
+        return Array.isArray(parsed) ? parsed : [];
+    } catch (err) {
+        console.error('Failed to read recipes.', err);
+        return [];
+    }
+};
+
+const writeRecipes = (recipes: Recipe[]): void => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(recipes));
+};
+
+/**
+ * Saves a recipe, replacing the stored one with the same id.
+ * @param recipe The recipe to save.
+ * @returns The updated list of recipes.
+ */
+export const saveRecipe = (recipe: Recipe): Recipe[] => {
+    const existing = loadRecipes();
+    const updated = existing.some(r => r.id === recipe.id)
+        ? existing.map(r => (r.id === recipe.id ? recipe : r))
+        : [...existing, recipe];
+    writeRecipes(updated);
+    return updated;
+};
+
+/**
+ * Removes a recipe.
+ * @param id The id of the recipe to remove.
+ * @returns The updated list of recipes.
+ */
+export const deleteRecipe = (id: string): Recipe[] => {
+    const updated = loadRecipes().filter(r => r.id !== id);
+    writeRecipes(updated);
+    return updated;
+};
+
+export const createRecipeId = (): string => `recipe-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Turns the path from the original to the current version into recipe steps.
+ * Operations that depend on something only that image had, such as a painted mask
+ * or a second image to compose, can't be replayed and are left out.
+ * @param image The image whose history to record.
+ * @returns The steps, and the titles of the history entries that were left out.
+ */
+export const recordStepsFromHistory = (image: HistoryTree): { steps: RecipeStep[], skipped: string[] } => {
+    const steps: RecipeStep[] = [];
+    const skipped: string[] = [];
+
+    for (const entry of getPathTo(image, image.currentEntryId)) {
+        const { type, prompt, params = {} } = entry.operation;
+        const num = (key: string) => typeof params[key] === 'number' ? params[key] as number : NaN;
+
+        if (type === 'upload') continue;
+        if ((type === 'filter' || type === 'adjustment') && prompt) {
+            steps.push({ type, prompt });
+        } else if (type === 'retouch' && prompt && params.feather === undefined) {
+            // Retouches applied to a whole batch carry no mask and run as a global adjustment
+            steps.push({ type: 'adjustment', prompt });
+        } else if (type === 'auto-enhance') {
+            steps.push({ type: 'auto-enhance' });
+        } else if (type === 'pixel-adjustment' && typeof params.type === 'string') {
+            steps.push({ type: 'pixel-adjustment', adjustment: params as unknown as PixelAdjustment });
+        } else if (type === 'crop' && num('width') > 0 && num('height') > 0) {
+            steps.push({ type: 'crop', aspect: num('width') / num('height') });
+        } else if (type === 'transform' && isImageTransform(params)) {
+            steps.push({ type: 'transform', transform: params });
+        } else if (type === 'resize' && num('width') > 0 && num('height') > 0) {
+            steps.push({ type: 'resize', width: num('width'), height: num('height'), ...(isResampleMethod(params.method) && { method: params.method }) });
+        } else if (type === 'expand' && num('width') > 0 && num('height') > 0) {
+            steps.push({ type: 'expand', width: num('width'), height: num('height'), prompt: prompt ?? '', ...(isExpandAnchor(params.anchor) && { anchor: params.anchor }) });
+        } else if (type === 'upscale' && num('scaleFactor') > 0) {
+            steps.push({ type: 'upscale', scaleFactor: num('scaleFactor') });
+        } else if (type === 'recipe' && Array.isArray(params.steps)) {
+            steps.push(...params.steps as RecipeStep[]);
+        } else {
+            skipped.push(describeEntry(entry));
+        }
+    }
+    return { steps, skipped };
+};
+
+/**
+ * Formats an aspect ratio as a short W:H string, e.g. 1.5 becomes "3:2".
+ * @param aspect Width divided by height.
+ * @returns The ratio, or the decimal value when no small ratio matches.
+ */
+export const formatAspect = (aspect: number): string => {
+    for (let h = 1; h <= 20; h++) {
+        const w = Math.round(aspect * h);
+        if (w > 0 && Math.abs(w / h - aspect) < 0.005) return `${w}:${h}`;
+    }
+    return aspect.toFixed(3);
+};
+
+/**
+ * Returns a one-line description of a recipe step for lists and editors.
+ * @param step The step.
+ * @returns The description.
+ */
+export const describeRecipeStep = (step: RecipeStep): string => {
+    switch (step.type) {
+        case 'filter': return `Filter: "${step.prompt}"`;
+        case 'adjustment': return `Adjustment: "${step.prompt}"`;
+        case 'auto-enhance': return 'Auto-Enhance';
+        case 'pixel-adjustment': return step.adjustment.type.split('-').map(word => word[0].toUpperCase() + word.slice(1)).join(' ');
+        case 'crop': return `Center crop to ${formatAspect(step.aspect)}`;
+        case 'transform': return describeTransform(step.transform);
+        case 'resize': return `Resize to ${step.width}×${step.height}${step.method ? ` (${step.method})` : ''}`;
+        case 'expand': return `Magic Expand to ${step.width}×${step.height}${step.anchor && step.anchor !== 'center' ? `, anchored ${describeAnchor(step.anchor)}` : ''}`;
+        case 'upscale': return `Upscale ${step.scaleFactor}x`;
+    }
+};
+
+/**
+ * Reports whether any step of a recipe calls the AI model.
+ * @param steps The recipe steps.
+ * @returns True when at least one step uses the model.
+ */
+export const recipeUsesModel = (steps: RecipeStep[]): boolean => steps.some(step => AI_STEPS.includes(step.type));
+
+const runStep = async (file: File, step: RecipeStep): Promise<string> => {
+    switch (step.type) {
+        case 'filter': return generateFilteredImage(file, step.prompt);
+        case 'adjustment': return generateAdjustedImage(file, step.prompt);
+        case 'auto-enhance': return generateAutoEnhancedImage(file);
+        case 'pixel-adjustment': return applyPixelAdjustment(file, step.adjustment);
+        case 'crop': {
+            // The largest centered rectangle of the wanted aspect ratio
+            const { width, height } = await getImageDimensions(file);
+            return cropImage(file, getCenteredCrop(step.aspect, width, height));
+        }
+        case 'transform': return applyTransform(file, step.transform);
+        case 'resize': return step.method ? resampleImage(file, step.width, step.height, step.method) : resizeImage(file, step.width, step.height);
+        case 'expand': {
+            const { width, height } = await getImageDimensions(file);
+            const offset = getAnchorOffset(step.anchor ?? 'center', width, height, step.width, step.height);
+            return generateExpandedImage(file, step.width, step.height, step.prompt, offset);
+        }
+        case 'upscale': return generateUpscaledImage(file, step.scaleFactor);
+    }
+};
+
+/**
+ * Replays recipe steps on an image, feeding each result into the next step.
+ * @param file The image to start from.
+ * @param steps The steps to run, in order.
+ * @param onStep Called before each step starts, with its zero-based index.
+ * @returns A promise that resolves to the data URL of the final image.
+ */
+export const runRecipe = async (file: File, steps: RecipeStep[], onStep?: (index: number) => void): Promise<string> => {
+    if (steps.length === 0) throw new Error('The recipe has no steps.');
+    let current = file;
+    let resultUrl = '';
+    for (let i = 0; i < steps.length; i++) {
+        onStep?.(i);
+        try {
+            resultUrl = await runStep(current, steps[i]);
+        } catch (err) {
+            const message = err instanceof Error ? err.message : String(err);
+            throw new Error(`Step ${i + 1} (${describeRecipeStep(steps[i])}) failed. ${message}`);
+        }
+        const blob = await (await fetch(resultUrl)).blob();
+        current = new File([blob], `recipe-step-${i + 1}.png`, { type: blob.type });
+    }
+    return resultUrl;
+};
+
+const isPositive = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+const isValidStep = (step: unknown): step is RecipeStep => {
+    if (!step || typeof step !== 'object') return false;
+    const s = step as Record<string, unknown>;
+    switch (s.type) {
+        case 'filter':
+        case 'adjustment': return typeof s.prompt === 'string' && s.prompt.trim().length > 0;
+        case 'auto-enhance': return true;
+        case 'pixel-adjustment': return !!s.adjustment && typeof (s.adjustment as Record<string, unknown>).type === 'string';
+        case 'crop': return isPositive(s.aspect);
+        case 'transform': return isImageTransform(s.transform);
+        case 'resize': return isPositive(s.width) && isPositive(s.height) && (s.method === undefined || isResampleMethod(s.method));
+        case 'expand': return isPositive(s.width) && isPositive(s.height) && typeof s.prompt === 'string' && (s.anchor === undefined || isExpandAnchor(s.anchor));
+        case 'upscale': return isPositive(s.scaleFactor);
+        default: return false;
+    }
+};
+
+/**
+ * Serializes recipes into a JSON file that can be shared and imported elsewhere.
+ * @param recipes The recipes to export.
+ * @returns The JSON file contents.
+ */
+export const exportRecipes = (recipes: Recipe[]): Blob => {
+    const payload = { format: EXPORT_FORMAT, version: EXPORT_VERSION, recipes };
+    return new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' });
+};
+
+/**
+ * Reads recipes from an exported JSON file. Imported recipes get fresh ids so they never
+ * overwrite existing ones.
+ * @param file The JSON file.
+ * @returns A promise that resolves to the recipes in the file.
+ */
+export const importRecipes = async (file: File): Promise<Recipe[]> => {
+    let payload: { format?: unknown, version?: unknown, recipes?: unknown };
+    try {
+        payload = JSON.parse(await file.text());
+    } catch {
+        throw new Error(`"${file.name}" is not valid JSON.`);
+    }
+    if (payload.format !== EXPORT_FORMAT || !Array.isArray(payload.recipes)) {
+        throw new Error(`"${file.name}" is not a Pixshop recipe file.`);
+    }
+    if (typeof payload.version === 'number' && payload.version > EXPORT_VERSION) {
+        throw new Error(`"${file.name}" was saved by a newer version of Pixshop (format ${payload.version}).`);
+    }
+
+    return payload.recipes.map((recipe: { name?: unknown, steps?: unknown }, index: number) => {
+        if (typeof recipe?.name !== 'string' || !Array.isArray(recipe.steps) || !recipe.steps.every(isValidStep)) {
+            throw new Error(`Recipe ${index + 1} in "${file.name}" is malformed.`);
+        }
+        return { id: createRecipeId(), name: recipe.name, steps: recipe.steps };
+    });
+};
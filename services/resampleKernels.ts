@@ -0,0 +1,236 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Separable resampling filters on raw RGBA pixels. Runs inside the image worker.
+
+import type { ResampleMethod } from '../types';
+
+interface Kernel {
+    // How far, in source pixels at 1:1 scale, the kernel reaches from its center
+    radius: number;
+    weight: (x: number) => number;
+}
+
+const sinc = (x: number): number => {
+    if (x === 0) return 1;
+    const px = Math.PI * x;
+    return Math.sin(px) / px;
+};
+
+const LANCZOS: Kernel = { radius: 3, weight: x => Math.abs(x) < 3 ? sinc(x) * sinc(x / 3) : 0 };
+
+// Catmull-Rom, the cubic most editors call "bicubic"
+const BICUBIC: Kernel = {
+    radius: 2,
+    weight: (x) => {
+        const t = Math.abs(x);
+        if (t < 1) return 1.5 * t * t * t - 2.5 * t * t + 1;
+        if (t < 2) return -0.5 * t * t * t + 2.5 * t * t - 4 * t + 2;
+        return 0;
+    },
+};
+
+const BILINEAR: Kernel = { radius: 1, weight: x => Math.max(0, 1 - Math.abs(x)) };
+
+// Which source pixels feed each output pixel along one axis, and how much each counts
+interface Contribution {
+    start: number;
+    weights: Float32Array;
+}
+
+const computeContributions = (srcSize: number, dstSize: number, kernel: Kernel): Contribution[] => {
+    const scale = dstSize / srcSize;
+    // When shrinking, the kernel is stretched so every source pixel is averaged in instead of skipped
+    const filterScale = Math.max(1, 1 / scale);
+    const support = kernel.radius * filterScale;
+    const contributions: Contribution[] = [];
+
+    for (let i = 0; i < dstSize; i++) {
+        const center = (i + 0.5) / scale;
+        const start = Math.max(0, Math.floor(center - support));
+        const end = Math.min(srcSize - 1, Math.ceil(center + support));
+        const weights = new Float32Array(end - start + 1);
+        let total = 0;
+        for (let j = start; j <= end; j++) {
+            const w = kernel.weight((j + 0.5 - center) / filterScale);
+            weights[j - start] = w;
+            total += w;
+        }
+        if (total !== 0) {
+            for (let k = 0; k < weights.length; k++) weights[k] /= total;
+        }
+        contributions.push({ start, weights });
+    }
+    return contributions;
+};
+
+// Works on premultiplied floats so transparent pixels don't bleed their color into edges
+const toPremultiplied = (pixels: Uint8ClampedArray): Float32Array => {
+    const out = new Float32Array(pixels.length);
+    for (let i = 0; i < pixels.length; i += 4) {
+        const alpha = pixels[i + 3] / 255;
+        out[i] = pixels[i] * alpha;
+        out[i + 1] = pixels[i + 1] * alpha;
+        out[i + 2] = pixels[i + 2] * alpha;
+        out[i + 3] = pixels[i + 3];
+    }
+    return out;
+};
+
+const fromPremultiplied = (data: Float32Array): Uint8ClampedArray => {
+    const out = new Uint8ClampedArray(data.length);
+    for (let i = 0; i < data.length; i += 4) {
+        const alpha = data[i + 3];
+        const factor = alpha > 0 ? 255 / alpha : 0;
+        out[i] = data[i] * factor;
+        out[i + 1] = data[i + 1] * factor;
+        out[i + 2] = data[i + 2] * factor;
+        out[i + 3] = alpha;
+    }
+    return out;
+};
+
+// Called with how far along a pass is, from 0 to 1
+type PassProgress = (fraction: number) => void;
+
+const resampleHorizontal = (src: Float32Array, width: number, height: number, targetWidth: number, kernel: Kernel, onProgress?: PassProgress): Float32Array => {
+    const contributions = computeContributions(width, targetWidth, kernel);
+    const out = new Float32Array(targetWidth * height * 4);
+    for (let y = 0; y < height; y++) {
+        if (y % 64 === 0) onProgress?.(y / height);
+        const row = y * width * 4;
+        for (let x = 0; x < targetWidth; x++) {
+            const { start, weights } = contributions[x];
+            let r = 0, g = 0, b = 0, a = 0;
+            for (let k = 0; k < weights.length; k++) {
+                const i = row + (start + k) * 4;
+                const w = weights[k];
+                r += src[i] * w;
+                g += src[i + 1] * w;
+                b += src[i + 2] * w;
+                a += src[i + 3] * w;
+            }
+            const o = (y * targetWidth + x) * 4;
+            out[o] = r;
+            out[o + 1] = g;
+            out[o + 2] = b;
+            out[o + 3] = a;
+        }
+    }
+    return out;
+};
+
+const resampleVertical = (src: Float32Array, width: number, height: number, targetHeight: number, kernel: Kernel, onProgress?: PassProgress): Float32Array => {
+    const contributions = computeContributions(height, targetHeight, kernel);
+    const out = new Float32Array(width * targetHeight * 4);
+    for (let y = 0; y < targetHeight; y++) {
+        if (y % 64 === 0) onProgress?.(y / targetHeight);
+        const { start, weights } = contributions[y];
+        for (let x = 0; x < width; x++) {
+            let r = 0, g = 0, b = 0, a = 0;
+            for (let k = 0; k < weights.length; k++) {
+                const i = ((start + k) * width + x) * 4;
+                const w = weights[k];
+                r += src[i] * w;
+                g += src[i + 1] * w;
+                b += src[i + 2] * w;
+                a += src[i + 3] * w;
+            }
+            const o = (y * width + x) * 4;
+            out[o] = r;
+            out[o + 1] = g;
+            out[o + 2] = b;
+            out[o + 3] = a;
+        }
+    }
+    return out;
+};
+
+// Separable filtering: one pass per axis
+const convolve = (src: Float32Array, width: number, height: number, targetWidth: number, targetHeight: number, kernel: Kernel, onProgress?: PassProgress): Float32Array => {
+    const horizontal = targetWidth === width ? src : resampleHorizontal(src, width, height, targetWidth, kernel, f => onProgress?.(f / 2));
+    return targetHeight === height ? horizontal : resampleVertical(horizontal, targetWidth, height, targetHeight, kernel, f => onProgress?.(0.5 + f / 2));
+};
+
+// Averages each 2×2 block, the way repeated halving in a browser canvas does
+const halve = (src: Float32Array, width: number, height: number, halveX: boolean, halveY: boolean): { data: Float32Array, width: number, height: number } => {
+    const newWidth = halveX ? Math.floor(width / 2) : width;
+    const newHeight = halveY ? Math.floor(height / 2) : height;
+    const stepX = halveX ? 2 : 1;
+    const stepY = halveY ? 2 : 1;
+    const count = stepX * stepY;
+    const out = new Float32Array(newWidth * newHeight * 4);
+    for (let y = 0; y < newHeight; y++) {
+        for (let x = 0; x < newWidth; x++) {
+            const o = (y * newWidth + x) * 4;
+            for (let c = 0; c < 4; c++) {
+                let sum = 0;
+                for (let dy = 0; dy < stepY; dy++) {
+                    for (let dx = 0; dx < stepX; dx++) {
+                        sum += src[((y * stepY + dy) * width + x * stepX + dx) * 4 + c];
+                    }
+                }
+                out[o + c] = sum / count;
+            }
+        }
+    }
+    return { data: out, width: newWidth, height: newHeight };
+};
+
+const stepDown = (src: Float32Array, width: number, height: number, targetWidth: number, targetHeight: number, onProgress?: PassProgress): Float32Array => {
+    let current = { data: src, width, height };
+    while (current.width >= targetWidth * 2 || current.height >= targetHeight * 2) {
+        current = halve(current.data, current.width, current.height, current.width >= targetWidth * 2, current.height >= targetHeight * 2);
+    }
+    return convolve(current.data, current.width, current.height, targetWidth, targetHeight, BILINEAR, onProgress);
+};
+
+// Copies pixels as they are, keeping hard edges for pixel art
+const nearest = (pixels: Uint8ClampedArray, width: number, height: number, targetWidth: number, targetHeight: number): Uint8ClampedArray => {
+    const out = new Uint8ClampedArray(targetWidth * targetHeight * 4);
+    const xMap = new Int32Array(targetWidth);
+    for (let x = 0; x < targetWidth; x++) xMap[x] = Math.min(width - 1, Math.floor((x + 0.5) * width / targetWidth));
+    for (let y = 0; y < targetHeight; y++) {
+        const sy = Math.min(height - 1, Math.floor((y + 0.5) * height / targetHeight));
+        for (let x = 0; x < targetWidth; x++) {
+            const i = (sy * width + xMap[x]) * 4;
+            const o = (y * targetWidth + x) * 4;
+            out[o] = pixels[i];
+            out[o + 1] = pixels[i + 1];
+            out[o + 2] = pixels[i + 2];
+            out[o + 3] = pixels[i + 3];
+        }
+    }
+    return out;
+};
+
+/**
+ * Scales RGBA pixels to an exact size.
+ * @param pixels The source pixels, four bytes per pixel.
+ * @param width The source width.
+ * @param height The source height.
+ * @param targetWidth The output width.
+ * @param targetHeight The output height.
+ * @param method The resampling engine to use.
+ * @param onProgress Called with the fraction of the work done.
+ * @returns The scaled pixels.
+ */
+export const resamplePixels = (
+    pixels: Uint8ClampedArray,
+    width: number,
+    height: number,
+    targetWidth: number,
+    targetHeight: number,
+    method: ResampleMethod,
+    onProgress?: (fraction: number) => void,
+): Uint8ClampedArray => {
+    if (method === 'nearest') return nearest(pixels, width, height, targetWidth, targetHeight);
+
+    const premultiplied = toPremultiplied(pixels);
+    const result = method === 'step-down'
+        ? stepDown(premultiplied, width, height, targetWidth, targetHeight, onProgress)
+        : convolve(premultiplied, width, height, targetWidth, targetHeight, method === 'bicubic' ? BICUBIC : LANCZOS, onProgress);
+    return fromPremultiplied(result);
+};
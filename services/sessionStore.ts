@@ -0,0 +1,175 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ImageState, Tab } from '../types';
+import { createThumbnail } from './imageUtils';
+import { getCurrentEntry, linkLinearHistory, type LinearHistory } from './history';
+
+const DB_NAME = 'pixshop';
+// Version 1 sessions kept each image's history as a list with a historyIndex; version 2 links the versions into a tree
+const DB_VERSION = 2;
+// Lightweight metadata for listing sessions, kept apart from the heavy image data
+const SUMMARY_STORE = 'sessionSummaries';
+const DATA_STORE = 'sessionData';
+
+export const TABS: Tab[] = ['retouch', 'compose', 'crop', 'transform', 'resize', 'background', 'adjust', 'filters', 'advanced', 'history', 'recipes', 'metadata'];
+
+// What the session manager shows for each stored session
+export interface SessionSummary {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    imageCount: number;
+    // Total size of every file in every history stack, in bytes
+    byteSize: number;
+    thumbnail: string | null;
+}
+
+// Everything needed to restore the editor exactly as it was left
+export interface StoredSession {
+    id: string;
+    images: Pick<ImageState, 'id' | 'name' | 'history' | 'currentEntryId' | 'headEntryId' | 'metadata'>[];
+    currentImageIndex: number;
+    activeTab: Tab;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Rewrites every version 1 session in place, inside the upgrade transaction
+const migrateLinearSessions = (store: IDBObjectStore) => {
+    store.openCursor().onsuccess = (event) => {
+        const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+        if (!cursor) return;
+        const session = cursor.value as Omit<StoredSession, 'images'> & { images: (LinearHistory & { id: string, name: string })[] };
+        const migrated: StoredSession = {
+            ...session,
+            images: session.images
+                .filter(image => image.history.length > 0)
+                .map(image => ({ id: image.id, name: image.name, ...linkLinearHistory(image), metadata: null })),
+        };
+        cursor.update(migrated);
+        cursor.continue();
+    };
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = (event) => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(SUMMARY_STORE)) db.createObjectStore(SUMMARY_STORE, { keyPath: 'id' });
+                if (!db.objectStoreNames.contains(DATA_STORE)) db.createObjectStore(DATA_STORE, { keyPath: 'id' });
+                if (event.oldVersion === 1) migrateLinearSessions(request.transaction!.objectStore(DATA_STORE));
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error ?? new Error('Could not open the session database.'));
+            };
+        });
+    }
+    return dbPromise;
+};
+
+// Wraps an IDBRequest in a promise
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+// Resolves once a transaction has been committed
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted.'));
+    });
+
+/**
+ * Writes a session, replacing any earlier version with the same id.
+ * @param session The editor state to store.
+ * @param createdAt When the session was first started.
+ */
+export const saveSession = async (session: StoredSession, createdAt: number): Promise<void> => {
+    const first = session.images[0];
+    const extraCount = session.images.length - 1;
+    const summary: SessionSummary = {
+        id: session.id,
+        name: first ? (extraCount > 0 ? `${first.name} + ${extraCount} more` : first.name) : 'Untitled session',
+        createdAt,
+        updatedAt: Date.now(),
+        imageCount: session.images.length,
+        byteSize: session.images.reduce((total, image) => total + image.history.reduce((sum, entry) => sum + entry.file.size, 0), 0),
+        thumbnail: first ? await createThumbnail(getCurrentEntry(first).file).catch(() => null) : null,
+    };
+
+    const db = await openDatabase();
+    const transaction = db.transaction([SUMMARY_STORE, DATA_STORE], 'readwrite');
+    transaction.objectStore(SUMMARY_STORE).put(summary);
+    transaction.objectStore(DATA_STORE).put(session);
+    await transactionDone(transaction);
+};
+
+/**
+ * Lists the stored sessions, most recently updated first.
+ * @returns The summaries of all stored sessions.
+ */
+export const listSessions = async (): Promise<SessionSummary[]> => {
+    const db = await openDatabase();
+    const summaries = await promisifyRequest(db.transaction(SUMMARY_STORE).objectStore(SUMMARY_STORE).getAll()) as SessionSummary[];
+    return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/**
+ * Reads a stored session with all of its images. Pointers that don't resolve are reset, the way
+ * importProject treats a project file.
+ * @param id The id of the session.
+ * @returns The session, or null if it no longer exists.
+ */
+export const loadSession = async (id: string): Promise<StoredSession | null> => {
+    const db = await openDatabase();
+    const session = await promisifyRequest(db.transaction(DATA_STORE).objectStore(DATA_STORE).get(id)) as StoredSession | undefined;
+    if (!session) return null;
+    // A stale or damaged record falls back to the original, the newest version and the first tab
+    const images = session.images.filter(image => image.history.length > 0).map(image => {
+        const hasEntry = (entryId: string) => image.history.some(entry => entry.id === entryId);
+        return {
+            ...image,
+            currentEntryId: hasEntry(image.currentEntryId) ? image.currentEntryId : image.history[0].id,
+            headEntryId: hasEntry(image.headEntryId) ? image.headEntryId : image.history[image.history.length - 1].id,
+        };
+    });
+    return {
+        ...session,
+        images,
+        currentImageIndex: Number.isInteger(session.currentImageIndex) ? Math.min(Math.max(0, session.currentImageIndex), Math.max(0, images.length - 1)) : 0,
+        activeTab: TABS.includes(session.activeTab) ? session.activeTab : 'retouch',
+    };
+};
+
+/**
+ * Removes a stored session and its images.
+ * @param id The id of the session.
+ */
+export const deleteSession = async (id: string): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction([SUMMARY_STORE, DATA_STORE], 'readwrite');
+    transaction.objectStore(SUMMARY_STORE).delete(id);
+    transaction.objectStore(DATA_STORE).delete(id);
+    await transactionDone(transaction);
+};
+
+/**
+ * Reports how much storage the app uses and how much the browser allows.
+ * @returns Usage and quota in bytes, or null if the browser doesn't expose them.
+ */
+export const getStorageEstimate = async (): Promise<{ usage: number, quota: number } | null> => {
+    if (!navigator.storage?.estimate) return null;
+    const { usage, quota } = await navigator.storage.estimate();
+    return usage !== undefined && quota !== undefined ? { usage, quota } : null;
+};
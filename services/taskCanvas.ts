@@ -0,0 +1,44 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Canvases for the image tasks. Inside the worker they are always OffscreenCanvas; when the tasks run on
+// the main thread in a browser without OffscreenCanvas, an ordinary detached canvas element stands in.
+
+export type TaskCanvas = OffscreenCanvas | HTMLCanvasElement;
+export type TaskContext = OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
+
+/**
+ * Creates a 2D canvas that works both in the worker and on the main thread.
+ * @param width The canvas width.
+ * @param height The canvas height.
+ * @returns The canvas and its context.
+ */
+export const createTaskCanvas = (width: number, height: number): { canvas: TaskCanvas; ctx: TaskContext } => {
+    let canvas: TaskCanvas;
+    if (typeof OffscreenCanvas !== 'undefined') {
+        canvas = new OffscreenCanvas(width, height);
+    } else if (typeof document !== 'undefined') {
+        canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+    } else {
+        throw new Error('This browser cannot draw images off screen.');
+    }
+    const ctx = canvas.getContext('2d') as TaskContext | null;
+    if (!ctx) throw new Error('Could not get canvas context');
+    return { canvas, ctx };
+};
+
+/**
+ * Encodes a task canvas as a PNG.
+ * @param canvas The canvas to encode.
+ * @returns A promise that resolves to the PNG.
+ */
+export const taskCanvasToBlob = async (canvas: TaskCanvas): Promise<Blob> => {
+    if (!('toBlob' in canvas)) return canvas.convertToBlob({ type: 'image/png' });
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error('Could not encode the image.');
+    return blob;
+};
@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Low-level reading of TIFF structures, shared by EXIF parsing and RAW files (which are mostly TIFF)
+
+export type TiffValue = string | number | number[];
+
+export const TYPE_BYTE = 1;
+export const TYPE_ASCII = 2;
+export const TYPE_SHORT = 3;
+export const TYPE_LONG = 4;
+export const TYPE_RATIONAL = 5;
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+// Plain TIFF uses 42; Olympus and Panasonic RAW files use their own magic numbers in its place
+const TIFF_MAGICS = [42, 0x4f52, 0x5352, 0x55];
+
+const utf8 = new TextDecoder('utf-8');
+
+const readValue = (view: DataView, type: number, count: number, offset: number, little: boolean): TiffValue => {
+    if (type === TYPE_ASCII) {
+        return utf8.decode(new Uint8Array(view.buffer, view.byteOffset + offset, count)).replace(/\0+$/, '').trim();
+    }
+    const values: number[] = [];
+    for (let i = 0; i < count; i++) {
+        const at = offset + i * TYPE_SIZES[type];
+        switch (type) {
+            case 3: values.push(view.getUint16(at, little)); break;
+            case 4: values.push(view.getUint32(at, little)); break;
+            case 9: values.push(view.getInt32(at, little)); break;
+            case 5: values.push(view.getUint32(at, little) / (view.getUint32(at + 4, little) || 1)); break;
+            case 10: values.push(view.getInt32(at, little) / (view.getInt32(at + 4, little) || 1)); break;
+            default: values.push(view.getUint8(at));
+        }
+    }
+    return count === 1 ? values[0] : values;
+};
+
+/**
+ * Reads the byte order and first directory offset of a TIFF structure.
+ * @param view The bytes, starting at the TIFF header.
+ * @returns The header, or null if the bytes aren't TIFF.
+ */
+export const readTiffHeader = (view: DataView): { little: boolean, firstIfd: number } | null => {
+    if (view.byteLength < 8) return null;
+    const order = view.getUint16(0);
+    if (order !== 0x4949 && order !== 0x4d4d) return null; // "II" or "MM"
+    const little = order === 0x4949;
+    if (!TIFF_MAGICS.includes(view.getUint16(2, little))) return null;
+    return { little, firstIfd: view.getUint32(4, little) };
+};
+
+/**
+ * Reads the entries of one image file directory. Entries pointing outside the data are skipped.
+ * @param view The bytes, starting at the TIFF header; offsets are relative to it.
+ * @param offset Where the directory starts.
+ * @param little Whether the data is little-endian.
+ * @returns The values by tag, and the offset of the next directory (0 for none).
+ */
+export const readIfd = (view: DataView, offset: number, little: boolean): { tags: Map<number, TiffValue>, next: number } => {
+    const tags = new Map<number, TiffValue>();
+    if (offset <= 0 || offset + 2 > view.byteLength) return { tags, next: 0 };
+    const count = view.getUint16(offset, little);
+    for (let i = 0; i < count; i++) {
+        const entry = offset + 2 + i * 12;
+        if (entry + 12 > view.byteLength) break;
+        const tag = view.getUint16(entry, little);
+        const type = view.getUint16(entry + 2, little);
+        const valueCount = view.getUint32(entry + 4, little);
+        const size = TYPE_SIZES[type];
+        if (!size) continue;
+        const valueOffset = size * valueCount > 4 ? view.getUint32(entry + 8, little) : entry + 8;
+        if (valueOffset + size * valueCount > view.byteLength) continue;
+        tags.set(tag, readValue(view, type, valueCount, valueOffset, little));
+    }
+    const nextAt = offset + 2 + count * 12;
+    return { tags, next: nextAt + 4 <= view.byteLength ? view.getUint32(nextAt, little) : 0 };
+};
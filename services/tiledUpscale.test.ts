@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { planTiles, TILE_OVERLAP, TILE_SIZE, type UpscaleTile } from './tiledUpscale';
+
+// The distinct spans of the tiles along one axis, in order
+const spans = (tiles: UpscaleTile[], axis: 'x' | 'y') => {
+    const size = axis === 'x' ? 'width' : 'height';
+    const unique = new Map(tiles.map(tile => [tile[axis], tile[size]]));
+    return [...unique].map(([start, length]) => ({ start, end: start + length }));
+};
+
+describe('planTiles', () => {
+    it('keeps an image that fits in one tile whole', () => {
+        expect(planTiles(300, 200)).toEqual([{ x: 0, y: 0, width: 300, height: 200 }]);
+        expect(planTiles(TILE_SIZE, TILE_SIZE)).toHaveLength(1);
+    });
+
+    it('covers the whole image with overlapping tiles no larger than the tile size', () => {
+        for (const [width, height] of [[513, 400], [1200, 800], [2000, 2000], [4097, 1031]]) {
+            const tiles = planTiles(width, height);
+            tiles.forEach(tile => {
+                expect(tile.width).toBeLessThanOrEqual(TILE_SIZE);
+                expect(tile.height).toBeLessThanOrEqual(TILE_SIZE);
+            });
+            for (const [axis, length] of [['x', width], ['y', height]] as const) {
+                const along = spans(tiles, axis);
+                expect(along[0].start).toBe(0);
+                expect(along[along.length - 1].end).toBe(length);
+                along.slice(1).forEach((span, i) => expect(along[i].end - span.start).toBeGreaterThanOrEqual(TILE_OVERLAP));
+            }
+        }
+    });
+
+    it('lists tiles in reading order, one per row and column', () => {
+        const tiles = planTiles(1200, 800);
+        const columns = spans(tiles, 'x').length;
+        const rows = spans(tiles, 'y').length;
+        expect(tiles).toHaveLength(columns * rows);
+        const order = tiles.map(tile => [tile.y, tile.x]);
+        expect(order).toEqual([...order].sort((a, b) => a[0] - b[0] || a[1] - b[1]));
+    });
+
+    it('only splits the side that is too long', () => {
+        const tiles = planTiles(1500, 300);
+        expect(tiles.every(tile => tile.y === 0 && tile.height === 300)).toBe(true);
+        expect(tiles.length).toBeGreaterThan(1);
+    });
+});
@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { cropImage, dataURLtoFile, getImageDimensions } from './imageUtils';
+import { runInWorker } from './imageWorker';
+import type { StitchTile } from './imageTasks';
+
+// Largest side, in source pixels, of a tile sent to the model
+export const TILE_SIZE = 512;
+// How much neighbouring tiles share, in source pixels, to leave room for blending the seam
+export const TILE_OVERLAP = 48;
+
+// A tile of the source image, in source pixels
+export interface UpscaleTile {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// Spreads tiles evenly along one side so every overlap is at least TILE_OVERLAP
+const planAxis = (length: number): { start: number, size: number }[] => {
+    if (length <= TILE_SIZE) return [{ start: 0, size: length }];
+    const count = Math.ceil((length - TILE_OVERLAP) / (TILE_SIZE - TILE_OVERLAP));
+    const step = (length - TILE_SIZE) / (count - 1);
+    return Array.from({ length: count }, (_, i) => ({ start: Math.round(i * step), size: TILE_SIZE }));
+};
+
+/**
+ * Splits an image into overlapping tiles, in reading order.
+ * @param width The image width.
+ * @param height The image height.
+ * @returns The tiles covering the whole image.
+ */
+export const planTiles = (width: number, height: number): UpscaleTile[] => {
+    const columns = planAxis(width);
+    return planAxis(height).flatMap(row => columns.map(column => ({ x: column.start, y: row.start, width: column.size, height: row.size })));
+};
+
+/**
+ * Upscales an image tile by tile and stitches the results with blended seams, so the output is
+ * exactly scaleFactor times the source size however large it is.
+ * @param originalImage The image to upscale.
+ * @param scaleFactor The factor by which to upscale the image.
+ * @param upscaleTile Upscales one tile; it must resolve to exactly scaleFactor times the tile's size.
+ * @param onProgress Called before each tile starts with its number and the tile count.
+ * @returns A promise that resolves to the data URL of the upscaled image.
+ */
+export const upscaleInTiles = async (
+    originalImage: File,
+    scaleFactor: number,
+    upscaleTile: (tile: File) => Promise<string>,
+    onProgress?: (tile: number, total: number) => void,
+): Promise<string> => {
+    const { width, height } = await getImageDimensions(originalImage);
+    const tiles = planTiles(width, height);
+    const stitched: StitchTile[] = [];
+
+    // One request at a time keeps within the model's rate limits and lets progress advance tile by tile
+    for (let i = 0; i < tiles.length; i++) {
+        const tile = tiles[i];
+        onProgress?.(i + 1, tiles.length);
+        const tileFile = tiles.length === 1
+            ? originalImage
+            : await dataURLtoFile(await cropImage(originalImage, tile), `tile-${i + 1}.png`);
+        // The nearest earlier neighbours; with short sides a tile can overlap more than one
+        const left = tiles.filter(t => t.y === tile.y && t.x < tile.x).pop();
+        const above = tiles.filter(t => t.x === tile.x && t.y < tile.y).pop();
+        stitched.push({
+            dataUrl: await upscaleTile(tileFile),
+            x: tile.x * scaleFactor,
+            y: tile.y * scaleFactor,
+            width: tile.width * scaleFactor,
+            height: tile.height * scaleFactor,
+            blendLeft: left ? (left.x + left.width - tile.x) * scaleFactor : 0,
+            blendTop: above ? (above.y + above.height - tile.y) * scaleFactor : 0,
+        });
+    }
+
+    if (stitched.length === 1) return stitched[0].dataUrl;
+    return runInWorker({ type: 'stitch-tiles', width: width * scaleFactor, height: height * scaleFactor, tiles: stitched });
+};
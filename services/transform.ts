@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ImageTransform } from '../types';
+
+// The straighten slider's range, in degrees either way
+export const MAX_STRAIGHTEN_ANGLE = 45;
+
+/**
+ * Computes the largest axis-aligned rectangle that fits inside a rotated rectangle, so a
+ * straightened image can be cropped without empty corners.
+ * @param width The width of the image before rotating.
+ * @param height The height of the image before rotating.
+ * @param angle The rotation in degrees.
+ * @returns The size of the rectangle, centered on the image.
+ */
+export const getInscribedSize = (width: number, height: number, angle: number): { width: number, height: number } => {
+    const radians = (angle * Math.PI) / 180;
+    const sin = Math.abs(Math.sin(radians));
+    const cos = Math.abs(Math.cos(radians));
+    if (sin < 1e-10) return { width, height };
+
+    const widthIsLonger = width >= height;
+    const longSide = widthIsLonger ? width : height;
+    const shortSide = widthIsLonger ? height : width;
+    // Either two corners of the rectangle touch the long sides only (thin images at steep
+    // angles), or all four corners touch the rotated image's edges
+    if (shortSide <= 2 * sin * cos * longSide || Math.abs(sin - cos) < 1e-10) {
+        const half = shortSide / 2;
+        const [w, h] = widthIsLonger ? [half / sin, half / cos] : [half / cos, half / sin];
+        return { width: Math.floor(w), height: Math.floor(h) };
+    }
+    const cos2 = cos * cos - sin * sin;
+    return {
+        width: Math.floor((width * cos - height * sin) / cos2),
+        height: Math.floor((height * cos - width * sin) / cos2),
+    };
+};
+
+/**
+ * Returns a short description of a transform for history and recipe lists.
+ * @param transform The transform.
+ * @returns The description, e.g. "Rotate 90° right" or "Straighten -2.5°".
+ */
+export const describeTransform = (transform: ImageTransform): string => {
+    switch (transform.type) {
+        case 'rotate': return ['', 'Rotate 90° right', 'Rotate 180°', 'Rotate 90° left'][transform.quarterTurns];
+        case 'flip': return transform.axis === 'horizontal' ? 'Flip horizontal' : 'Flip vertical';
+        case 'straighten': return `Straighten ${Number(transform.angle.toFixed(1))}°`;
+    }
+};
+
+/**
+ * Checks that a value read from storage or a file is a valid transform.
+ * @param value The value to check.
+ * @returns True when the value is a transform that can be applied.
+ */
+export const isImageTransform = (value: unknown): value is ImageTransform => {
+    if (!value || typeof value !== 'object') return false;
+    const t = value as Record<string, unknown>;
+    switch (t.type) {
+        case 'rotate': return t.quarterTurns === 1 || t.quarterTurns === 2 || t.quarterTurns === 3;
+        case 'flip': return t.axis === 'horizontal' || t.axis === 'vertical';
+        case 'straighten': return typeof t.angle === 'number' && Math.abs(t.angle) <= MAX_STRAIGHTEN_ANGLE;
+        default: return false;
+    }
+};
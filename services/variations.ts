@@ -0,0 +1,32 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Upper bound for parallel candidates, to stay well within provider rate limits
+export const MAX_VARIATIONS = 4;
+
+/**
+ * Runs the same generation several times in parallel.
+ * @param count How many candidates to request.
+ * @param generate Produces one candidate as a data URL.
+ * @returns The candidates that succeeded and the errors of those that failed.
+ * @throws The first error if every call failed.
+ */
+export const generateVariations = async (
+    count: number,
+    generate: () => Promise<string>,
+): Promise<{ results: string[], failures: unknown[] }> => {
+    const calls = Array.from({ length: Math.min(Math.max(1, count), MAX_VARIATIONS) }, () => generate());
+    const settled = await Promise.allSettled(calls);
+
+    const results: string[] = [];
+    const failures: unknown[] = [];
+    for (const outcome of settled) {
+        if (outcome.status === 'fulfilled') results.push(outcome.value);
+        else failures.push(outcome.reason);
+    }
+
+    if (results.length === 0) throw failures[0] ?? new Error('No variations were generated.');
+    return { results, failures };
+};
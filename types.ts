@@ -2,3 +2,214 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+
+// The tool tabs of the editor sidebar
+export type Tab = 'retouch' | 'compose' | 'crop' | 'transform' | 'resize' | 'background' | 'adjust' | 'filters' | 'advanced' | 'history' | 'recipes' | 'metadata';
+
+// The kinds of operations that produce a new version of an image
+export type OperationType =
+  | 'upload'
+  | 'retouch'
+  | 'filter'
+  | 'adjustment'
+  | 'pixel-adjustment'
+  | 'auto-enhance'
+  | 'compose'
+  | 'crop'
+  | 'transform'
+  | 'resize'
+  | 'expand'
+  | 'upscale'
+  | 'background'
+  | 'recipe';
+
+// How a version of an image was produced
+export type HistoryOperation = {
+  type: OperationType;
+  // The text prompt sent to the model, for AI operations
+  prompt?: string;
+  // Numeric settings of the operation, e.g. crop rectangle or target size
+  params?: Record<string, unknown>;
+  // The model that produced the result, for AI operations
+  model?: string;
+  // How long the operation took, in milliseconds
+  durationMs?: number;
+};
+
+// One version of an image in its edit history
+export type HistoryEntry = {
+  id: string;
+  // The version this one was made from; null for the uploaded original
+  parentId: string | null;
+  file: File;
+  operation: HistoryOperation;
+  timestamp: number;
+  // A name the user gave this step
+  label?: string;
+};
+
+// Represents the state of a single image, including its edit history.
+// The history is a tree: editing after an undo starts a new branch instead of discarding redo states.
+export type ImageState = {
+  id: string;
+  // Every version ever produced, in creation order; linked into a tree by parentId
+  history: HistoryEntry[];
+  // The version shown in the editor
+  currentEntryId: string;
+  // The tip of the active branch, which redo walks towards
+  headEntryId: string;
+  isProcessing: boolean;
+  error: string | null;
+  name: string;
+  // Read from the uploaded file and kept for every version, since AI results come back without any
+  metadata: ImageMetadata | null;
+};
+
+// Where a photo was taken, in decimal degrees; altitude in meters above sea level
+export type GpsLocation = { latitude: number; longitude: number; altitude?: number };
+
+// The EXIF and IPTC fields Pixshop reads from uploads and writes back into JPEG downloads
+export type ImageMetadata = {
+  // Descriptive fields the user can edit
+  title?: string;
+  description?: string;
+  author?: string;
+  copyright?: string;
+  // Capture details, shown read-only
+  make?: string;
+  model?: string;
+  lens?: string;
+  // As recorded by the camera, "YYYY:MM:DD HH:MM:SS"
+  dateTaken?: string;
+  // In seconds
+  exposureTime?: number;
+  fNumber?: number;
+  iso?: number;
+  // In millimeters
+  focalLength?: number;
+  location?: GpsLocation;
+};
+
+// Alternative AI results made in parallel from one version, waiting for the user to pick
+export type VariationSet = {
+  imageId: string;
+  // The version every candidate was generated from
+  sourceEntryId: string;
+  operation: HistoryOperation;
+  files: File[];
+  // How many of the parallel calls failed
+  failedCount: number;
+};
+
+// Selection tools available for painting a retouch mask
+export type MaskTool = 'brush' | 'lasso' | 'rectangle';
+
+// Whether mask strokes add to or subtract from the selection
+export type MaskMode = 'add' | 'subtract';
+
+// A control point on a tone curve; both coordinates are in the 0-255 range
+export type CurvePoint = { x: number, y: number };
+
+// The composite RGB curve plus one curve per color channel
+export type CurveChannel = 'rgb' | 'red' | 'green' | 'blue';
+export type CurveSet = Record<CurveChannel, CurvePoint[]>;
+
+// A curve set saved by the user for reuse
+export type SavedCurve = { id: string; name: string; curves: CurveSet };
+
+// Hue ranges targeted by the selective color adjustment
+export type ColorRange = 'reds' | 'yellows' | 'greens' | 'cyans' | 'blues' | 'magentas';
+
+// A numeric adjustment applied deterministically on the client, without the AI
+export type PixelAdjustment =
+  | { type: 'brightness-contrast'; brightness: number; contrast: number }
+  | { type: 'levels'; inputBlack: number; inputWhite: number; gamma: number; outputBlack: number; outputWhite: number }
+  | { type: 'curves'; curves: CurveSet }
+  | { type: 'selective-color'; range: ColorRange; hue: number; saturation: number; lightness: number };
+
+// A rotation or flip computed on the client. Angles are in degrees, clockwise.
+export type ImageTransform =
+  | { type: 'rotate'; quarterTurns: 1 | 2 | 3 }
+  | { type: 'flip'; axis: 'horizontal' | 'vertical' }
+  // Rotates by a small angle and crops to the largest rectangle without empty corners
+  | { type: 'straighten'; angle: number };
+
+// Where the original image sits on a Magic Expand canvas
+export type ExpandAnchor =
+  | 'top-left' | 'top' | 'top-right'
+  | 'left' | 'center' | 'right'
+  | 'bottom-left' | 'bottom' | 'bottom-right';
+
+// What goes behind a cut-out subject. Gradients run from one color to the other along the angle, in degrees.
+export type BackgroundFill =
+  | { type: 'transparent' }
+  | { type: 'color'; color: string }
+  | { type: 'gradient'; from: string; to: string; angle: number }
+  // Scaled to cover the whole image, like CSS background-size: cover
+  | { type: 'image'; image: Blob };
+
+// How a compose layer mixes with what lies below it; apart from 'normal', the names are canvas composite operations
+export type BlendMode =
+  | 'normal' | 'multiply' | 'screen' | 'overlay'
+  | 'darken' | 'lighten' | 'color-dodge' | 'color-burn'
+  | 'hard-light' | 'soft-light' | 'difference' | 'exclusion'
+  | 'hue' | 'saturation' | 'color' | 'luminosity';
+
+// Where a compose layer sits over the base image, in base image pixels. x and y are the layer's center;
+// rotation is in degrees clockwise and scale multiplies the layer's own size.
+export interface LayerTransform {
+  x: number;
+  y: number;
+  scale: number;
+  rotation: number;
+}
+
+interface LayerProperties extends LayerTransform {
+  id: string;
+  name: string;
+  visible: boolean;
+  // From 0 to 1
+  opacity: number;
+  blendMode: BlendMode;
+}
+
+// A layer stacked over the base image in the Compose tab. Image and shape sizes are before scaling;
+// text is as large as its lines at the font size.
+export type ComposeLayer = LayerProperties & (
+  | { type: 'image'; image: Blob; width: number; height: number }
+  | { type: 'text'; text: string; fontFamily: string; fontSize: number; bold: boolean; color: string }
+  | { type: 'shape'; shape: 'rectangle' | 'ellipse'; width: number; height: number; fill: string; stroke: string; strokeWidth: number }
+);
+
+// How pixels are interpolated when an image is scaled on the client
+export type ResampleMethod = 'lanczos' | 'bicubic' | 'step-down' | 'nearest';
+
+// One replayable step of a recipe. Steps carry only what they need to run on any image,
+// so crops are stored as an aspect ratio rather than pixel coordinates.
+export type RecipeStep =
+  | { type: 'filter'; prompt: string }
+  | { type: 'adjustment'; prompt: string }
+  | { type: 'auto-enhance' }
+  | { type: 'pixel-adjustment'; adjustment: PixelAdjustment }
+  | { type: 'crop'; aspect: number }
+  | { type: 'transform'; transform: ImageTransform }
+  | { type: 'resize'; width: number; height: number; method?: ResampleMethod }
+  | { type: 'expand'; width: number; height: number; prompt: string; anchor?: ExpandAnchor }
+  | { type: 'upscale'; scaleFactor: number };
+
+// A named sequence of operations that can be replayed on other images
+export type Recipe = { id: string; name: string; steps: RecipeStep[] };
+
+// Which panel a user preset belongs to
+export type PresetKind = 'filter' | 'adjustment';
+
+// A prompt saved by the user for reuse, with a small preview of the look it produced
+export type Preset = {
+  id: string;
+  kind: PresetKind;
+  name: string;
+  prompt: string;
+  category: string;
+  // JPEG data URL rendered from the image the preset was saved from
+  thumbnail: string | null;
+};